@@ -1,15 +1,67 @@
-import { IProcessedItem } from '../core';
+import { ErrorPolicy, IProcessedItem, IProcessingError, ItemType } from '../core';
 
 export interface ICleanConfig {
     projectId: string;
     apiKey: string;
     baseUrl?: string;
+    /**
+     * When set, only objects matching the filter are deleted
+     */
+    filter?: ICleanFilter;
+    /**
+     * When enabled, nothing is deleted & result lists objects that would be deleted
+     */
+    dryRun?: boolean;
+    /**
+     * 'continue' (default) deletes remaining objects when some object cannot be deleted.
+     * 'failFast' stops clean at the first error.
+     */
+    errorPolicy?: ErrorPolicy;
+    /**
+     * When error policy is 'continue', clean is stopped once number of errors reaches this number
+     */
+    maxErrors?: number;
     onDelete?: (item: IProcessedItem) => void;
+    onError?: (error: IProcessingError) => void;
+}
+
+export interface ICleanFilter {
+    /**
+     * Types of deleted objects. When not set, objects of all types are deleted unless content types or languages
+     * are set in which case only content is deleted. When 'languageVariant' is set without 'contentItem',
+     * content items are kept & only their language variants are deleted.
+     */
+    itemTypes?: ItemType[];
+    /**
+     * Codenames of content types whose content items are deleted. '*' matches any number of characters.
+     */
+    contentTypes?: string[];
+    /**
+     * Codenames of languages whose language variants are deleted. Content items are kept.
+     * '*' matches any number of characters.
+     */
+    languages?: string[];
+}
+
+export interface ICleanItem {
+    type: ItemType;
+    /**
+     * Codename of object. Assets & asset folders are identified by id and language variants by
+     * codenames of content item & language separated by ':'.
+     */
+    key: string;
+    title: string;
 }
 
 export interface ICleanResult {
     metadata: {
         timestamp: Date,
         projectId: string;
+        dryRun: boolean;
     };
+    /**
+     * Deleted objects or objects that would be deleted when dry run is enabled
+     */
+    items: ICleanItem[];
+    errors: IProcessingError[];
 }
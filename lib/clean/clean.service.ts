@@ -1,10 +1,13 @@
-import { AssetFolderModels, ManagementClient } from '@kentico/kontent-management';
+import { AssetFolderModels, ContentItemModels, LanguageModels, ManagementClient } from '@kentico/kontent-management';
 
-import { ItemType } from '../core';
-import { ICleanConfig, ICleanResult } from './clean.models';
+import { getWildcardRegex, IProcessingError, ItemType, processingErrorHelper } from '../core';
+import { ICleanConfig, ICleanItem, ICleanResult } from './clean.models';
 
 export class CleanService {
     private readonly client: ManagementClient;
+    private readonly contentItemTypes: ItemType[] = ['contentItem', 'languageVariant'];
+    private items: ICleanItem[] = [];
+    private errors: IProcessingError[] = [];
 
     constructor(private config: ICleanConfig) {
         this.client = new ManagementClient({
@@ -15,19 +18,40 @@ export class CleanService {
     }
 
     public async cleanAllAsync(): Promise<ICleanResult> {
+        this.items = [];
+        this.errors = [];
+
         try {
-            await this.cleanContentItemsAsync();
-            await this.cleanContentTypesAsync();
-            await this.cleanContentTypeSnippetsAsync();
-            await this.cleanTaxonomiesAsync();
-            await this.cleanAssetsAsync();
-            await this.cleanAssetFoldersAsync();
+            if (this.isLanguageVariantsClean()) {
+                await this.cleanLanguageVariantsOfContentItemsAsync();
+            } else if (this.shouldClean('contentItem')) {
+                await this.cleanContentItemsAsync();
+            }
+
+            if (this.shouldClean('contentType')) {
+                await this.cleanContentTypesAsync();
+            }
+            if (this.shouldClean('contentTypeSnippet')) {
+                await this.cleanContentTypeSnippetsAsync();
+            }
+            if (this.shouldClean('taxonomy')) {
+                await this.cleanTaxonomiesAsync();
+            }
+            if (this.shouldClean('asset')) {
+                await this.cleanAssetsAsync();
+            }
+            if (this.shouldClean('assetFolder')) {
+                await this.cleanAssetFoldersAsync();
+            }
 
             return {
                 metadata: {
                     projectId: this.config.projectId,
-                    timestamp: new Date()
-                }
+                    timestamp: new Date(),
+                    dryRun: this.config.dryRun ?? false
+                },
+                items: this.items,
+                errors: this.errors
             };
         } catch (err) {
             console.log(err);
@@ -35,18 +59,37 @@ export class CleanService {
         }
     }
 
+    /**
+     * Checks whether project contains any content items, assets, content types, snippets or taxonomies. Objects
+     * of these types are listed one type after another until the first object is found.
+     */
+    public async hasContentAsync(): Promise<boolean> {
+        const hasObjectsAsyncFunctions: (() => Promise<boolean>)[] = [
+            async () => (await this.client.listContentItems().toPromise()).data.items.length > 0,
+            async () => (await this.client.listAssets().toPromise()).data.items.length > 0,
+            async () => (await this.client.listContentTypes().toPromise()).data.items.length > 0,
+            async () => (await this.client.listContentTypeSnippets().toPromise()).data.items.length > 0,
+            async () => (await this.client.listTaxonomies().toPromise()).data.taxonomies.length > 0
+        ];
+
+        for (const hasObjectsAsync of hasObjectsAsyncFunctions) {
+            if (await hasObjectsAsync()) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
     public async cleanTaxonomiesAsync(): Promise<void> {
         const taxonomies = (await this.client.listTaxonomies().toPromise()).data.taxonomies;
 
         for (const taxonomy of taxonomies) {
-            await this.client
-                .deleteTaxonomy()
-                .byTaxonomyId(taxonomy.id)
-                .toPromise()
-                .then(response => {
-                    this.processItem(taxonomy.name, 'taxonomy', taxonomy);
-                })
-                .catch(error => this.handleCleanError(error));
+            await this.deleteObjectAsync(
+                { type: 'taxonomy', key: taxonomy.codename, title: taxonomy.name },
+                taxonomy,
+                () => this.client.deleteTaxonomy().byTaxonomyId(taxonomy.id).toPromise()
+            );
         }
     }
 
@@ -54,14 +97,11 @@ export class CleanService {
         const contentTypeSnippets = (await this.client.listContentTypeSnippets().toAllPromise()).data.items;
 
         for (const contentTypeSnippet of contentTypeSnippets) {
-            await this.client
-                .deleteContentTypeSnippet()
-                .byTypeId(contentTypeSnippet.id)
-                .toPromise()
-                .then(response => {
-                    this.processItem(contentTypeSnippet.name, 'contentTypeSnippet', contentTypeSnippet);
-                })
-                .catch(error => this.handleCleanError(error));
+            await this.deleteObjectAsync(
+                { type: 'contentTypeSnippet', key: contentTypeSnippet.codename, title: contentTypeSnippet.name },
+                contentTypeSnippet,
+                () => this.client.deleteContentTypeSnippet().byTypeId(contentTypeSnippet.id).toPromise()
+            );
         }
     }
 
@@ -69,14 +109,11 @@ export class CleanService {
         const contentTypes = (await this.client.listContentTypes().toAllPromise()).data.items;
 
         for (const contentType of contentTypes) {
-            await this.client
-                .deleteContentType()
-                .byTypeId(contentType.id)
-                .toPromise()
-                .then(response => {
-                    this.processItem(contentType.name, 'contentType', contentType);
-                })
-                .catch(error => this.handleCleanError(error));
+            await this.deleteObjectAsync(
+                { type: 'contentType', key: contentType.codename, title: contentType.name },
+                contentType,
+                () => this.client.deleteContentType().byTypeId(contentType.id).toPromise()
+            );
         }
     }
 
@@ -84,88 +121,212 @@ export class CleanService {
         const assets = (await this.client.listAssets().toAllPromise()).data.items;
 
         for (const asset of assets) {
-            await this.client
-                .deleteAsset()
-                .byAssetId(asset.id)
-                .toPromise()
-                .then(m => {
-                    this.processItem(asset.fileName, 'asset', asset);
-                })
-                .catch(error => this.handleCleanError(error));
+            await this.deleteObjectAsync({ type: 'asset', key: asset.id, title: asset.fileName }, asset, () =>
+                this.client.deleteAsset().byAssetId(asset.id).toPromise()
+            );
         }
     }
 
     public async cleanAssetFoldersAsync(): Promise<void> {
         const assetFolders = (await this.client.listAssetFolders().toPromise()).data.items;
 
-        if (assetFolders.length) {
-            await this.client
-                .modifyAssetFolders()
-                .withData(
-                    assetFolders.map(m => {
-                        return <AssetFolderModels.IModifyAssetFoldersData> {
-                            op: 'remove',
-                            reference: {
-                                id: m.id
-                            }
-                        };
-                    })
-                )
-                .toPromise()
-                .then(response => {
-                    for (const folder of assetFolders) {
-                        this.processItem(folder.name, 'assetFolder', folder);
-                    }
-                })
-                .catch(error => this.handleCleanError(error));
+        if (!assetFolders.length) {
+            return;
         }
+
+        const items: ICleanItem[] = assetFolders.map(m => {
+            return { type: 'assetFolder', key: m.id, title: m.name };
+        });
+
+        if (this.config.dryRun) {
+            this.items.push(...items);
+            return;
+        }
+
+        await this.client
+            .modifyAssetFolders()
+            .withData(
+                assetFolders.map(m => {
+                    return <AssetFolderModels.IModifyAssetFoldersData> {
+                        op: 'remove',
+                        reference: {
+                            id: m.id
+                        }
+                    };
+                })
+            )
+            .toPromise()
+            .then(response => {
+                this.items.push(...items);
+
+                for (const folder of assetFolders) {
+                    this.processItem(folder.name, 'assetFolder', folder);
+                }
+            })
+            .catch(error =>
+                // folders are deleted in a single request so error is reported for all of them
+                this.handleCleanError(error, {
+                    type: 'assetFolder',
+                    key: items.map(m => m.key).join(','),
+                    title: items.map(m => m.title).join(', ')
+                })
+            );
     }
 
+    /**
+     * Deletes content items of content types given by filter (or all content items when filter is not set)
+     */
     public async cleanContentItemsAsync(): Promise<void> {
-        const contentItems = (await this.client.listContentItems().toAllPromise()).data.items;
+        const contentItems = await this.getContentItemsToCleanAsync();
 
         for (const contentItem of contentItems) {
-            await this.client
-                .deleteContentItem()
-                .byItemId(contentItem.id)
-                .toPromise()
-                .then(response => {
-                    this.processItem(contentItem.name, 'contentItem', contentItem);
-                })
-                .catch(error => this.handleCleanError(error));
+            await this.deleteObjectAsync(
+                { type: 'contentItem', key: contentItem.codename, title: contentItem.name },
+                contentItem,
+                () => this.client.deleteContentItem().byItemId(contentItem.id).toPromise()
+            );
         }
     }
 
+    /**
+     * Deletes language variants of given content item in languages given by filter (or in all languages
+     * when filter is not set)
+     */
     public async cleanLanguageVariantsAsync(contentItemId: string): Promise<void> {
+        const contentItem = (await this.client.viewContentItem().byItemId(contentItemId).toPromise()).data;
+
+        await this.cleanLanguageVariantsOfContentItemAsync(contentItem, await this.getLanguagesToCleanAsync());
+    }
+
+    private async cleanLanguageVariantsOfContentItemsAsync(): Promise<void> {
+        const contentItems = await this.getContentItemsToCleanAsync();
+        const languages = await this.getLanguagesToCleanAsync();
+
+        for (const contentItem of contentItems) {
+            await this.cleanLanguageVariantsOfContentItemAsync(contentItem, languages);
+        }
+    }
+
+    private async cleanLanguageVariantsOfContentItemAsync(
+        contentItem: ContentItemModels.ContentItem,
+        languages: LanguageModels.LanguageModel[]
+    ): Promise<void> {
         const languageVariants = (
             await this.client
                 .listLanguageVariantsOfItem()
-                .byItemId(contentItemId)
+                .byItemId(contentItem.id)
                 .toPromise()
         ).data.items;
 
         for (const languageVariant of languageVariants) {
-            const languageId = languageVariant.language.id;
-            const itemId = contentItemId;
+            const language = languages.find(m => m.id === languageVariant.language.id);
 
-            if (!languageId) {
-                throw Error(`Missing language id for item '${contentItemId}'`);
+            if (!language) {
+                continue;
             }
 
-            await this.client
-                .deleteLanguageVariant()
-                .byItemId(itemId)
-                .byLanguageId(languageId)
-                .toPromise()
-                .then(response => {
-                    this.processItem(itemId, 'languageVariant', languageVariant);
-                })
-                .catch(error => this.handleCleanError(error));
+            await this.deleteObjectAsync(
+                {
+                    type: 'languageVariant',
+                    key: `${contentItem.codename}:${language.codename}`,
+                    title: `${contentItem.name} (${language.name})`
+                },
+                languageVariant,
+                () => this.client.deleteLanguageVariant().byItemId(contentItem.id).byLanguageId(language.id).toPromise()
+            );
         }
     }
 
-    private handleCleanError(error: any): void {
-        console.log(error);
+    private async getContentItemsToCleanAsync(): Promise<ContentItemModels.ContentItem[]> {
+        const contentItems = (await this.client.listContentItems().toAllPromise()).data.items;
+        const contentTypePatterns = (this.config.filter?.contentTypes ?? []).map(m => getWildcardRegex(m));
+
+        if (!contentTypePatterns.length) {
+            return contentItems;
+        }
+
+        const contentTypes = (await this.client.listContentTypes().toAllPromise()).data.items;
+        const contentTypeIds = new Set<string>(
+            contentTypes.filter(m => contentTypePatterns.some(p => p.test(m.codename))).map(m => m.id)
+        );
+
+        return contentItems.filter(m => contentTypeIds.has(m.type.id ?? ''));
+    }
+
+    private async getLanguagesToCleanAsync(): Promise<LanguageModels.LanguageModel[]> {
+        const languages = (await this.client.listLanguages().toAllPromise()).data.items;
+        const languagePatterns = (this.config.filter?.languages ?? []).map(m => getWildcardRegex(m));
+
+        if (!languagePatterns.length) {
+            return languages;
+        }
+
+        return languages.filter(m => languagePatterns.some(p => p.test(m.codename)));
+    }
+
+    private shouldClean(type: ItemType): boolean {
+        const filter = this.config.filter;
+
+        if (filter?.itemTypes) {
+            return filter.itemTypes.includes(type);
+        }
+
+        // filtering by content types or languages limits clean to content
+        if (filter?.contentTypes?.length || filter?.languages?.length) {
+            return this.contentItemTypes.includes(type);
+        }
+
+        return true;
+    }
+
+    /**
+     * Language variants are deleted instead of whole content items when languages are given or when
+     * only language variants are cleaned
+     */
+    private isLanguageVariantsClean(): boolean {
+        if (!this.shouldClean('languageVariant')) {
+            return false;
+        }
+
+        return !!this.config.filter?.languages?.length || !this.shouldClean('contentItem');
+    }
+
+    /**
+     * Deletes object unless dry run is enabled. Deleted object (or object that would be deleted) is added to result.
+     */
+    private async deleteObjectAsync(item: ICleanItem, data: any, deleteAsync: () => Promise<any>): Promise<void> {
+        if (this.config.dryRun) {
+            this.items.push(item);
+            return;
+        }
+
+        await deleteAsync()
+            .then(response => {
+                this.items.push(item);
+                this.processItem(item.title, item.type, data);
+            })
+            .catch(error => this.handleCleanError(error, item));
+    }
+
+    /**
+     * Reports error of given object. Remaining objects are deleted unless error policy says otherwise.
+     */
+    private handleCleanError(error: any, object: Pick<IProcessingError, 'type' | 'key' | 'title'>): void {
+        const processingError = processingErrorHelper.getProcessingError(error, object, 'delete');
+
+        this.errors.push(processingError);
+        processingErrorHelper.logProcessingError(processingError);
+
+        if (this.config.onError) {
+            this.config.onError(processingError);
+        }
+
+        processingErrorHelper.checkErrorPolicy(
+            error,
+            this.config.errorPolicy ?? 'continue',
+            this.errors.length,
+            this.config.maxErrors
+        );
     }
 
     private processItem(title: string, type: ItemType, data: any): void {
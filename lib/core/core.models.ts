@@ -15,6 +15,10 @@ import {
     ContentItemContracts,
     AssetFolderModels,
     AssetFolderContracts,
+    WebhookContracts,
+    WebhookModels,
+    CollectionContracts,
+    CollectionModels
 } from '@kentico/kontent-management';
 
 export interface ICliFileConfig {
@@ -27,9 +31,132 @@ export interface ICliFileConfig {
     force: boolean;
     baseUrl?: string;
     exportFilter?: ItemType[]
+    incrementalFrom?: string[];
+    incrementalZipFilenames?: string[];
+    importMode?: ImportMode;
+    dryRun?: boolean;
+    resume?: boolean;
+    maxConcurrentAssetDownloads?: number;
+    skipFailedAssetDownloads?: boolean;
+    encryptionPassphrase?: string;
+    encryptionKeyFile?: string;
+    compareWith?: string;
+    selectItems?: string[];
+    selectContentTypes?: string[];
+    errorPolicy?: ErrorPolicy;
+    maxErrors?: number;
+    cleanFilter?: ItemType[];
+    cleanContentTypes?: string[];
+    cleanLanguages?: string[];
+    confirm?: string;
+    forceClean?: boolean;
+    skipSafetyBackup?: boolean;
+    includeWebhookSecrets?: boolean;
+    enableWebhooks?: boolean;
+    exportCollections?: string[];
+    selectCollections?: string[];
+    storage?: ICliStorageConfig;
+    retention?: IRetentionPolicy;
+    schedule?: ICliScheduleConfig;
+    packageLayout?: PackageLayout;
+    deterministic?: boolean;
 }
 
-export type CliAction = 'backup' | 'restore' | 'clean';
+/**
+ * Backups run by 'schedule' action. Each backup uses options of config file overridden by options of the backup.
+ */
+export interface ICliScheduleConfig {
+    /**
+     * Maximum number of backups running at the same time. Backups run one after another by default.
+     */
+    maxConcurrentBackups?: number;
+    backups: ICliScheduledBackup[];
+}
+
+export interface ICliScheduledBackup extends Partial<ICliFileConfig> {
+    /**
+     * Unique name of backup used in log messages. Defaults to project id.
+     */
+    name?: string;
+    /**
+     * Cron expression with 5 fields (minute, hour, day of month, month & day of week) evaluated in local time
+     */
+    cron: string;
+}
+
+export type StorageType = 'local' | 's3';
+
+/**
+ * Storage of zip files & reports. Files are stored in current folder when storage is not set.
+ */
+export interface ICliStorageConfig {
+    type: StorageType;
+    /**
+     * Directory of 'local' storage
+     */
+    directory?: string;
+    bucket?: string;
+    region?: string;
+    /**
+     * Endpoint of S3 compatible service (e.g. MinIO)
+     */
+    endpoint?: string;
+    prefix?: string;
+    forcePathStyle?: boolean;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    sessionToken?: string;
+}
+
+/**
+ * Rules of backups kept in storage once backup is created. Backup is kept when it matches any of the rules,
+ * other backups of the same project are deleted. Backups are ordered by timestamp stored in their metadata.
+ */
+export interface IRetentionPolicy {
+    /**
+     * Number of the most recent backups to keep
+     */
+    keepLast?: number;
+    /**
+     * Number of days for which the most recent backup of the day is kept
+     */
+    keepDaily?: number;
+    /**
+     * Number of weeks (ISO weeks starting on Monday) for which the most recent backup of the week is kept
+     */
+    keepWeekly?: number;
+    /**
+     * Number of months for which the most recent backup of the month is kept
+     */
+    keepMonthly?: number;
+}
+
+/**
+ * Backup considered by retention policy
+ */
+export interface IRetentionPackage {
+    filename: string;
+    timestamp: Date;
+    /**
+     * Set for incremental packages which cannot be restored without their parent package
+     */
+    parent?: IParentPackageMetadata;
+}
+
+export interface IRetentionResult {
+    keep: IRetentionPackage[];
+    delete: IRetentionPackage[];
+}
+
+/**
+ * 'flat' package contains single json file per object type. 'directory' package contains pretty-printed json file
+ * per content type, snippet, taxonomy, content item & language variant so that changes can be tracked in version
+ * control.
+ */
+export type PackageLayout = 'flat' | 'directory';
+
+export type CliAction = 'backup' | 'restore' | 'clean' | 'verify' | 'diff' | 'drift' | 'schedule';
+export type ImportMode = 'create' | 'merge';
 export type ItemType =
     | 'taxonomy'
     | 'contentType'
@@ -40,9 +167,29 @@ export type ItemType =
     | 'asset'
     | 'assetFolder'
     | 'workflowStep'
+    | 'webhook'
+    | 'collection'
     | 'binaryFile';
 
-export type ActionType = ItemType | 'publish' | 'changeWorkflowStep';
+export type ActionType = ItemType | 'publish' | 'unpublish' | 'changeWorkflowStep';
+
+export type ImportItemState = 'created' | 'updated' | 'unchanged';
+
+/**
+ * 'failFast' stops at the first error, 'continue' skips objects that failed & processes remaining objects
+ */
+export type ErrorPolicy = 'failFast' | 'continue';
+
+export type ProcessingOperation =
+    | 'create'
+    | 'update'
+    | 'view'
+    | 'delete'
+    | 'upload'
+    | 'publish'
+    | 'unpublish'
+    | 'createNewVersion'
+    | 'changeWorkflowStep';
 
 export type ValidImportModel =
     | ContentTypeModels.ContentType
@@ -52,7 +199,9 @@ export type ValidImportModel =
     | ContentItemModels.ContentItem
     | LanguageModels.LanguageModel
     | AssetModels.Asset
-    | AssetFolderModels.AssetFolder;
+    | AssetFolderModels.AssetFolder
+    | WebhookModels.Webhook
+    | CollectionModels.Collection;
 
 export type ValidImportContract =
     | ContentTypeContracts.IContentTypeContract
@@ -63,32 +212,175 @@ export type ValidImportContract =
     | AssetContracts.IAssetModelContract
     | LanguageVariantContracts.ILanguageVariantModelContract
     | LanguageContracts.ILanguageModelContract
-    | AssetFolderContracts.IAssetFolderContract;
+    | AssetFolderContracts.IAssetFolderContract
+    | WebhookContracts.IWebhookContract
+    | CollectionContracts.ICollectionContract;
 
 export interface IProcessedItem {
     title: string;
     type: ActionType;
     data: any;
+    state?: ImportItemState;
 }
 
-export interface IImportItemResult<TRaw, TModel> {
-    original: TRaw;
-    imported: TModel;
+export interface IProcessingError {
+    type: ActionType;
+    /**
+     * Codename of object. Assets & asset folders are identified by id and language variants by
+     * codenames of content item & language separated by ':'.
+     */
+    key: string;
+    title: string;
+    operation: ProcessingOperation;
+    message: string;
+    /**
+     * Set only for errors returned by Management API
+     */
+    errorCode?: number;
+    requestId?: string;
+    validationErrors: string[];
+}
+
+export interface IErrorReport {
+    metadata: {
+        timestamp: Date;
+        projectId: string;
+        action: CliAction;
+    };
+    errors: IProcessingError[];
+}
+
+export interface IScheduledBackupReport {
+    metadata: {
+        timestamp: Date;
+        projectId: string;
+        name: string;
+    };
+    status: 'completed' | 'failed' | 'aborted';
+    zipFilename: string;
+    /**
+     * Set for aborted backups. Package is kept when it was fully written before the backup was aborted.
+     */
+    isPackageKept?: boolean;
+    startedAt: Date;
+    finishedAt: Date;
+    error?: string;
+}
 
+export interface IImportIdMapping {
     originalId?: string;
     importId?: string;
 }
 
+export interface IImportItemResult<TRaw, TModel> extends IImportIdMapping {
+    original: TRaw;
+    imported: TModel;
+
+    state?: ImportItemState;
+}
+
 export interface IIdCodenameTranslationResult {
     [key: string]: string;
 }
 
 export interface IPackageMetadata {
     version: string;
+    /**
+     * Version of package layout. Set when package is written. Packages created before format version was
+     * introduced do not have it and are treated as format version 1.
+     */
+    formatVersion?: number;
+    /**
+     * Layout of package files. Packages without layout have 'flat' layout.
+     */
+    layout?: PackageLayout;
     projectId: string;
+    /**
+     * Deterministic packages do not store timestamp as it is part of volatile metadata. It is set only when
+     * volatile metadata are provided together with the package.
+     */
     timestamp: Date;
     isInconsistentExport: boolean;
     dataOverview: IPackageDataOverview;
+    /**
+     * Set only for incremental packages. Incremental package contains only content items, language variants
+     * & assets changed since its parent package was created.
+     */
+    incremental?: IIncrementalPackageMetadata;
+    /**
+     * Assets whose binary files could not be downloaded during export & are not included in package
+     */
+    failedAssetDownloads?: IFailedAssetDownload[];
+}
+
+/**
+ * Metadata which differ between packages created from the same project content. Deterministic packages do not
+ * contain them, so they are stored separately from package.
+ */
+export interface IPackageVolatileMetadata {
+    timestamp: Date;
+}
+
+export interface IFailedAssetDownload {
+    assetId: string;
+    filename: string;
+    url: string;
+    error: string;
+}
+
+export interface IIncrementalPackageMetadata {
+    parent: IParentPackageMetadata;
+    deleted: IPackageTombstones;
+}
+
+export interface IParentPackageMetadata {
+    projectId: string;
+    timestamp: Date;
+    filename?: string;
+}
+
+export interface IPackageTombstones {
+    contentItemIds: string[];
+    languageVariants: ILanguageVariantReference[];
+    assetIds: string[];
+}
+
+export interface ILanguageVariantReference {
+    itemId: string;
+    languageId: string;
+}
+
+export type LanguageVariantState = 'draft' | 'published' | 'scheduledPublish' | 'scheduledUnpublish' | 'archived';
+
+/**
+ * Lifecycle state of language variant captured during export so that it can be reproduced by import
+ */
+export interface ILanguageVariantLifecycle {
+    state: LanguageVariantState;
+    /**
+     * ISO-8601 date language variant is scheduled to be published at
+     */
+    publishTime?: string;
+    /**
+     * ISO-8601 date language variant is scheduled to be unpublished at
+     */
+    unpublishTime?: string;
+}
+
+/**
+ * Schedule of language variant returned by Management API (not included in contracts of Management SDK)
+ */
+export interface ILanguageVariantScheduleContract {
+    publish_time?: string | null;
+    unpublish_time?: string | null;
+}
+
+export interface ILanguageVariantWithLifecycleContract extends LanguageVariantContracts.ILanguageVariantModelContract {
+    schedule?: ILanguageVariantScheduleContract;
+    /**
+     * Set by export. Language variants exported by older versions do not have lifecycle.
+     */
+    lifecycle?: ILanguageVariantLifecycle;
 }
 
 export interface IPackageDataOverview {
@@ -101,5 +393,96 @@ export interface IPackageDataOverview {
     assetsCount:  number;
     assetFoldersCount:  number;
     workflowStepsCount:  number;
+    webhooksCount:  number;
+    collectionsCount:  number;
 }
 
+
+export interface IEncryptionConfig {
+    /**
+     * Encryption key is derived from passphrase
+     */
+    passphrase?: string;
+    /**
+     * 256-bit key used directly (e.g. read from key file). Used when passphrase is not set.
+     */
+    key?: Uint8Array;
+}
+
+export type EncryptionAlgorithm = 'aes-256-gcm';
+
+export type KeyDerivation = IPbkdf2KeyDerivation | INoKeyDerivation;
+
+export interface IPbkdf2KeyDerivation {
+    name: 'pbkdf2';
+    hash: 'sha-256';
+    iterations: number;
+    /**
+     * Hex encoded salt
+     */
+    salt: string;
+}
+
+export interface INoKeyDerivation {
+    name: 'none';
+}
+
+/**
+ * Header stored at the beginning of encrypted file. Describes how the file was encrypted so that files encrypted
+ * by older versions can be decrypted even when defaults change.
+ */
+export interface IEncryptionHeader {
+    version: number;
+    algorithm: EncryptionAlgorithm;
+    kdf: KeyDerivation;
+    /**
+     * Hex encoded initialization vector
+     */
+    iv: string;
+}
+
+/**
+ * Cryptographic functions used to hash & encrypt packages. Implemented using Web Crypto API by default.
+ */
+export interface ICryptoProvider {
+    getRandomBytes(length: number): Uint8Array;
+    getSha256Async(data: Uint8Array): Promise<Uint8Array>;
+    /**
+     * Derives key from passphrase using PBKDF2 with SHA-256
+     */
+    deriveKeyAsync(passphrase: string, salt: Uint8Array, iterations: number, keyLength: number): Promise<Uint8Array>;
+    /**
+     * Encrypts data using AES-256-GCM. Encrypted data end with 16 Bytes long authentication tag.
+     */
+    encryptAsync(data: Uint8Array, key: Uint8Array, iv: Uint8Array, additionalData: Uint8Array): Promise<Uint8Array>;
+    /**
+     * Decrypts data encrypted using AES-256-GCM. Fails when authentication tag does not match.
+     */
+    decryptAsync(data: Uint8Array, key: Uint8Array, iv: Uint8Array, additionalData: Uint8Array): Promise<Uint8Array>;
+}
+
+export interface IEncryptionContext {
+    header: IEncryptionHeader;
+    /**
+     * Header as stored in file. Used as additional authenticated data so that header cannot be modified.
+     */
+    headerBytes: Uint8Array;
+    key: Uint8Array;
+}
+
+/**
+ * Parsed json files of package indexed by filename
+ */
+export interface IPackageJsonFiles {
+    [filename: string]: any;
+}
+
+/**
+ * Upgrades json files of package from one format version to the next one
+ */
+export interface IPackageMigration {
+    fromFormatVersion: number;
+    toFormatVersion: number;
+    description: string;
+    migrate(jsonFiles: IPackageJsonFiles): IPackageJsonFiles;
+}
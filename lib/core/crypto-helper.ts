@@ -0,0 +1,20 @@
+import { ICryptoProvider } from './core.models';
+import { WebCryptoProvider } from './web-crypto-provider';
+
+/**
+ * Holds crypto provider used by hash & encryption helpers. Web Crypto API is used unless other provider is set,
+ * node.js code sets provider based on 'crypto' module as Web Crypto API is not global in older versions of node.js.
+ */
+export class CryptoHelper {
+    private provider: ICryptoProvider = new WebCryptoProvider();
+
+    getProvider(): ICryptoProvider {
+        return this.provider;
+    }
+
+    setProvider(provider: ICryptoProvider): void {
+        this.provider = provider;
+    }
+}
+
+export const cryptoHelper = new CryptoHelper();
@@ -0,0 +1,187 @@
+import { IEncryptionConfig, IEncryptionContext, IEncryptionHeader, KeyDerivation } from './core.models';
+import { cryptoHelper } from './crypto-helper';
+import { hashHelper } from './hash-helper';
+
+/**
+ * Encrypts files using AES-256-GCM. Encrypted file has following layout:
+ * magic bytes | header length (uint32, big endian) | header (json) | encrypted data | authentication tag
+ */
+export class EncryptionHelper {
+    public readonly authTagLength: number = 16;
+    /**
+     * Number of bytes needed to determine whether file is encrypted & how long its header is
+     */
+    public readonly headerPrefixLength: number;
+
+    private readonly magicBytes: Uint8Array = new TextEncoder().encode('KBMENC');
+    private readonly version: number = 1;
+    private readonly keyLength: number = 32;
+    private readonly ivLength: number = 12;
+    private readonly saltLength: number = 16;
+    private readonly pbkdf2Iterations: number = 600000;
+
+    constructor() {
+        this.headerPrefixLength = this.magicBytes.length + 4;
+    }
+
+    isEncrypted(data: Uint8Array): boolean {
+        if (data.length < this.magicBytes.length) {
+            return false;
+        }
+
+        return this.magicBytes.every((m, index) => data[index] === m);
+    }
+
+    /**
+     * Gets length of header including magic bytes & header length
+     */
+    getHeaderLength(headerPrefix: Uint8Array): number {
+        if (!this.isEncrypted(headerPrefix) || headerPrefix.length < this.headerPrefixLength) {
+            throw Error(`File is not encrypted`);
+        }
+
+        const view = new DataView(headerPrefix.buffer, headerPrefix.byteOffset, headerPrefix.byteLength);
+
+        return this.headerPrefixLength + view.getUint32(this.magicBytes.length);
+    }
+
+    /**
+     * Creates header with new random salt & initialization vector and derives encryption key
+     */
+    async createEncryptionContextAsync(config: IEncryptionConfig): Promise<IEncryptionContext> {
+        const kdf: KeyDerivation = config.passphrase
+            ? {
+                  name: 'pbkdf2',
+                  hash: 'sha-256',
+                  iterations: this.pbkdf2Iterations,
+                  salt: hashHelper.toHex(this.getRandomBytes(this.saltLength))
+              }
+            : { name: 'none' };
+
+        const header: IEncryptionHeader = {
+            version: this.version,
+            algorithm: 'aes-256-gcm',
+            kdf,
+            iv: hashHelper.toHex(this.getRandomBytes(this.ivLength))
+        };
+
+        const headerJson = new TextEncoder().encode(JSON.stringify(header));
+        const headerBytes = new Uint8Array(this.headerPrefixLength + headerJson.length);
+
+        headerBytes.set(this.magicBytes);
+        new DataView(headerBytes.buffer).setUint32(this.magicBytes.length, headerJson.length);
+        headerBytes.set(headerJson, this.headerPrefixLength);
+
+        return {
+            header,
+            headerBytes,
+            key: await this.getKeyAsync(header, config)
+        };
+    }
+
+    /**
+     * Reads header of encrypted file and derives decryption key
+     */
+    async getEncryptionContextAsync(headerBytes: Uint8Array, config: IEncryptionConfig): Promise<IEncryptionContext> {
+        const headerLength = this.getHeaderLength(headerBytes);
+        const header: IEncryptionHeader = JSON.parse(
+            new TextDecoder().decode(headerBytes.subarray(this.headerPrefixLength, headerLength))
+        );
+
+        if (header.version > this.version) {
+            throw Error(
+                `File was encrypted with newer version '${header.version}' of encryption format. Please use newer version of this library.`
+            );
+        }
+
+        if (header.algorithm !== 'aes-256-gcm') {
+            throw Error(`Unsupported encryption algorithm '${header.algorithm}'`);
+        }
+
+        // header is read from file so it may contain key derivation function unknown to this version
+        const kdfName: string = header.kdf.name;
+
+        if (kdfName !== 'pbkdf2' && kdfName !== 'none') {
+            throw Error(`Unsupported key derivation function '${kdfName}'`);
+        }
+
+        return {
+            header,
+            headerBytes: headerBytes.subarray(0, headerLength),
+            key: await this.getKeyAsync(header, config)
+        };
+    }
+
+    async encryptAsync(data: Uint8Array, config: IEncryptionConfig): Promise<Uint8Array> {
+        const context = await this.createEncryptionContextAsync(config);
+        // encrypted data already end with authentication tag
+        const encryptedData = await cryptoHelper
+            .getProvider()
+            .encryptAsync(data, context.key, this.fromHex(context.header.iv), context.headerBytes);
+        const result = new Uint8Array(context.headerBytes.length + encryptedData.length);
+
+        result.set(context.headerBytes);
+        result.set(encryptedData, context.headerBytes.length);
+
+        return result;
+    }
+
+    async decryptAsync(data: Uint8Array, config: IEncryptionConfig): Promise<Uint8Array> {
+        const context = await this.getEncryptionContextAsync(data, config);
+
+        try {
+            return await cryptoHelper
+                .getProvider()
+                .decryptAsync(
+                    data.subarray(context.headerBytes.length),
+                    context.key,
+                    this.fromHex(context.header.iv),
+                    context.headerBytes
+                );
+        } catch (error) {
+            throw Error(this.getDecryptionErrorMessage());
+        }
+    }
+
+    getDecryptionErrorMessage(): string {
+        return `File could not be decrypted. Passphrase or key is not valid or the file is corrupted.`;
+    }
+
+    fromHex(hex: string): Uint8Array {
+        const bytes = new Uint8Array(hex.length / 2);
+
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+        }
+
+        return bytes;
+    }
+
+    private async getKeyAsync(header: IEncryptionHeader, config: IEncryptionConfig): Promise<Uint8Array> {
+        if (header.kdf.name === 'none') {
+            if (!config.key) {
+                throw Error(`File is encrypted with a key. Please provide encryption key.`);
+            }
+
+            if (config.key.length !== this.keyLength) {
+                throw Error(`Invalid encryption key. Key must have '${this.keyLength}' Bytes.`);
+            }
+
+            return config.key;
+        }
+
+        if (!config.passphrase) {
+            throw Error(`File is encrypted with a passphrase. Please provide passphrase.`);
+        }
+
+        return await cryptoHelper
+            .getProvider()
+            .deriveKeyAsync(config.passphrase, this.fromHex(header.kdf.salt), header.kdf.iterations, this.keyLength);
+    }
+
+    private getRandomBytes(length: number): Uint8Array {
+        return cryptoHelper.getProvider().getRandomBytes(length);
+    }
+}
+
+export const encryptionHelper = new EncryptionHelper();
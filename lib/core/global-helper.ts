@@ -12,3 +12,57 @@ export function getFilenameWithoutExtension(filename: string): string {
         .slice(0, -1)
         .join('.');
 }
+
+/**
+ * Gets regex matching whole value where '*' in pattern matches any number of characters
+ */
+export function getWildcardRegex(pattern: string): RegExp {
+    const escapedParts = pattern.split('*').map((m) => m.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+
+    return new RegExp(`^${escapedParts.join('.*')}$`);
+}
+
+/**
+ * Gets json with sorted object properties so that objects are equal regardless of order of their properties
+ */
+export function getComparableJson(value: any): string {
+    return JSON.stringify(value, (key, propertyValue) => {
+        if (propertyValue && typeof propertyValue === 'object' && !Array.isArray(propertyValue)) {
+            return Object.keys(propertyValue)
+                .sort()
+                .reduce((sortedValue: any, propertyKey) => {
+                    sortedValue[propertyKey] = propertyValue[propertyKey];
+                    return sortedValue;
+                }, {});
+        }
+
+        return propertyValue;
+    });
+}
+
+/**
+ * Processes items using at most 'maxConcurrency' concurrently running promises
+ */
+export async function processInParallelAsync<TItem>(
+    items: TItem[],
+    maxConcurrency: number,
+    processAsync: (item: TItem) => Promise<void>
+): Promise<void> {
+    let nextItemIndex = 0;
+    const workers: Promise<void>[] = [];
+
+    const processNextItemsAsync = async () => {
+        while (nextItemIndex < items.length) {
+            const item = items[nextItemIndex];
+            nextItemIndex++;
+
+            await processAsync(item);
+        }
+    };
+
+    for (let i = 0; i < Math.min(Math.max(maxConcurrency, 1), items.length); i++) {
+        workers.push(processNextItemsAsync());
+    }
+
+    await Promise.all(workers);
+}
@@ -0,0 +1,36 @@
+import { cryptoHelper } from './crypto-helper';
+
+export class HashHelper {
+    /**
+     * Gets hex encoded SHA-256 hash of given data using configured crypto provider
+     */
+    async getSha256Async(data: string | ArrayBuffer | Uint8Array | Blob): Promise<string> {
+        const bytes = await this.getBytesAsync(data);
+
+        return this.toHex(await cryptoHelper.getProvider().getSha256Async(bytes));
+    }
+
+    async getBytesAsync(data: string | ArrayBuffer | Uint8Array | Blob): Promise<Uint8Array> {
+        if (typeof data === 'string') {
+            return new TextEncoder().encode(data);
+        }
+
+        if (data instanceof Uint8Array) {
+            return data;
+        }
+
+        if (data instanceof ArrayBuffer) {
+            return new Uint8Array(data);
+        }
+
+        return new Uint8Array(await data.arrayBuffer());
+    }
+
+    toHex(bytes: Uint8Array): string {
+        return Array.from(bytes)
+            .map((m) => m.toString(16).padStart(2, '0'))
+            .join('');
+    }
+}
+
+export const hashHelper = new HashHelper();
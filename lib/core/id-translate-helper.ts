@@ -1,9 +1,9 @@
-import { IImportItemResult, ValidImportContract, ValidImportModel } from './core.models';
+import { IImportIdMapping } from './core.models';
 
 export class IdTranslateHelper {
     public replaceIdReferencesWithNewId(
         data: any,
-        items: IImportItemResult<ValidImportContract, ValidImportModel>[],
+        items: IImportIdMapping[],
     ): void {
         if (data) {
             if (Array.isArray(data)) {
@@ -35,9 +35,35 @@ export class IdTranslateHelper {
         }
     }
 
+    /**
+     * Replaces references such as '{ external_id: "x" }' with '{ id: "y" }' where 'y' is id of matched object.
+     * Used when objects already existing in target project have different external ids than source objects.
+     */
+    public replaceExternalIdReferencesWithNewId(
+        data: any,
+        items: IImportIdMapping[]
+    ): void {
+        if (data) {
+            // arrays are handled the same way as objects so that references stored directly in arrays are replaced too
+            for (const key of Object.keys(data)) {
+                const val = (data as any)[key];
+
+                if (typeof val === 'object' && val !== null) {
+                    const newReference = this.tryGetNewIdReference(val, items);
+
+                    if (newReference) {
+                        data[key] = newReference;
+                    } else {
+                        this.replaceExternalIdReferencesWithNewId(val, items);
+                    }
+                }
+            }
+        }
+    }
+
     private replaceIdsInRichText(
         text: string,
-        items: IImportItemResult<ValidImportContract, ValidImportModel>[]
+        items: IImportIdMapping[]
     ): string {
         const itemId = { regex: /data-item-id=\"(.*?)\"/g, attr: 'data-item-id' };
         const assetId = { regex: /data-asset-id=\"(.*?)\"/g, attr: 'data-asset-id' };
@@ -56,7 +82,7 @@ export class IdTranslateHelper {
         regex: RegExp,
         text: string,
         replaceAttr: string,
-        items: IImportItemResult<ValidImportContract, ValidImportModel>[]
+        items: IImportIdMapping[]
     ): string {
         return text.replace(regex, (a, b) => {
             if (b) {
@@ -71,9 +97,24 @@ export class IdTranslateHelper {
         });
     }
 
+    private tryGetNewIdReference(
+        data: any,
+        items: IImportIdMapping[]
+    ): { id: string } | undefined {
+        const keys = Object.keys(data);
+
+        if (Array.isArray(data) || keys.length !== 1 || keys[0] !== 'external_id') {
+            return undefined;
+        }
+
+        const newId = this.tryFindNewId(data.external_id, items);
+
+        return newId ? { id: newId } : undefined;
+    }
+
     private tryFindNewId(
         id: string,
-        items: IImportItemResult<ValidImportContract, ValidImportModel>[]
+        items: IImportIdMapping[]
     ): string | undefined {
         const item = items.find(m => m.originalId === id);
         return item?.importId;
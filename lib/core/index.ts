@@ -1,4 +1,12 @@
 export * from './core.models';
 export * from './translation-helper';
 export * from './id-translate-helper';
-export * from './global-helper';
\ No newline at end of file
+export * from './global-helper';
+export * from './crypto-helper';
+export * from './web-crypto-provider';
+export * from './hash-helper';
+export * from './encryption-helper';
+export * from './package-migration-helper';
+export * from './processing-error-helper';
+export * from './workflow-step-helper';
+export * from './retention-helper';
\ No newline at end of file
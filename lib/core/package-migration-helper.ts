@@ -0,0 +1,144 @@
+import { IPackageJsonFiles, IPackageMetadata, IPackageMigration } from './core.models';
+
+/**
+ * Migrations are applied in order, each of them upgrades package by one format version.
+ * Filenames used in migrations are the names used by the format version being migrated and must not change.
+ */
+const packageMigrations: IPackageMigration[] = [
+    {
+        fromFormatVersion: 1,
+        toFormatVersion: 2,
+        description: `Renames 'contentTypesSnippets.json' to 'contentTypeSnippets.json' and adds files missing in older packages`,
+        migrate: (jsonFiles) => {
+            const { ['contentTypesSnippets.json']: contentTypeSnippets, ...migratedFiles } = jsonFiles;
+            const metadata: IPackageMetadata = migratedFiles['metadata.json'];
+
+            migratedFiles['contentTypeSnippets.json'] = contentTypeSnippets ?? [];
+
+            // languages, asset folders & workflow steps were not exported by older versions
+            for (const filename of ['languages.json', 'assetFolders.json', 'workflowSteps.json']) {
+                migratedFiles[filename] = migratedFiles[filename] ?? [];
+            }
+
+            migratedFiles['metadata.json'] = {
+                ...metadata,
+                isInconsistentExport: metadata.isInconsistentExport ?? false,
+                dataOverview: metadata.dataOverview ?? {
+                    taxonomiesCount: migratedFiles['taxonomies.json']?.length ?? 0,
+                    contentTypeSnippetsCount: migratedFiles['contentTypeSnippets.json'].length,
+                    contentTypesCount: migratedFiles['contentTypes.json']?.length ?? 0,
+                    contentItemsCount: migratedFiles['contentItems.json']?.length ?? 0,
+                    languageVariantsCount: migratedFiles['languageVariants.json']?.length ?? 0,
+                    languagesCount: migratedFiles['languages.json'].length,
+                    assetsCount: migratedFiles['assets.json']?.length ?? 0,
+                    assetFoldersCount: migratedFiles['assetFolders.json'].length,
+                    workflowStepsCount: migratedFiles['workflowSteps.json'].length
+                }
+            };
+
+            return migratedFiles;
+        }
+    },
+    {
+        fromFormatVersion: 2,
+        toFormatVersion: 3,
+        description: `Adds 'webhooks.json' file`,
+        migrate: (jsonFiles) => {
+            const metadata: IPackageMetadata = jsonFiles['metadata.json'];
+
+            return {
+                ...jsonFiles,
+                ['webhooks.json']: jsonFiles['webhooks.json'] ?? [],
+                ['metadata.json']: {
+                    ...metadata,
+                    dataOverview: {
+                        ...metadata.dataOverview,
+                        webhooksCount: 0
+                    }
+                }
+            };
+        }
+    },
+    {
+        fromFormatVersion: 3,
+        toFormatVersion: 4,
+        description: `Adds 'collections.json' file`,
+        migrate: (jsonFiles) => {
+            const metadata: IPackageMetadata = jsonFiles['metadata.json'];
+
+            return {
+                ...jsonFiles,
+                ['collections.json']: jsonFiles['collections.json'] ?? [],
+                ['metadata.json']: {
+                    ...metadata,
+                    dataOverview: {
+                        ...metadata.dataOverview,
+                        collectionsCount: 0
+                    }
+                }
+            };
+        }
+    }
+];
+
+export class PackageMigrationHelper {
+    /**
+     * Format version of packages created by this version of library
+     */
+    public readonly currentFormatVersion: number = 4;
+
+    private readonly metadataName: string = 'metadata.json';
+
+    getFormatVersion(metadata: IPackageMetadata): number {
+        return metadata.formatVersion ?? 1;
+    }
+
+    /**
+     * Upgrades json files of package to current format version. Fails when package was created by newer version
+     * of library or when there is no migration from its format version.
+     */
+    migrate(jsonFiles: IPackageJsonFiles, enableLog: boolean): IPackageJsonFiles {
+        const metadata: IPackageMetadata | undefined = jsonFiles[this.metadataName];
+
+        if (!metadata) {
+            throw Error(`Invalid file '${this.metadataName}'`);
+        }
+
+        let formatVersion = this.getFormatVersion(metadata);
+
+        if (formatVersion > this.currentFormatVersion) {
+            throw Error(
+                `Package format version '${formatVersion}' is newer than format version '${this.currentFormatVersion}' supported by this version of library. Please use newer version of this library.`
+            );
+        }
+
+        let migratedFiles = jsonFiles;
+
+        while (formatVersion < this.currentFormatVersion) {
+            const migration = packageMigrations.find((m) => m.fromFormatVersion === formatVersion);
+
+            if (!migration || migration.toFormatVersion <= formatVersion) {
+                throw Error(
+                    `Package format version '${formatVersion}' cannot be migrated to format version '${this.currentFormatVersion}'. No migration path exists.`
+                );
+            }
+
+            if (enableLog) {
+                console.log(
+                    `Migrating package from format version '${migration.fromFormatVersion}' to '${migration.toFormatVersion}': ${migration.description}`
+                );
+            }
+
+            migratedFiles = migration.migrate(migratedFiles);
+            formatVersion = migration.toFormatVersion;
+            migratedFiles[this.metadataName] = {
+                ...migratedFiles[this.metadataName],
+                formatVersion
+            };
+        }
+
+        return migratedFiles;
+    }
+}
+
+export const packageMigrationHelper = new PackageMigrationHelper();
@@ -0,0 +1,55 @@
+import { SharedModels } from '@kentico/kontent-management';
+
+import { ErrorPolicy, IProcessingError, ProcessingOperation } from './core.models';
+
+export class ProcessingErrorHelper {
+    getProcessingError(
+        error: any | SharedModels.ContentManagementBaseKontentError,
+        object: Pick<IProcessingError, 'type' | 'key' | 'title'>,
+        operation: ProcessingOperation
+    ): IProcessingError {
+        if (error instanceof SharedModels.ContentManagementBaseKontentError) {
+            return {
+                ...object,
+                operation,
+                message: error.message,
+                errorCode: error.errorCode,
+                requestId: error.requestId,
+                validationErrors: (error.validationErrors ?? []).map((m) => m.message)
+            };
+        }
+
+        return {
+            ...object,
+            operation,
+            message: error instanceof Error ? error.message : `${error}`,
+            validationErrors: []
+        };
+    }
+
+    logProcessingError(processingError: IProcessingError): void {
+        console.log(
+            `Failed to ${processingError.operation} ${processingError.type} '${processingError.title}': ${processingError.message}`
+        );
+
+        for (const validationError of processingError.validationErrors) {
+            console.log(validationError);
+        }
+    }
+
+    /**
+     * Fails when processing should not continue after given number of errors. With 'failFast' policy
+     * the original error is thrown.
+     */
+    checkErrorPolicy(error: any, errorPolicy: ErrorPolicy, errorsCount: number, maxErrors?: number): void {
+        if (errorPolicy === 'failFast') {
+            throw error;
+        }
+
+        if (maxErrors !== undefined && errorsCount >= maxErrors) {
+            throw Error(`Processing was stopped because number of errors reached maximum of '${maxErrors}'`);
+        }
+    }
+}
+
+export const processingErrorHelper = new ProcessingErrorHelper();
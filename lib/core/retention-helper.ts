@@ -0,0 +1,109 @@
+import { IParentPackageMetadata, IRetentionPackage, IRetentionPolicy, IRetentionResult } from './core.models';
+
+export class RetentionHelper {
+    hasRules(policy: IRetentionPolicy): boolean {
+        return !!(policy.keepLast || policy.keepDaily || policy.keepWeekly || policy.keepMonthly);
+    }
+
+    /**
+     * Splits packages into packages kept & deleted by retention policy. Periods are counted only when they contain
+     * a package (e.g. 'keepDaily: 7' keeps the latest package of each of the last 7 days in which package was created)
+     * so that old packages are not removed when backups stop being created. Packages with given filenames are always
+     * kept. Parent packages of kept incremental packages are kept as well so that kept packages can be restored.
+     */
+    apply(packages: IRetentionPackage[], policy: IRetentionPolicy, keepFilenames: string[] = []): IRetentionResult {
+        const sortedPackages = [...packages].sort((a, b) => this.getTime(b) - this.getTime(a));
+        const keptFilenames = new Set<string>(keepFilenames);
+
+        sortedPackages.slice(0, policy.keepLast ?? 0).forEach((m) => keptFilenames.add(m.filename));
+
+        this.keepLatestOfPeriods(sortedPackages, policy.keepDaily, keptFilenames, (date) =>
+            [date.getFullYear(), date.getMonth(), date.getDate()].join('-')
+        );
+        this.keepLatestOfPeriods(sortedPackages, policy.keepWeekly, keptFilenames, (date) => this.getIsoWeek(date));
+        this.keepLatestOfPeriods(sortedPackages, policy.keepMonthly, keptFilenames, (date) =>
+            [date.getFullYear(), date.getMonth()].join('-')
+        );
+
+        for (const filename of [...keptFilenames]) {
+            this.keepParentPackages(sortedPackages, filename, keptFilenames);
+        }
+
+        return {
+            keep: sortedPackages.filter((m) => keptFilenames.has(m.filename)),
+            delete: sortedPackages.filter((m) => !keptFilenames.has(m.filename))
+        };
+    }
+
+    private keepLatestOfPeriods(
+        sortedPackages: IRetentionPackage[],
+        count: number | undefined,
+        keptFilenames: Set<string>,
+        getPeriod: (date: Date) => string
+    ): void {
+        const periods = new Set<string>();
+
+        for (const retentionPackage of sortedPackages) {
+            const period = getPeriod(new Date(retentionPackage.timestamp));
+
+            if (periods.has(period)) {
+                continue;
+            }
+
+            if (periods.size >= (count ?? 0)) {
+                break;
+            }
+
+            periods.add(period);
+            keptFilenames.add(retentionPackage.filename);
+        }
+    }
+
+    /**
+     * Parent package is matched by filename stored in metadata of incremental package. Packages may be renamed
+     * or created without filename of parent, so parent is found by its timestamp as a fallback.
+     */
+    private keepParentPackages(
+        sortedPackages: IRetentionPackage[],
+        filename: string,
+        keptFilenames: Set<string>
+    ): void {
+        const visitedFilenames = new Set<string>();
+        let retentionPackage = sortedPackages.find((m) => m.filename === filename);
+
+        while (retentionPackage?.parent && !visitedFilenames.has(retentionPackage.filename)) {
+            const parent: IParentPackageMetadata = retentionPackage.parent;
+            const parentTime = new Date(parent.timestamp).getTime();
+
+            visitedFilenames.add(retentionPackage.filename);
+            retentionPackage =
+                sortedPackages.find((m) => parent.filename && m.filename === parent.filename) ??
+                sortedPackages.find((m) => this.getTime(m) === parentTime);
+
+            if (retentionPackage) {
+                keptFilenames.add(retentionPackage.filename);
+            }
+        }
+    }
+
+    /**
+     * Gets ISO 8601 week of date (weeks start on Monday & the first week of year contains its first Thursday)
+     */
+    private getIsoWeek(date: Date): string {
+        const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 3 - ((date.getDay() + 6) % 7));
+        const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+        const week =
+            1 +
+            Math.round(
+                ((thursday.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7
+            );
+
+        return `${thursday.getFullYear()}-W${week}`;
+    }
+
+    private getTime(retentionPackage: IRetentionPackage): number {
+        return new Date(retentionPackage.timestamp).getTime();
+    }
+}
+
+export const retentionHelper = new RetentionHelper();
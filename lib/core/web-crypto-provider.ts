@@ -0,0 +1,94 @@
+import { ICryptoProvider } from './core.models';
+
+/**
+ * Crypto provider using Web Crypto API available in browsers (and globally in node.js since version 20)
+ */
+export class WebCryptoProvider implements ICryptoProvider {
+    private readonly authTagLength: number = 16;
+
+    getRandomBytes(length: number): Uint8Array {
+        return this.getCrypto().getRandomValues(new Uint8Array(length));
+    }
+
+    async getSha256Async(data: Uint8Array): Promise<Uint8Array> {
+        return new Uint8Array(await this.getCrypto().subtle.digest('SHA-256', data));
+    }
+
+    async deriveKeyAsync(
+        passphrase: string,
+        salt: Uint8Array,
+        iterations: number,
+        keyLength: number
+    ): Promise<Uint8Array> {
+        const subtle = this.getCrypto().subtle;
+        const passphraseKey = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+            'deriveBits'
+        ]);
+        const derivedBits = await subtle.deriveBits(
+            {
+                name: 'PBKDF2',
+                hash: 'SHA-256',
+                salt,
+                iterations
+            },
+            passphraseKey,
+            keyLength * 8
+        );
+
+        return new Uint8Array(derivedBits);
+    }
+
+    async encryptAsync(
+        data: Uint8Array,
+        key: Uint8Array,
+        iv: Uint8Array,
+        additionalData: Uint8Array
+    ): Promise<Uint8Array> {
+        // encrypted data returned by Web Crypto API already end with authentication tag
+        return new Uint8Array(
+            await this.getCrypto().subtle.encrypt(
+                this.getAlgorithm(iv, additionalData),
+                await this.importKeyAsync(key),
+                data
+            )
+        );
+    }
+
+    async decryptAsync(
+        data: Uint8Array,
+        key: Uint8Array,
+        iv: Uint8Array,
+        additionalData: Uint8Array
+    ): Promise<Uint8Array> {
+        return new Uint8Array(
+            await this.getCrypto().subtle.decrypt(
+                this.getAlgorithm(iv, additionalData),
+                await this.importKeyAsync(key),
+                data
+            )
+        );
+    }
+
+    private getAlgorithm(iv: Uint8Array, additionalData: Uint8Array): AesGcmParams {
+        return {
+            name: 'AES-GCM',
+            iv,
+            additionalData,
+            tagLength: this.authTagLength * 8
+        };
+    }
+
+    private async importKeyAsync(key: Uint8Array): Promise<CryptoKey> {
+        return await this.getCrypto().subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt', 'decrypt']);
+    }
+
+    private getCrypto(): Crypto {
+        if (typeof crypto === 'undefined' || !crypto.subtle) {
+            throw Error(
+                `Web Crypto API is not available. Please set crypto provider using 'cryptoHelper.setProvider' (e.g. 'NodeCryptoProvider' in node.js).`
+            );
+        }
+
+        return crypto;
+    }
+}
@@ -0,0 +1,120 @@
+import { LanguageVariantContracts, WorkflowContracts } from '@kentico/kontent-management';
+
+import { ILanguageVariantLifecycle, ILanguageVariantWithLifecycleContract } from './core.models';
+
+export class WorkflowStepHelper {
+    private readonly publishedWorkflowStepCodename: string = 'published';
+    private readonly publishedWorkflowStepName: string = 'Published';
+    private readonly scheduledWorkflowStepCodename: string = 'scheduled';
+    private readonly scheduledWorkflowStepName: string = 'Scheduled';
+    private readonly archivedWorkflowStepCodename: string = 'archived';
+    private readonly archivedWorkflowStepName: string = 'Archived';
+
+    /**
+     * Maps workflow steps of source project to workflow steps of target project. Steps are matched by codename
+     * and then by name (ignoring case). Source steps without matching target step are not included in mapping.
+     */
+    getWorkflowStepsMapping(
+        sourceWorkflowSteps: WorkflowContracts.IWorkflowStepContract[],
+        targetWorkflowSteps: WorkflowContracts.IWorkflowStepContract[]
+    ): Map<string, WorkflowContracts.IWorkflowStepContract> {
+        const mapping = new Map<string, WorkflowContracts.IWorkflowStepContract>();
+
+        for (const sourceWorkflowStep of sourceWorkflowSteps) {
+            const targetWorkflowStep =
+                targetWorkflowSteps.find((m) => m.codename && m.codename === sourceWorkflowStep.codename) ??
+                targetWorkflowSteps.find((m) => m.name.toLowerCase() === sourceWorkflowStep.name.toLowerCase()) ??
+                (this.isPublishedWorkflowStep(sourceWorkflowStep)
+                    ? this.getPublishedWorkflowStep(targetWorkflowSteps)
+                    : undefined);
+
+            if (targetWorkflowStep) {
+                mapping.set(sourceWorkflowStep.id, targetWorkflowStep);
+            }
+        }
+
+        return mapping;
+    }
+
+    /**
+     * Gets workflow step language variant is in. Reference to workflow step may be translated to codename
+     * so the step is found either by its id or by its codename.
+     */
+    getWorkflowStepOfLanguageVariant(
+        languageVariant: LanguageVariantContracts.ILanguageVariantModelContract,
+        workflowSteps: WorkflowContracts.IWorkflowStepContract[]
+    ): WorkflowContracts.IWorkflowStepContract | undefined {
+        const reference = languageVariant.workflow_step;
+
+        return workflowSteps.find(
+            (m) => (reference.id && m.id === reference.id) || (reference.codename && m.codename === reference.codename)
+        );
+    }
+
+    /**
+     * Gets lifecycle state of language variant. Lifecycle captured during export is preferred, otherwise it is
+     * determined from workflow step & schedule of language variant.
+     */
+    getLanguageVariantLifecycle(
+        languageVariant: ILanguageVariantWithLifecycleContract,
+        workflowSteps: WorkflowContracts.IWorkflowStepContract[]
+    ): ILanguageVariantLifecycle {
+        if (languageVariant.lifecycle) {
+            return languageVariant.lifecycle;
+        }
+
+        const workflowStep = this.getWorkflowStepOfLanguageVariant(languageVariant, workflowSteps);
+        const publishTime: string | undefined = languageVariant.schedule?.publish_time ?? undefined;
+        const unpublishTime: string | undefined = languageVariant.schedule?.unpublish_time ?? undefined;
+
+        if (!workflowStep) {
+            return { state: 'draft' };
+        }
+
+        if (this.isArchivedWorkflowStep(workflowStep)) {
+            return { state: 'archived' };
+        }
+
+        if (this.isScheduledWorkflowStep(workflowStep)) {
+            return { state: 'scheduledPublish', publishTime, unpublishTime };
+        }
+
+        if (this.isPublishedWorkflowStep(workflowStep)) {
+            return unpublishTime ? { state: 'scheduledUnpublish', unpublishTime } : { state: 'published' };
+        }
+
+        return { state: 'draft' };
+    }
+
+    getPublishedWorkflowStep(
+        workflowSteps: WorkflowContracts.IWorkflowStepContract[]
+    ): WorkflowContracts.IWorkflowStepContract | undefined {
+        return workflowSteps.find((m) => this.isPublishedWorkflowStep(m));
+    }
+
+    isPublishedWorkflowStep(workflowStep: WorkflowContracts.IWorkflowStepContract): boolean {
+        return (
+            workflowStep.codename === this.publishedWorkflowStepCodename ||
+            workflowStep.name === this.publishedWorkflowStepName
+        );
+    }
+
+    /**
+     * Language variants cannot be moved to scheduled step directly, they are scheduled to be published instead
+     */
+    isScheduledWorkflowStep(workflowStep: WorkflowContracts.IWorkflowStepContract): boolean {
+        return (
+            workflowStep.codename === this.scheduledWorkflowStepCodename ||
+            workflowStep.name === this.scheduledWorkflowStepName
+        );
+    }
+
+    isArchivedWorkflowStep(workflowStep: WorkflowContracts.IWorkflowStepContract): boolean {
+        return (
+            workflowStep.codename === this.archivedWorkflowStepCodename ||
+            workflowStep.name === this.archivedWorkflowStepName
+        );
+    }
+}
+
+export const workflowStepHelper = new WorkflowStepHelper();
@@ -0,0 +1,68 @@
+import { ItemType } from '../core';
+import { IExportData } from '../export';
+import { IBinaryFile } from '../import';
+
+export type DiffChange = 'added' | 'removed' | 'changed';
+
+export interface IDiffConfig {
+    enableLog: boolean;
+}
+
+/**
+ * Data compared by diff service
+ */
+export interface IDiffSource {
+    /**
+     * Describes compared data in diff result (e.g. name of zip file)
+     */
+    name: string;
+    data: IExportData;
+    /**
+     * When binary files are not provided, binary files of assets are compared only by their size
+     */
+    binaryFiles?: IBinaryFile[];
+}
+
+export interface IDiffPropertyChange {
+    /**
+     * Name of changed property. Changes in collections are identified by collection & codename of its item
+     * (e.g. 'elements.title' or 'terms.red').
+     */
+    property: string;
+    change: DiffChange;
+}
+
+export interface IDiffItem {
+    type: ItemType;
+    /**
+     * Codename of object. Assets & asset folders are identified by id and language variants by
+     * codenames of content item & language separated by ':'.
+     */
+    key: string;
+    title: string;
+    change: DiffChange;
+    /**
+     * Set only for changed objects
+     */
+    properties: IDiffPropertyChange[];
+}
+
+export interface IDiffSummaryItem {
+    type: ItemType;
+    added: number;
+    removed: number;
+    changed: number;
+}
+
+export interface IDiffResult {
+    metadata: {
+        timestamp: Date;
+        source: string;
+        target: string;
+    };
+    /**
+     * Number of changes for each type of objects that has changed
+     */
+    summary: IDiffSummaryItem[];
+    items: IDiffItem[];
+}
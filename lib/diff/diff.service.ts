@@ -0,0 +1,475 @@
+import {
+    AssetFolderContracts,
+    ContentItemContracts,
+    LanguageVariantContracts,
+    TaxonomyContracts
+} from '@kentico/kontent-management';
+
+import { getComparableJson, hashHelper, ItemType, workflowStepHelper } from '../core';
+import { IExportData } from '../export';
+import { IBinaryFile } from '../import';
+import {
+    DiffChange,
+    IDiffConfig,
+    IDiffItem,
+    IDiffPropertyChange,
+    IDiffResult,
+    IDiffSource,
+    IDiffSummaryItem
+} from './diff.models';
+
+interface IFlattenedTaxonomyTerm {
+    name: string;
+    parentCodename?: string;
+}
+
+interface IFlattenedAssetFolder {
+    id: string;
+    name: string;
+    path: string;
+    parentId?: string;
+}
+
+export class DiffService {
+    constructor(private config: IDiffConfig) {}
+
+    /**
+     * Compares source data with target data. Objects present only in target are reported as added and objects
+     * present only in source as removed.
+     */
+    public async compareAsync(source: IDiffSource, target: IDiffSource): Promise<IDiffResult> {
+        if (this.config.enableLog) {
+            console.log(`Comparing '${source.name}' with '${target.name}'`);
+        }
+
+        const sourceData = source.data;
+        const targetData = target.data;
+        const getSourceCollectionCodename = this.getCollectionCodenameOfContentItem(sourceData);
+        const getTargetCollectionCodename = this.getCollectionCodenameOfContentItem(targetData);
+
+        const items: IDiffItem[] = [
+            ...this.compareObjects(
+                'language',
+                sourceData.languages,
+                targetData.languages,
+                (m) => m.codename,
+                (m) => m.name,
+                (s, t) => this.compareProperties(s, t, ['name', 'is_active', 'external_id'])
+            ),
+            ...this.compareObjects(
+                'taxonomy',
+                sourceData.taxonomies,
+                targetData.taxonomies,
+                (m) => m.codename,
+                (m) => m.name,
+                (s, t) => [
+                    ...this.compareProperties(s, t, ['name', 'external_id']),
+                    ...this.compareCollections(
+                        'terms',
+                        this.flattenTaxonomyTerms(s.terms),
+                        this.flattenTaxonomyTerms(t.terms)
+                    )
+                ]
+            ),
+            ...this.compareObjects(
+                'contentTypeSnippet',
+                sourceData.contentTypeSnippets,
+                targetData.contentTypeSnippets,
+                (m) => m.codename,
+                (m) => m.name,
+                (s, t) => [
+                    ...this.compareProperties(s, t, ['name', 'external_id']),
+                    ...this.compareCollections(
+                        'elements',
+                        this.getMapByKey(s.elements, (m) => m.codename ?? m.id ?? m.name),
+                        this.getMapByKey(t.elements, (m) => m.codename ?? m.id ?? m.name)
+                    )
+                ]
+            ),
+            ...this.compareObjects(
+                'contentType',
+                sourceData.contentTypes,
+                targetData.contentTypes,
+                (m) => m.codename,
+                (m) => m.name,
+                (s, t) => [
+                    ...this.compareProperties(s, t, ['name', 'external_id', 'content_groups']),
+                    ...this.compareCollections(
+                        'elements',
+                        this.getMapByKey(s.elements, (m) => m.codename ?? m.id ?? m.name),
+                        this.getMapByKey(t.elements, (m) => m.codename ?? m.id ?? m.name)
+                    )
+                ]
+            ),
+            ...this.compareObjects(
+                'workflowStep',
+                sourceData.workflowSteps,
+                targetData.workflowSteps,
+                (m) => m.name,
+                (m) => m.name,
+                (s, t) => this.compareProperties(s, t, ['transitions_to'])
+            ),
+            ...this.compareObjects(
+                'collection',
+                sourceData.collections,
+                targetData.collections,
+                (m) => m.codename,
+                (m) => m.name,
+                (s, t) => this.compareProperties(s, t, ['name'])
+            ),
+            ...this.compareObjects(
+                'webhook',
+                sourceData.webhooks,
+                targetData.webhooks,
+                (m) => m.name,
+                (m) => m.name,
+                (s, t) => this.compareProperties(s, t, ['url', 'triggers'])
+            ),
+            ...this.compareObjects(
+                'assetFolder',
+                this.flattenAssetFolders(sourceData.assetFolders),
+                this.flattenAssetFolders(targetData.assetFolders),
+                (m) => m.id,
+                (m) => m.path,
+                (s, t) => this.compareProperties(s, t, ['name', 'parentId'])
+            ),
+            ...this.compareObjects(
+                'contentItem',
+                sourceData.contentItems,
+                targetData.contentItems,
+                (m) => m.codename,
+                (m) => m.name,
+                (s, t) => [
+                    ...this.compareProperties(s, t, ['name', 'type', 'external_id']),
+                    ...this.compareProperties(
+                        { collection: getSourceCollectionCodename(s) },
+                        { collection: getTargetCollectionCodename(t) },
+                        ['collection']
+                    )
+                ]
+            ),
+            ...this.compareLanguageVariants(sourceData, targetData),
+            ...(await this.compareAssetsAsync(source, target))
+        ];
+
+        return {
+            metadata: {
+                timestamp: new Date(),
+                source: source.name,
+                target: target.name
+            },
+            summary: this.getSummary(items),
+            items
+        };
+    }
+
+    private compareLanguageVariants(sourceData: IExportData, targetData: IExportData): IDiffItem[] {
+        const getKey = (data: IExportData) => {
+            const itemCodenames = this.getMapByKey(data.contentItems, (m) => m.id);
+            const languageCodenames = this.getMapByKey(data.languages, (m) => m.id);
+
+            return (languageVariant: LanguageVariantContracts.ILanguageVariantModelContract) =>
+                `${itemCodenames.get(languageVariant.item.id ?? '')?.codename ?? languageVariant.item.id}:${
+                    languageCodenames.get(languageVariant.language.id ?? '')?.codename ?? languageVariant.language.id
+                }`;
+        };
+        const getElementKey = (data: IExportData) => {
+            // elements of language variants are referenced only by id
+            const elementCodenames = new Map<string, string>();
+
+            for (const element of [
+                ...data.contentTypes.flatMap((m) => m.elements),
+                ...data.contentTypeSnippets.flatMap((m) => m.elements)
+            ]) {
+                if (element.id && element.codename) {
+                    elementCodenames.set(element.id, element.codename);
+                }
+            }
+
+            return (element: { element: { id?: string; codename?: string } }) =>
+                elementCodenames.get(element.element.id ?? '') ?? element.element.codename ?? element.element.id ?? '';
+        };
+        const getWorkflowStepName = (data: IExportData) => {
+            const workflowSteps = this.getMapByKey(data.workflowSteps, (m) => m.id);
+
+            return (languageVariant: LanguageVariantContracts.ILanguageVariantModelContract) =>
+                workflowSteps.get(languageVariant.workflow_step.id ?? '')?.name ?? languageVariant.workflow_step.id;
+        };
+
+        const getSourceKey = getKey(sourceData);
+        const getTargetKey = getKey(targetData);
+        const getSourceElementKey = getElementKey(sourceData);
+        const getTargetElementKey = getElementKey(targetData);
+        const getSourceWorkflowStepName = getWorkflowStepName(sourceData);
+        const getTargetWorkflowStepName = getWorkflowStepName(targetData);
+
+        return this.compareMaps(
+            'languageVariant',
+            this.getMapByKey(sourceData.languageVariants, getSourceKey),
+            this.getMapByKey(targetData.languageVariants, getTargetKey),
+            (m, key) => key,
+            (s, t) => [
+                ...this.compareProperties(
+                    {
+                        workflow_step: getSourceWorkflowStepName(s),
+                        lifecycle: workflowStepHelper.getLanguageVariantLifecycle(s, sourceData.workflowSteps)
+                    },
+                    {
+                        workflow_step: getTargetWorkflowStepName(t),
+                        lifecycle: workflowStepHelper.getLanguageVariantLifecycle(t, targetData.workflowSteps)
+                    },
+                    ['workflow_step', 'lifecycle']
+                ),
+                ...this.compareCollections(
+                    'elements',
+                    this.getMapByKey(s.elements, getSourceElementKey),
+                    this.getMapByKey(t.elements, getTargetElementKey)
+                )
+            ]
+        );
+    }
+
+    private async compareAssetsAsync(source: IDiffSource, target: IDiffSource): Promise<IDiffItem[]> {
+        const items = this.compareObjects(
+            'asset',
+            source.data.assets,
+            target.data.assets,
+            (m) => m.id,
+            (m) => m.file_name,
+            (s, t) => this.compareProperties(s, t, ['file_name', 'title', 'descriptions', 'folder', 'external_id'])
+        );
+        const sourceBinaryFiles = this.getMapByKey(source.binaryFiles ?? [], (m) => m.asset.id);
+        const targetBinaryFiles = this.getMapByKey(target.binaryFiles ?? [], (m) => m.asset.id);
+        const targetAssets = this.getMapByKey(target.data.assets, (m) => m.id);
+
+        for (const sourceAsset of source.data.assets) {
+            const targetAsset = targetAssets.get(sourceAsset.id);
+
+            if (!targetAsset) {
+                continue;
+            }
+
+            const binaryFileChanged =
+                sourceAsset.size !== targetAsset.size ||
+                (await this.isBinaryFileChangedAsync(
+                    sourceBinaryFiles.get(sourceAsset.id),
+                    targetBinaryFiles.get(sourceAsset.id)
+                ));
+
+            if (!binaryFileChanged) {
+                continue;
+            }
+
+            const binaryFileChange: IDiffPropertyChange = { property: 'binaryFile', change: 'changed' };
+            const item = items.find((m) => m.key === sourceAsset.id);
+
+            if (item) {
+                item.properties.push(binaryFileChange);
+            } else {
+                items.push({
+                    type: 'asset',
+                    key: sourceAsset.id,
+                    title: targetAsset.file_name,
+                    change: 'changed',
+                    properties: [binaryFileChange]
+                });
+            }
+        }
+
+        return items;
+    }
+
+    private async isBinaryFileChangedAsync(
+        sourceBinaryFile: IBinaryFile | undefined,
+        targetBinaryFile: IBinaryFile | undefined
+    ): Promise<boolean> {
+        if (!sourceBinaryFile || !targetBinaryFile) {
+            return false;
+        }
+
+        // binary files are read one at a time so that they do not need to be kept in memory
+        const sourceHash = await hashHelper.getSha256Async(await sourceBinaryFile.getBinaryDataAsync());
+        const targetHash = await hashHelper.getSha256Async(await targetBinaryFile.getBinaryDataAsync());
+
+        return sourceHash !== targetHash;
+    }
+
+    private compareObjects<T>(
+        type: ItemType,
+        sourceObjects: T[],
+        targetObjects: T[],
+        getKey: (item: T) => string,
+        getTitle: (item: T) => string,
+        getChanges: (source: T, target: T) => IDiffPropertyChange[]
+    ): IDiffItem[] {
+        return this.compareMaps(
+            type,
+            this.getMapByKey(sourceObjects, getKey),
+            this.getMapByKey(targetObjects, getKey),
+            getTitle,
+            getChanges
+        );
+    }
+
+    private compareMaps<T>(
+        type: ItemType,
+        sourceObjects: Map<string, T>,
+        targetObjects: Map<string, T>,
+        getTitle: (item: T, key: string) => string,
+        getChanges: (source: T, target: T) => IDiffPropertyChange[]
+    ): IDiffItem[] {
+        const items: IDiffItem[] = [];
+
+        for (const [key, sourceObject] of sourceObjects) {
+            const targetObject = targetObjects.get(key);
+
+            if (!targetObject) {
+                items.push(this.getDiffItem(type, key, getTitle(sourceObject, key), 'removed', []));
+                continue;
+            }
+
+            const properties = getChanges(sourceObject, targetObject);
+
+            if (properties.length) {
+                items.push(this.getDiffItem(type, key, getTitle(targetObject, key), 'changed', properties));
+            }
+        }
+
+        for (const [key, targetObject] of targetObjects) {
+            if (!sourceObjects.has(key)) {
+                items.push(this.getDiffItem(type, key, getTitle(targetObject, key), 'added', []));
+            }
+        }
+
+        return items;
+    }
+
+    private getDiffItem(
+        type: ItemType,
+        key: string,
+        title: string,
+        change: DiffChange,
+        properties: IDiffPropertyChange[]
+    ): IDiffItem {
+        return {
+            type,
+            key,
+            title,
+            change,
+            properties
+        };
+    }
+
+    private compareProperties<T>(source: T, target: T, properties: (keyof T)[]): IDiffPropertyChange[] {
+        return properties
+            .filter((m) => !this.isEqual(source[m], target[m]))
+            .map((m) => {
+                return {
+                    property: m.toString(),
+                    change: 'changed'
+                };
+            });
+    }
+
+    private compareCollections<T>(
+        collectionName: string,
+        sourceItems: Map<string, T>,
+        targetItems: Map<string, T>
+    ): IDiffPropertyChange[] {
+        const changes: IDiffPropertyChange[] = [];
+
+        for (const [key, sourceItem] of sourceItems) {
+            const targetItem = targetItems.get(key);
+
+            if (!targetItem) {
+                changes.push({ property: `${collectionName}.${key}`, change: 'removed' });
+            } else if (!this.isEqual(sourceItem, targetItem)) {
+                changes.push({ property: `${collectionName}.${key}`, change: 'changed' });
+            }
+        }
+
+        for (const key of targetItems.keys()) {
+            if (!sourceItems.has(key)) {
+                changes.push({ property: `${collectionName}.${key}`, change: 'added' });
+            }
+        }
+
+        return changes;
+    }
+
+    private flattenTaxonomyTerms(
+        terms: TaxonomyContracts.ITaxonomyContract[],
+        parentCodename?: string,
+        flattenedTerms: Map<string, IFlattenedTaxonomyTerm> = new Map()
+    ): Map<string, IFlattenedTaxonomyTerm> {
+        for (const term of terms) {
+            flattenedTerms.set(term.codename, { name: term.name, parentCodename });
+            this.flattenTaxonomyTerms(term.terms, term.codename, flattenedTerms);
+        }
+
+        return flattenedTerms;
+    }
+
+    private flattenAssetFolders(
+        folders: AssetFolderContracts.IAssetFolderContract[],
+        parent?: IFlattenedAssetFolder
+    ): IFlattenedAssetFolder[] {
+        const flattenedFolders: IFlattenedAssetFolder[] = [];
+
+        for (const folder of folders) {
+            const flattenedFolder: IFlattenedAssetFolder = {
+                id: folder.id,
+                name: folder.name,
+                path: parent ? `${parent.path}/${folder.name}` : folder.name,
+                parentId: parent?.id
+            };
+
+            flattenedFolders.push(flattenedFolder, ...this.flattenAssetFolders(folder.folders, flattenedFolder));
+        }
+
+        return flattenedFolders;
+    }
+
+    private getSummary(items: IDiffItem[]): IDiffSummaryItem[] {
+        const summary: IDiffSummaryItem[] = [];
+
+        for (const item of items) {
+            let summaryItem = summary.find((m) => m.type === item.type);
+
+            if (!summaryItem) {
+                summaryItem = { type: item.type, added: 0, removed: 0, changed: 0 };
+                summary.push(summaryItem);
+            }
+
+            summaryItem[item.change]++;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Collections are compared by codename as ids of collections differ between projects
+     */
+    private getCollectionCodenameOfContentItem(
+        data: IExportData
+    ): (contentItem: ContentItemContracts.IContentItemModelContract) => string | undefined {
+        const collections = this.getMapByKey(data.collections, (m) => m.id);
+
+        return (contentItem) =>
+            collections.get(contentItem.collection?.id ?? '')?.codename ?? contentItem.collection?.id;
+    }
+
+    private getMapByKey<T>(items: T[], getKey: (item: T) => string): Map<string, T> {
+        const map = new Map<string, T>();
+
+        for (const item of items) {
+            map.set(getKey(item), item);
+        }
+
+        return map;
+    }
+
+    private isEqual(a: any, b: any): boolean {
+        return getComparableJson(a) === getComparableJson(b);
+    }
+}
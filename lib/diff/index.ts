@@ -0,0 +1,2 @@
+export * from './diff.models';
+export * from './diff.service';
@@ -9,9 +9,11 @@ import {
     TaxonomyContracts,
     ProjectContracts,
     WorkflowContracts,
+    WebhookContracts,
+    CollectionContracts
 } from '@kentico/kontent-management';
 
-import { IProcessedItem, IPackageMetadata, ItemType } from '../core';
+import { ILanguageVariantWithLifecycleContract, IProcessedItem, IPackageMetadata, ItemType } from '../core';
 
 export interface IExportConfig {
     projectId: string;
@@ -19,6 +21,32 @@ export interface IExportConfig {
     baseUrl?: string;
     onExport?: (item: IProcessedItem) => void;
     exportFilter?: ItemType[];
+    /**
+     * When set, incremental package is created. Only content items, language variants & assets that were
+     * created or modified since given package are exported and objects missing in the project are recorded as deleted.
+     */
+    incrementalBase?: IIncrementalExportBase;
+    /**
+     * When enabled, secrets of webhooks are included in exported data. Disabled by default as anyone with access
+     * to the package could then forge webhook notifications.
+     */
+    includeWebhookSecrets?: boolean;
+    /**
+     * Codenames of collections to export (supports '*' wildcard). When set, only content items (and their
+     * language variants) in these collections are exported. Cannot be combined with incremental export.
+     */
+    collections?: string[];
+}
+
+export interface IIncrementalExportBase {
+    /**
+     * Filename of the base package. Stored in metadata of created incremental package.
+     */
+    filename?: string;
+    metadata: IPackageMetadata;
+    contentItems: ContentItemContracts.IContentItemModelContract[];
+    languageVariants: LanguageVariantContracts.ILanguageVariantModelContract[];
+    assets: AssetContracts.IAssetModelContract[];
 }
 
 export interface IExportData {
@@ -27,10 +55,15 @@ export interface IExportData {
     contentTypeSnippets: ContentTypeSnippetContracts.IContentTypeSnippetContract[];
     contentTypes: ContentTypeContracts.IContentTypeContract[];
     contentItems: ContentItemContracts.IContentItemModelContract[];
-    languageVariants: LanguageVariantContracts.ILanguageVariantModelContract[];
+    languageVariants: ILanguageVariantWithLifecycleContract[];
     languages: LanguageContracts.ILanguageModelContract[];
     assets: AssetContracts.IAssetModelContract[];
     assetFolders: AssetFolderContracts.IAssetFolderContract[];
+    /**
+     * Secrets of webhooks are redacted (exported as empty string) unless 'includeWebhookSecrets' is enabled
+     */
+    webhooks: WebhookContracts.IWebhookContract[];
+    collections: CollectionContracts.ICollectionContract[];
 }
 
 export interface IExportAllResult {
@@ -1,19 +1,22 @@
 import {
     ContentItemContracts,
+    ContentItemModels,
     ContentTypeContracts,
     ContentTypeSnippetContracts,
-    LanguageVariantContracts,
     ManagementClient,
     TaxonomyContracts,
     AssetContracts,
     LanguageContracts,
     AssetFolderContracts,
     ProjectContracts,
-    WorkflowContracts
+    WorkflowContracts,
+    WebhookContracts,
+    CollectionContracts
 } from '@kentico/kontent-management';
 
 import { IExportAllResult, IExportConfig, IExportData } from './export.models';
-import { ItemType } from '../core';
+import { incrementalExportHelper } from './incremental-export-helper';
+import { getWildcardRegex, ILanguageVariantWithLifecycleContract, ItemType, workflowStepHelper } from '../core';
 import { version } from '../../package.json';
 
 export class ExportService {
@@ -39,30 +42,62 @@ export class ExportService {
             languageVariant: this.config.exportFilter?.includes('languageVariant') ?? true,
             taxonomy: this.config.exportFilter?.includes('taxonomy') ?? true,
             workflowSteps: this.config.exportFilter?.includes('workflowStep') ?? true,
+            webhook: this.config.exportFilter?.includes('webhook') ?? true,
+            collection: this.config.exportFilter?.includes('collection') ?? true,
         };
 
+        if (this.config.collections?.length && this.config.incrementalBase) {
+            // content items outside of exported collections would be recorded as deleted
+            throw Error(`Incremental export cannot be filtered by collections`);
+        }
+
+        if (this.config.incrementalBase) {
+            // fail before any data is fetched
+            incrementalExportHelper.getBaseTimestamp(this.config.incrementalBase);
+        }
+
+        // timestamp is taken before any data is fetched so that objects modified during export
+        // are included in next incremental export
+        const timestamp = new Date();
         const contentTypes = await this.exportContentTypesAsync({ processItem: exportItems.contentType });
         const projectValidation = await this.exportProjectValidationAsync();
-        const contentItems = exportItems.contentItem || exportItems.languageVariant ? await this.exportContentItemsAsync() : []
+        const collections =
+            exportItems.collection || this.config.collections?.length ? await this.exportCollectionsAsync() : [];
+        const contentItems =
+            exportItems.contentItem || exportItems.languageVariant
+                ? await this.exportContentItemsAsync(
+                      this.config.collections?.length ? collections.map((m) => m.id) : undefined
+                  )
+                : [];
 
         const data: IExportData = {
             contentTypes: exportItems.contentType ? contentTypes : [],
             contentTypeSnippets: exportItems.contentTypeSnippet ? await this.exportContentTypeSnippetsAsync() : [],
             taxonomies: exportItems.taxonomy ? await this.exportTaxonomiesAsync() : [],
-            workflowSteps: exportItems.taxonomy ? await this.exportWorkflowStepsAsync() : [],
-            contentItems: exportItems.contentItem ? await this.exportContentItemsAsync() : [],
+            workflowSteps: exportItems.workflowSteps ? await this.exportWorkflowStepsAsync() : [],
+            contentItems: exportItems.contentItem ? contentItems : [],
             languageVariants: exportItems.languageVariant
                 ? await this.exportLanguageVariantsAsync(contentItems.map((m) => m.id))
                 : [],
             assets: exportItems.asset ? await this.exportAssetsAsync() : [],
             languages: exportItems.language ? await this.exportLanguagesAsync() : [],
-            assetFolders: exportItems.assetFolder ? await this.exportAssetFoldersAsync() : []
+            assetFolders: exportItems.assetFolder ? await this.exportAssetFoldersAsync() : [],
+            webhooks: exportItems.webhook ? await this.exportWebhooksAsync() : [],
+            collections: exportItems.collection ? collections : []
         };
 
+        const incremental = this.config.incrementalBase
+            ? incrementalExportHelper.applyIncrementalBase(data, this.config.incrementalBase, {
+                  contentItems: exportItems.contentItem,
+                  languageVariants: exportItems.languageVariant,
+                  assets: exportItems.asset
+              })
+            : undefined;
+
         return {
             metadata: {
                 version,
-                timestamp: new Date(),
+                timestamp,
                 projectId: this.config.projectId,
                 isInconsistentExport:
                     projectValidation.type_issues.length > 0 || projectValidation.variant_issues.length > 0,
@@ -76,7 +111,10 @@ export class ExportService {
                     languagesCount: data.languages.length,
                     taxonomiesCount: data.taxonomies.length,
                     workflowStepsCount: data.workflowSteps.length,
-                }
+                    webhooksCount: data.webhooks.length,
+                    collectionsCount: data.collections.length,
+                },
+                incremental
             },
             validation: projectValidation,
             data
@@ -124,6 +162,34 @@ export class ExportService {
         return response.data.map((m) => m._raw);
     }
 
+    /**
+     * Exports webhooks. Secrets are redacted unless 'includeWebhookSecrets' is enabled.
+     */
+    public async exportWebhooksAsync(): Promise<WebhookContracts.IWebhookContract[]> {
+        const response = await this.client.listWebhooks().toPromise();
+        response.data.webhooks.forEach((m) => this.processItem(m.name, 'webhook', m));
+        return response.data.webhooks.map((m) => {
+            return {
+                ...m._raw,
+                secret: this.config.includeWebhookSecrets ? m._raw.secret : ''
+            };
+        });
+    }
+
+    /**
+     * Exports collections. When 'collections' are set in config, only matching collections are exported.
+     */
+    public async exportCollectionsAsync(): Promise<CollectionContracts.ICollectionContract[]> {
+        const response = await this.client.listCollections().toPromise();
+        const collectionPatterns = (this.config.collections ?? []).map((m) => getWildcardRegex(m));
+        const collections = collectionPatterns.length
+            ? response.data.collections.filter((m) => collectionPatterns.some((p) => p.test(m.codename)))
+            : response.data.collections;
+
+        collections.forEach((m) => this.processItem(m.name, 'collection', m));
+        return collections.map((m) => m._raw);
+    }
+
     public async exportTaxonomiesAsync(): Promise<TaxonomyContracts.ITaxonomyContract[]> {
         const response = await this.client.listTaxonomies().toPromise();
         response.data.taxonomies.forEach((m) => this.processItem(m.name, 'taxonomy', m));
@@ -158,22 +224,33 @@ export class ExportService {
         return response.data.items.map((m) => m._raw);
     }
 
-    public async exportContentItemsAsync(): Promise<ContentItemContracts.IContentItemModelContract[]> {
+    /**
+     * Exports content items. When collection ids are given, only content items in these collections are exported.
+     */
+    public async exportContentItemsAsync(
+        collectionIds?: string[]
+    ): Promise<ContentItemContracts.IContentItemModelContract[]> {
+        const isExported = (contentItem: ContentItemModels.ContentItem) =>
+            !collectionIds || collectionIds.includes(contentItem.collection.id ?? '');
         const response = await this.client
             .listContentItems()
             .withListQueryConfig({
                 responseFetched: (listResponse, token) => {
-                    listResponse.data.items.forEach((m) => this.processItem(m.name, 'contentItem', m));
+                    listResponse.data.items
+                        .filter((m) => isExported(m))
+                        .forEach((m) => this.processItem(m.name, 'contentItem', m));
                 }
             })
             .toAllPromise();
-        return response.data.items.map((m) => m._raw);
+        return response.data.items.filter((m) => isExported(m)).map((m) => m._raw);
     }
 
     public async exportLanguageVariantsAsync(
         contentItemIds: string[]
-    ): Promise<LanguageVariantContracts.ILanguageVariantModelContract[]> {
-        const languageVariants: LanguageVariantContracts.ILanguageVariantModelWithComponentsContract[] = [];
+    ): Promise<ILanguageVariantWithLifecycleContract[]> {
+        const languageVariants: ILanguageVariantWithLifecycleContract[] = [];
+        // workflow steps are needed to capture lifecycle state of language variants
+        const workflowSteps = (await this.client.listWorkflowSteps().toPromise()).data.map((m) => m._raw);
 
         for (const contentItemId of contentItemIds) {
             const response = await this.client
@@ -182,7 +259,14 @@ export class ExportService {
                 .toPromise();
 
 
-                languageVariants.push(...response.data.items.map((m) => m._raw));
+                languageVariants.push(
+                    ...response.data.items.map((m) => {
+                        return {
+                            ...m._raw,
+                            lifecycle: workflowStepHelper.getLanguageVariantLifecycle(m._raw, workflowSteps)
+                        };
+                    })
+                );
                 response.data.items.forEach((m) =>
                     this.processItem(m.item.id?.toString() ?? '-', 'languageVariant', m)
                 );
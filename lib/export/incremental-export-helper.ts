@@ -0,0 +1,104 @@
+import { LanguageVariantContracts } from '@kentico/kontent-management';
+
+import { IIncrementalPackageMetadata, IPackageTombstones } from '../core';
+import { IExportData, IIncrementalExportBase } from './export.models';
+
+export class IncrementalExportHelper {
+    /**
+     * Removes content items, language variants & assets that were not changed since base package was created
+     * and returns ids of objects that exist in base package, but not in the project anymore.
+     */
+    applyIncrementalBase(
+        data: IExportData,
+        base: IIncrementalExportBase,
+        exportedTypes: {
+            contentItems: boolean;
+            languageVariants: boolean;
+            assets: boolean;
+        }
+    ): IIncrementalPackageMetadata {
+        const baseTimestamp = this.getBaseTimestamp(base);
+        const isChangedSinceBase = (lastModified: Date | string) => new Date(lastModified).getTime() >= baseTimestamp;
+
+        const tombstones: IPackageTombstones = {
+            assetIds: [],
+            contentItemIds: [],
+            languageVariants: []
+        };
+
+        if (exportedTypes.contentItems) {
+            const baseContentItemIds = new Set<string>(base.contentItems.map((m) => m.id));
+            const currentContentItemIds = new Set<string>(data.contentItems.map((m) => m.id));
+
+            tombstones.contentItemIds = [...baseContentItemIds].filter((id) => !currentContentItemIds.has(id));
+            data.contentItems = data.contentItems.filter(
+                (m) => !baseContentItemIds.has(m.id) || isChangedSinceBase(m.last_modified)
+            );
+        }
+
+        if (exportedTypes.languageVariants) {
+            const getVariantKey = (variant: LanguageVariantContracts.ILanguageVariantModelContract) =>
+                `${variant.item.id}:${variant.language.id}`;
+            const baseVariantKeys = new Set<string>(base.languageVariants.map((m) => getVariantKey(m)));
+            const currentVariantKeys = new Set<string>(data.languageVariants.map((m) => getVariantKey(m)));
+
+            tombstones.languageVariants = base.languageVariants
+                .filter((m) => !currentVariantKeys.has(getVariantKey(m)))
+                .map((m) => {
+                    return {
+                        itemId: m.item.id ?? '',
+                        languageId: m.language.id ?? ''
+                    };
+                });
+            data.languageVariants = data.languageVariants.filter(
+                (m) => !baseVariantKeys.has(getVariantKey(m)) || isChangedSinceBase(m.last_modified)
+            );
+        }
+
+        if (exportedTypes.assets) {
+            const baseAssetIds = new Set<string>(base.assets.map((m) => m.id));
+            const currentAssetIds = new Set<string>(data.assets.map((m) => m.id));
+            // binary files that could not be downloaded for base package are downloaded again
+            const baseFailedAssetIds = new Set<string>(
+                (base.metadata.failedAssetDownloads ?? []).map((m) => m.assetId)
+            );
+
+            tombstones.assetIds = [...baseAssetIds].filter((id) => !currentAssetIds.has(id));
+            data.assets = data.assets.filter(
+                (m) => !baseAssetIds.has(m.id) || baseFailedAssetIds.has(m.id) || isChangedSinceBase(m.last_modified)
+            );
+        }
+
+        return {
+            parent: {
+                projectId: base.metadata.projectId,
+                timestamp: base.metadata.timestamp,
+                filename: base.filename
+            },
+            deleted: tombstones
+        };
+    }
+
+    /**
+     * Gets time of export of base package. Fails when it is unknown so that incremental export fails before
+     * any data are fetched.
+     */
+    getBaseTimestamp(base: IIncrementalExportBase): number {
+        if (!base.metadata.timestamp) {
+            // deterministic packages do not store time of export in package
+            throw Error(
+                `Time of export of base package is unknown. Please provide volatile metadata of deterministic package.`
+            );
+        }
+
+        const timestamp = new Date(base.metadata.timestamp).getTime();
+
+        if (isNaN(timestamp)) {
+            throw Error(`Invalid time of export '${base.metadata.timestamp}' of base package`);
+        }
+
+        return timestamp;
+    }
+}
+
+export const incrementalExportHelper = new IncrementalExportHelper();
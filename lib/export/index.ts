@@ -1,2 +1,3 @@
 export * from './export.models';
 export * from './export.service';
+export * from './incremental-export-helper';
@@ -0,0 +1,89 @@
+import {
+    ContentTypeContracts,
+    ContentTypeModels,
+    ContentTypeSnippetContracts,
+    ElementContracts,
+    SharedContracts
+} from '@kentico/kontent-management';
+
+import { idTranslateHelper, IImportIdMapping } from '../core';
+
+export class ContentTypeReferenceHelper {
+    /**
+     * Gets operations setting content types allowed in elements that have no allowed content types in target
+     * project. Referenced content types missing in target project (e.g. excluded from import) are left out.
+     */
+    getContentTypeReferenceOperations(
+        object: ContentTypeContracts.IContentTypeContract | ContentTypeSnippetContracts.IContentTypeSnippetContract,
+        existingObject:
+            | ContentTypeContracts.IContentTypeContract
+            | ContentTypeSnippetContracts.IContentTypeSnippetContract,
+        existingContentTypes: ContentTypeContracts.IContentTypeContract[],
+        currentItems: IImportIdMapping[]
+    ): ContentTypeModels.IModifyContentTypeData[] {
+        const operations: ContentTypeModels.IModifyContentTypeData[] = [];
+
+        for (const element of object.elements) {
+            const existingElement = existingObject.elements.find((m) => m.codename === element.codename);
+
+            if (
+                !this.hasContentTypeReferences(element) ||
+                !existingElement ||
+                this.hasContentTypeReferences(existingElement)
+            ) {
+                continue;
+            }
+
+            const references: SharedContracts.IReferenceObjectContract[] = JSON.parse(
+                JSON.stringify((element as any).allowed_content_types)
+            );
+
+            idTranslateHelper.replaceExternalIdReferencesWithNewId(references, currentItems);
+
+            const existingReferences = references.filter((reference) => {
+                const isExisting = existingContentTypes.some(
+                    (m) =>
+                        (reference.id && m.id === reference.id) ||
+                        (reference.external_id && m.external_id === reference.external_id)
+                );
+
+                if (!isExisting) {
+                    console.warn(
+                        `WARNING: Content type '${reference.external_id ?? reference.id}' allowed in element '${
+                            element.codename
+                        }' of '${object.codename}' does not exist in target project`
+                    );
+                }
+
+                return isExisting;
+            });
+
+            if (existingReferences.length) {
+                operations.push({
+                    op: 'replace',
+                    path: `/elements/id:${existingElement.id}/allowed_content_types`,
+                    value: existingReferences
+                });
+            }
+        }
+
+        return operations;
+    }
+
+    hasContentTypeReferences(element: ElementContracts.IContentTypeElementContract): boolean {
+        return ((element as any).allowed_content_types ?? []).length > 0;
+    }
+
+    /**
+     * Content types are created without allowed content types so that they may reference each other
+     */
+    getElementWithoutContentTypeReferences(
+        element: ElementContracts.IContentTypeElementContract
+    ): ElementContracts.IContentTypeElementContract {
+        return this.hasContentTypeReferences(element)
+            ? ({ ...element, allowed_content_types: [] } as ElementContracts.IContentTypeElementContract)
+            : element;
+    }
+}
+
+export const contentTypeReferenceHelper = new ContentTypeReferenceHelper();
@@ -0,0 +1,323 @@
+import { AssetFolderContracts } from '@kentico/kontent-management';
+
+import { ItemType } from '../core';
+import { IImportSource, IPreparedImportItem } from './import.models';
+
+export class ImportDependencyHelper {
+    /**
+     * Types of objects each type of object may depend on. References to other types of objects are ignored
+     * (e.g. content type may contain default value referencing content item, but content item cannot be imported
+     * before its content type). Content types allowed in elements of content types & snippets are not dependencies
+     * as content types may reference each other, these references are set once all content types are imported.
+     */
+    private readonly allowedDependencies: { [type: string]: ItemType[] } = {
+        taxonomy: [],
+        contentTypeSnippet: ['contentTypeSnippet', 'taxonomy'],
+        contentType: ['contentTypeSnippet', 'taxonomy'],
+        assetFolder: ['assetFolder'],
+        asset: ['assetFolder'],
+        contentItem: ['contentType', 'collection'],
+        languageVariant: ['contentItem', 'asset', 'taxonomy']
+    };
+
+    /**
+     * Order in which independent objects are imported so that objects of the same type are imported together
+     */
+    private readonly importOrder: ItemType[] = [
+        'assetFolder',
+        'taxonomy',
+        'contentTypeSnippet',
+        'contentType',
+        'asset',
+        'contentItem',
+        'languageVariant'
+    ];
+
+    private readonly richTextReferenceRegex: RegExp = /data-(?:item|asset)-id="([^"]+)"/g;
+
+    /**
+     * Gets objects of import source with their dependencies. Dependencies are identified by keys of prepared items.
+     * Must be called before ids in import source are translated.
+     */
+    getPreparedImportItems(source: IImportSource): IPreparedImportItem<any>[] {
+        const data = source.importData;
+        const keysById = new Map<string, string>();
+        const itemsWithReferences: [IPreparedImportItem<any>, any][] = [];
+
+        const addItem = (type: ItemType, id: string, codename: string, item: any, referencingData: any) => {
+            const preparedItem: IPreparedImportItem<any> = { type, codename, item, deps: [] };
+
+            keysById.set(id, this.getKey(type, codename));
+            itemsWithReferences.push([preparedItem, referencingData]);
+
+            return preparedItem;
+        };
+
+        for (const taxonomy of data.taxonomies) {
+            const preparedItem = addItem('taxonomy', taxonomy.id, taxonomy.codename, taxonomy, undefined);
+
+            // terms are referenced by language variants
+            for (const termId of this.getReferencedIds(taxonomy.terms)) {
+                keysById.set(termId, this.getKey(preparedItem.type, preparedItem.codename));
+            }
+        }
+
+        for (const snippet of data.contentTypeSnippets) {
+            addItem('contentTypeSnippet', snippet.id, snippet.codename, snippet, snippet.elements);
+        }
+
+        for (const contentType of data.contentTypes) {
+            addItem('contentType', contentType.id, contentType.codename, contentType, contentType.elements);
+        }
+
+        for (const [folder, parentFolder] of this.flattenAssetFolders(source.assetFolders)) {
+            addItem('assetFolder', folder.id, folder.id, folder, parentFolder ? { id: parentFolder.id } : undefined);
+        }
+
+        for (const asset of data.assets) {
+            addItem('asset', asset.id, asset.id, asset, asset.folder);
+        }
+
+        // collections are imported before ordered objects, they are prepared only so that selection includes them
+        for (const collection of data.collections) {
+            addItem('collection', collection.id, collection.codename, collection, undefined);
+        }
+
+        for (const contentItem of data.contentItems) {
+            addItem('contentItem', contentItem.id, contentItem.codename, contentItem, [
+                contentItem.type,
+                contentItem.collection
+            ]);
+        }
+
+        const itemCodenames = new Map<string, string>(data.contentItems.map((m) => [m.id, m.codename]));
+        const languageCodenames = new Map<string, string>(data.languages.map((m) => [m.id, m.codename]));
+
+        for (const languageVariant of data.languageVariants) {
+            const itemId = languageVariant.item.id ?? '';
+            const languageId = languageVariant.language.id ?? '';
+            const itemCodename = itemCodenames.get(itemId) ?? itemId;
+            const languageCodename = languageCodenames.get(languageId) ?? languageId;
+
+            itemsWithReferences.push([
+                {
+                    type: 'languageVariant',
+                    codename: `${itemCodename}:${languageCodename}`,
+                    item: languageVariant,
+                    deps: []
+                },
+                [languageVariant.item, languageVariant.elements]
+            ]);
+        }
+
+        for (const [preparedItem, referencingData] of itemsWithReferences) {
+            const ownKey = this.getKey(preparedItem.type, preparedItem.codename);
+            const deps = new Set<string>();
+
+            for (const referencedId of this.getReferencedIds(referencingData)) {
+                const key = keysById.get(referencedId);
+
+                if (key && key !== ownKey && this.isAllowedDependency(preparedItem.type, key)) {
+                    deps.add(key);
+                }
+            }
+
+            preparedItem.deps = [...deps];
+        }
+
+        return itemsWithReferences.map((m) => m[0]);
+    }
+
+    /**
+     * Gets keys of given items & all items they depend on. Language variants of included content items are
+     * included as well together with their dependencies.
+     */
+    getDependencyClosure(preparedItems: IPreparedImportItem<any>[], keys: string[]): Set<string> {
+        const itemsByKey = new Map<string, IPreparedImportItem<any>>();
+        const languageVariantKeysByItemKey = new Map<string, string[]>();
+
+        for (const preparedItem of preparedItems) {
+            itemsByKey.set(this.getKey(preparedItem.type, preparedItem.codename), preparedItem);
+
+            if (preparedItem.type === 'languageVariant') {
+                // codename of language variant starts with codename of its content item
+                const contentItemKey = this.getKey(
+                    'contentItem',
+                    preparedItem.codename.substring(0, preparedItem.codename.lastIndexOf(':'))
+                );
+
+                languageVariantKeysByItemKey.set(contentItemKey, [
+                    ...(languageVariantKeysByItemKey.get(contentItemKey) ?? []),
+                    this.getKey(preparedItem.type, preparedItem.codename)
+                ]);
+            }
+        }
+
+        const closure = new Set<string>();
+        const keysToProcess = [...keys];
+
+        while (keysToProcess.length) {
+            const key = keysToProcess.pop() as string;
+            const preparedItem = itemsByKey.get(key);
+
+            if (closure.has(key) || !preparedItem) {
+                continue;
+            }
+
+            closure.add(key);
+            keysToProcess.push(...preparedItem.deps, ...(languageVariantKeysByItemKey.get(key) ?? []));
+        }
+
+        return closure;
+    }
+
+    /**
+     * Sorts items topologically so that every item comes after items it depends on. Dependencies on items
+     * that are not given (e.g. objects excluded from import) are ignored. Fails when items depend on each other in a cycle.
+     */
+    getOrderedImportItems(preparedItems: IPreparedImportItem<any>[]): IPreparedImportItem<any>[] {
+        const itemsByKey = new Map<string, IPreparedImportItem<any>>(
+            preparedItems.map((m) => [this.getKey(m.type, m.codename), m])
+        );
+        const dependentKeysByKey = new Map<string, string[]>();
+        const remainingDepsCounts = new Map<string, number>();
+        const readyItems: IPreparedImportItem<any>[][] = this.importOrder.map(() => []);
+        const orderedItems: IPreparedImportItem<any>[] = [];
+
+        const addReadyItem = (preparedItem: IPreparedImportItem<any>) => {
+            const index = this.importOrder.indexOf(preparedItem.type);
+            readyItems[index >= 0 ? index : readyItems.length - 1].push(preparedItem);
+        };
+
+        for (const [key, preparedItem] of itemsByKey) {
+            const deps = preparedItem.deps.filter((m) => itemsByKey.has(m));
+
+            for (const dep of deps) {
+                const dependentKeys = dependentKeysByKey.get(dep) ?? [];
+                dependentKeys.push(key);
+                dependentKeysByKey.set(dep, dependentKeys);
+            }
+
+            remainingDepsCounts.set(key, deps.length);
+
+            if (!deps.length) {
+                addReadyItem(preparedItem);
+            }
+        }
+
+        // objects of the type that comes first in import order are always preferred
+        let readyItemsOfType = readyItems.find((m) => m.length);
+
+        while (readyItemsOfType) {
+            const preparedItem = readyItemsOfType.shift() as IPreparedImportItem<any>;
+            orderedItems.push(preparedItem);
+
+            for (const dependentKey of dependentKeysByKey.get(this.getKey(preparedItem.type, preparedItem.codename)) ??
+                []) {
+                const remainingDepsCount = (remainingDepsCounts.get(dependentKey) ?? 0) - 1;
+                remainingDepsCounts.set(dependentKey, remainingDepsCount);
+
+                if (remainingDepsCount === 0) {
+                    addReadyItem(itemsByKey.get(dependentKey) as IPreparedImportItem<any>);
+                }
+            }
+
+            readyItemsOfType = readyItems.find((m) => m.length);
+        }
+
+        if (orderedItems.length < itemsByKey.size) {
+            throw Error(
+                `Objects cannot be imported because they depend on each other in a cycle (each object depends on the next one): ${this.getCycle(
+                    itemsByKey,
+                    remainingDepsCounts
+                ).join(' -> ')}`
+            );
+        }
+
+        return orderedItems;
+    }
+
+    /**
+     * Key identifies prepared item among items of all types
+     */
+    getKey(type: ItemType, codename: string): string {
+        return `${type}:${codename}`;
+    }
+
+    private getTypeFromKey(key: string): ItemType {
+        return key.substring(0, key.indexOf(':')) as ItemType;
+    }
+
+    /**
+     * Finds cycle among items that could not be ordered. Each of such items depends on at least one other
+     * such item so following these dependencies always ends in a cycle.
+     */
+    private getCycle(
+        itemsByKey: Map<string, IPreparedImportItem<any>>,
+        remainingDepsCounts: Map<string, number>
+    ): string[] {
+        const isUnordered = (itemKey: string) => (remainingDepsCounts.get(itemKey) ?? 0) > 0;
+        const path: string[] = [];
+        let key = [...itemsByKey.keys()].find((m) => isUnordered(m));
+
+        while (key && !path.includes(key)) {
+            path.push(key);
+            key = itemsByKey.get(key)?.deps.find((m) => itemsByKey.has(m) && isUnordered(m));
+        }
+
+        return key ? [...path.slice(path.indexOf(key)), key] : path;
+    }
+
+    private isAllowedDependency(type: ItemType, dependencyKey: string): boolean {
+        return (this.allowedDependencies[type] ?? []).includes(this.getTypeFromKey(dependencyKey));
+    }
+
+    /**
+     * Gets all ids referenced in given data including items & assets referenced in rich text
+     */
+    private getReferencedIds(data: any, referencedIds: Set<string> = new Set<string>()): Set<string> {
+        if (typeof data === 'string') {
+            const regex = new RegExp(this.richTextReferenceRegex);
+            let match = regex.exec(data);
+
+            while (match) {
+                referencedIds.add(match[1]);
+                match = regex.exec(data);
+            }
+        } else if (Array.isArray(data)) {
+            for (const arrayItem of data) {
+                this.getReferencedIds(arrayItem, referencedIds);
+            }
+        } else if (data && typeof data === 'object') {
+            for (const key of Object.keys(data)) {
+                const value = data[key];
+
+                if (key === 'id' && typeof value === 'string') {
+                    referencedIds.add(value);
+                } else {
+                    this.getReferencedIds(value, referencedIds);
+                }
+            }
+        }
+
+        return referencedIds;
+    }
+
+    private flattenAssetFolders(
+        folders: AssetFolderContracts.IAssetFolderContract[],
+        parentFolder?: AssetFolderContracts.IAssetFolderContract
+    ): [AssetFolderContracts.IAssetFolderContract, AssetFolderContracts.IAssetFolderContract | undefined][] {
+        const flattenedFolders: [
+            AssetFolderContracts.IAssetFolderContract,
+            AssetFolderContracts.IAssetFolderContract | undefined
+        ][] = [];
+
+        for (const folder of folders) {
+            flattenedFolders.push([folder, parentFolder], ...this.flattenAssetFolders(folder.folders ?? [], folder));
+        }
+
+        return flattenedFolders;
+    }
+}
+
+export const importDependencyHelper = new ImportDependencyHelper();
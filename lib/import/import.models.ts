@@ -9,11 +9,55 @@ import {
     TaxonomyContracts,
     ProjectContracts,
     WorkflowContracts,
+    WebhookContracts,
+    CollectionContracts
 } from '@kentico/kontent-management';
 
-import { IProcessedItem, ItemType, IPackageMetadata } from '../core';
+import {
+    IProcessedItem,
+    ItemType,
+    IPackageMetadata,
+    ImportMode,
+    ActionType,
+    IImportIdMapping,
+    ErrorPolicy,
+    ILanguageVariantWithLifecycleContract,
+    IProcessingError
+} from '../core';
 
 export interface IImportConfig {
+    /**
+     * 'create' (default) creates all objects & expects target project to be empty.
+     * 'merge' matches existing objects by codename / external id and updates them instead of creating new ones.
+     */
+    importMode?: ImportMode;
+    /**
+     * Journal storing completed import steps & imported objects. Required when import is resumed.
+     */
+    journal?: IImportJournal;
+    /**
+     * When enabled, objects stored in journal are not imported again & their ids are used to translate references.
+     * Otherwise the journal is cleared when import starts.
+     */
+    resume?: boolean;
+    /**
+     * When set, only selected content items are imported together with all objects they depend on
+     * (content types, snippets, taxonomies, linked content items, assets & asset folders)
+     */
+    selection?: IImportSelection;
+    /**
+     * 'failFast' (default) stops import at the first error. 'continue' skips objects that could not be imported
+     * and imports remaining objects (objects referencing skipped objects are likely to fail as well).
+     */
+    errorPolicy?: ErrorPolicy;
+    /**
+     * When error policy is 'continue', import is stopped once number of errors reaches this number
+     */
+    maxErrors?: number;
+    /**
+     * When set, all imported language variants are moved to this workflow step. Otherwise language variants
+     * are moved to workflow steps they were in within source project (see 'onUnmappedWorkflowStep').
+     */
     workflowIdForImportedItems?: string;
     enablePublish: boolean
     baseUrl?: string;
@@ -22,6 +66,17 @@ export interface IImportConfig {
     enableLog: boolean;
     onUnsupportedBinaryFile?: (binaryFile: IBinaryFile) => void;
     onImport?: (item: IProcessedItem) => void;
+    onError?: (error: IProcessingError) => void;
+    /**
+     * Called for each language variant whose workflow step does not exist in target project. Such language
+     * variant stays in workflow step it was created in.
+     */
+    onUnmappedWorkflowStep?: (languageVariant: IUnmappedWorkflowStep) => void;
+    /**
+     * When enabled, imported webhooks are enabled. Disabled by default so that restored project (e.g. staging
+     * clone of production project) does not send notifications to services of source project.
+     */
+    enableWebhooks?: boolean;
     fixLanguages: boolean;
     process?: {
         taxonomy?: (item: TaxonomyContracts.ITaxonomyContract) => boolean | Promise<boolean>;
@@ -34,9 +89,26 @@ export interface IImportConfig {
         language?: (item: LanguageContracts.ILanguageModelContract) => boolean | Promise<boolean>;
         asset?: (item: AssetContracts.IAssetModelContract) => boolean | Promise<boolean>;
         assetFolder?: (item: AssetFolderContracts.IAssetFolderContract) => boolean | Promise<boolean>;
+        webhook?: (item: WebhookContracts.IWebhookContract) => boolean | Promise<boolean>;
+        collection?: (item: CollectionContracts.ICollectionContract) => boolean | Promise<boolean>;
     };
 }
 
+export interface IImportSelection {
+    /**
+     * Codenames of content items. '*' matches any number of characters (e.g. 'pricing_*').
+     */
+    contentItems?: string[];
+    /**
+     * Codenames of content types whose content items are imported. '*' matches any number of characters.
+     */
+    contentTypes?: string[];
+    /**
+     * Codenames of collections whose content items are imported. '*' matches any number of characters.
+     */
+    collections?: string[];
+}
+
 export interface IImportAllResult {
     metadata: {
         timestamp: Date;
@@ -44,15 +116,117 @@ export interface IImportAllResult {
     };
 }
 
+export type ImportStep =
+    | 'assetFolders'
+    | 'languages'
+    | 'collections'
+    | 'taxonomies'
+    | 'contentTypeSnippets'
+    | 'contentTypes'
+    | 'contentTypeReferences'
+    | 'assets'
+    | 'contentItems'
+    | 'languageVariants'
+    | 'publish'
+    | 'changeWorkflowStep'
+    | 'webhooks';
+
+export type ImportJournalEntry = IImportJournalPackageEntry | IImportJournalStepEntry | IImportJournalItemEntry;
+
+export interface IImportJournal {
+    loadAsync(): Promise<ImportJournalEntry[]>;
+    appendAsync(entry: ImportJournalEntry): Promise<void>;
+    clearAsync(): Promise<void>;
+}
+
+/**
+ * Identifies package the journal was created for so that it is not used to resume import of another package
+ */
+export interface IImportJournalPackageEntry {
+    kind: 'package';
+    projectId: string;
+    timestamp: Date;
+}
+
+export interface IImportJournalStepEntry {
+    kind: 'step';
+    step: ImportStep;
+}
+
+export interface IImportJournalItemEntry extends IImportIdMapping {
+    kind: 'item';
+    type: ActionType;
+    key: string;
+}
+
+export type ImportPlanAction = 'create' | 'update' | 'skip' | 'conflict';
+
+export interface IImportPlan {
+    metadata: {
+        timestamp: Date;
+        projectId: string;
+        importMode: ImportMode;
+    };
+    /**
+     * Language codenames that would be changed in target project to match source project
+     */
+    languageRenames: IImportPlanLanguageRename[];
+    items: IImportPlanItem[];
+}
+
+export interface IImportPlanItem {
+    type: ItemType;
+    title: string;
+    action: ImportPlanAction;
+    reason?: string;
+}
+
+export interface IImportPlanLanguageRename {
+    from: string;
+    to: string;
+}
+
+export interface IUnmappedWorkflowStep {
+    /**
+     * Codenames of content item & language separated by ':'
+     */
+    key: string;
+    title: string;
+    /**
+     * Name of workflow step language variant was in within source project (or its codename or id when
+     * workflow step is not included in source data)
+     */
+    workflowStep: string;
+}
+
+export interface IUnmappedWorkflowStepsReport {
+    metadata: {
+        timestamp: Date;
+        projectId: string;
+    };
+    languageVariants: IUnmappedWorkflowStep[];
+}
+
 export interface IPreparedImportItem<TItem> {
     type: ItemType;
+    /**
+     * Codename of object. Assets & asset folders are identified by id and language variants by
+     * codenames of content item & language separated by ':'.
+     */
     codename: string;
     item: TItem;
+    /**
+     * Keys of prepared items this item depends on (see 'importDependencyHelper.getKey')
+     */
     deps: string[];
 }
 
 export interface IBinaryFile {
-    binaryData: any;
+    /**
+     * Reads binary data of asset. Binary data are read only when asset is imported so that binary files
+     * of all assets do not need to be kept in memory.
+     */
+    getBinaryDataAsync(): Promise<any>;
     asset: AssetContracts.IAssetModelContract;
 }
 
@@ -62,10 +236,12 @@ export interface IImportSource {
         contentTypeSnippets: ContentTypeSnippetContracts.IContentTypeSnippetContract[];
         contentTypes: ContentTypeContracts.IContentTypeContract[];
         contentItems: ContentItemContracts.IContentItemModelContract[];
-        languageVariants: LanguageVariantContracts.ILanguageVariantModelContract[];
+        languageVariants: ILanguageVariantWithLifecycleContract[];
         languages: LanguageContracts.ILanguageModelContract[];
         assets: AssetContracts.IAssetModelContract[];
         workflowSteps: WorkflowContracts.IWorkflowStepContract[];
+        webhooks: WebhookContracts.IWebhookContract[];
+        collections: CollectionContracts.ICollectionContract[];
     };
     metadata: IPackageMetadata;
     validation: ProjectContracts.IProjectReportResponseContract;
@@ -3,11 +3,16 @@ import {
     AssetFolderContracts,
     AssetFolderModels,
     AssetModels,
+    AssetResponses,
+    CollectionContracts,
+    CollectionModels,
     ContentItemContracts,
     ContentItemModels,
     ContentTypeContracts,
     ContentTypeModels,
     ContentTypeSnippetContracts,
+    ContentTypeSnippetModels,
+    ElementContracts,
     LanguageContracts,
     LanguageModels,
     LanguageVariantContracts,
@@ -16,24 +21,75 @@ import {
     SharedModels,
     TaxonomyContracts,
     TaxonomyModels,
+    WebhookContracts,
+    WebhookModels,
     WorkflowContracts
 } from '@kentico/kontent-management';
-import { version, name } from '../../package.json';
 
 import {
+    cryptoHelper,
+    getWildcardRegex,
+    hashHelper,
     idTranslateHelper,
+    IImportIdMapping,
     IImportItemResult,
+    ILanguageVariantWithLifecycleContract,
     ActionType,
+    ImportItemState,
+    IProcessingError,
+    ItemType,
+    LanguageVariantState,
+    packageMigrationHelper,
+    processingErrorHelper,
+    ProcessingOperation,
     translationHelper,
     ValidImportContract,
-    ValidImportModel
+    ValidImportModel,
+    workflowStepHelper
 } from '../core';
-import { IBinaryFile, IImportConfig, IImportSource } from './import.models';
+import { contentTypeReferenceHelper } from './content-type-reference-helper';
+import { importDependencyHelper } from './import-dependency-helper';
+import {
+    IBinaryFile,
+    IImportConfig,
+    IImportData,
+    IImportJournalPackageEntry,
+    IImportPlan,
+    IImportPlanItem,
+    IImportPlanLanguageRename,
+    IImportSelection,
+    IImportSource,
+    ImportJournalEntry,
+    ImportStep,
+    IPreparedImportItem,
+    IUnmappedWorkflowStep
+} from './import.models';
+import { languageVariantImportHelper } from './language-variant-import-helper';
 
 export class ImportService {
     private readonly defaultLanguageId: string = '00000000-0000-0000-0000-000000000000';
     private readonly client: ManagementClient;
-    private readonly publishedWorkflowStepName: string = 'Published';
+
+    /**
+     * Language variants in these states are published (or scheduled) instead of being moved to their workflow step
+     */
+    private readonly publishedLanguageVariantStates: LanguageVariantState[] = [
+        'published',
+        'scheduledPublish',
+        'scheduledUnpublish'
+    ];
+
+    /**
+     * Import steps of objects imported in order given by their dependencies
+     */
+    private readonly importStepsOfOrderedItems: { [type: string]: ImportStep } = {
+        assetFolder: 'assetFolders',
+        taxonomy: 'taxonomies',
+        contentTypeSnippet: 'contentTypeSnippets',
+        contentType: 'contentTypes',
+        asset: 'assets',
+        contentItem: 'contentItems'
+    };
 
     /**
      * Maximum allowed size of asset in Bytes.
@@ -41,6 +97,11 @@ export class ImportService {
      */
     private readonly maxAllowedAssetSizeInBytes: number = 1e8;
 
+    private completedSteps: Set<ImportStep> = new Set<ImportStep>();
+    private journaledItems: Set<string> = new Set<string>();
+    private journaledIdMappings: IImportIdMapping[] = [];
+    private errorsCount: number = 0;
+
     constructor(private config: IImportConfig) {
         this.client = new ManagementClient({
             apiKey: config.apiKey,
@@ -65,140 +126,480 @@ export class ImportService {
         sourceData: IImportSource
     ): Promise<IImportItemResult<ValidImportContract, ValidImportModel>[]> {
         const importedItems: IImportItemResult<ValidImportContract, ValidImportModel>[] = [];
-        // log information regarding version mismatch
-        if (version !== sourceData.metadata.version) {
-            console.warn(
-                `WARNING: Version mismatch. Current version of '${name}' is '${version}', but package was created in version '${sourceData.metadata.version}'.`
-            );
-            console.warn(
-                `Import may still succeed, but if it doesn't, please try using '${sourceData.metadata.version}' version of this library. `
-            );
-        }
-
-        if (this.config.enableLog) {
-            console.log(`Translating object ids to codenames`);
-        }
-
-        // translate ids to codenames for certain objects types
-        this.translateIds(sourceData);
-
-        if (this.config.enableLog) {
-            console.log(`Removing skipped items`);
-        }
+        const { importData } = this.prepareSourceData(sourceData);
+        this.errorsCount = 0;
 
-        // this is an optional step where users can exclude certain objects from being
-        // imported via import configuration.
-        this.removeSkippedItemsFromImport(sourceData);
+        await this.loadJournalAsync(sourceData);
 
         if (this.config.enableLog) {
             console.log(`Importing data`);
         }
 
-        // import order matters
-
-        // ### Asset folders
-        if (sourceData.assetFolders.length) {
-            const importedAssetFolders = await this.importAssetFoldersAsync(sourceData.assetFolders);
-            importedItems.push(...importedAssetFolders);
-        } else {
-            if (this.config.enableLog) {
-                console.log(`Skipping asset folders`);
-            }
-        }
-
         // ### Languages
         if (sourceData.importData.languages.length) {
-            const importedLanguages = await this.importLanguagesAsync(sourceData.importData.languages);
-            importedItems.push(...importedLanguages);
+            await this.importStepAsync('languages', async () => {
+                const importedLanguages = await this.importLanguagesAsync(sourceData.importData.languages);
+                importedItems.push(...importedLanguages);
+            });
         } else {
             if (this.config.enableLog) {
                 console.log(`Skipping languages`);
             }
         }
 
-        // ### Taxonomies
-        if (sourceData.importData.taxonomies.length) {
-            const importedTaxonomies = await this.importTaxonomiesAsync(sourceData.importData.taxonomies);
-            importedItems.push(...importedTaxonomies);
+        // ### Collections
+        if (sourceData.importData.collections.length) {
+            await this.importStepAsync('collections', async () => {
+                const importedCollections = await this.importCollectionsAsync(sourceData.importData.collections);
+                importedItems.push(...importedCollections);
+            });
         } else {
             if (this.config.enableLog) {
-                console.log(`Skipping taxonomies`);
+                console.log(`Skipping collections`);
             }
         }
 
-        // ### Content types & snippets
-        if (sourceData.importData.contentTypeSnippets.length) {
-            await this.importContentTypeSnippetsAsync(sourceData.importData.contentTypeSnippets);
+        // ### Asset folders, taxonomies, content types & snippets, assets and content items
+        await this.importOrderedItemsAsync(sourceData, importData, importedItems);
+
+        // ### Content types allowed in elements of content types & snippets
+        const itemsWithContentTypeReferences = importData.orderedImportItems.filter(
+            (m) =>
+                (m.type === 'contentType' || m.type === 'contentTypeSnippet') &&
+                m.item.elements.some((element: ElementContracts.IContentTypeElementContract) =>
+                    contentTypeReferenceHelper.hasContentTypeReferences(element)
+                )
+        );
+
+        if (itemsWithContentTypeReferences.length) {
+            await this.importStepAsync('contentTypeReferences', async () => {
+                await this.importContentTypeReferencesAsync(
+                    itemsWithContentTypeReferences,
+                    this.getIdMappings(importedItems)
+                );
+            });
         } else {
             if (this.config.enableLog) {
-                console.log(`Skipping content type snippets`);
+                console.log(`Skipping content type references`);
             }
         }
 
-        if (sourceData.importData.contentTypes.length) {
-            await this.importContentTypesAsync(sourceData.importData.contentTypes);
-        } else {
-            if (this.config.enableLog) {
-                console.log(`Skipping content types`);
+        // ### Language variants
+        if (sourceData.importData.languageVariants) {
+            let importedLanguageVariants: IImportItemResult<
+                LanguageVariantContracts.ILanguageVariantModelContract,
+                LanguageVariantModels.ContentItemLanguageVariant
+            >[] = [];
+
+            await this.importStepAsync('languageVariants', async () => {
+                importedLanguageVariants = await this.importLanguageVariantsAsync(
+                    sourceData.importData.languageVariants,
+                    sourceData.importData.workflowSteps,
+                    this.getIdMappings(importedItems)
+                );
+                importedItems.push(...importedLanguageVariants);
+            });
+
+            if (this.config.enablePublish) {
+                await this.importStepAsync('publish', async () => {
+                    await this.publishLanguageVariantsAsync(
+                        sourceData.importData.languageVariants,
+                        sourceData.importData.workflowSteps,
+                        importedLanguageVariants
+                    );
+                });
             }
-        }
 
-        // ### Assets
-        if (sourceData.importData.assets.length) {
-            const importedAssets = await this.importAssetsAsync(
-                sourceData.importData.assets,
-                sourceData.binaryFiles,
-                importedItems
-            );
-            importedItems.push(...importedAssets);
+            const workflowIdForImportedItems = this.config.workflowIdForImportedItems;
+            if (workflowIdForImportedItems) {
+                await this.importStepAsync('changeWorkflowStep', async () => {
+                    await this.moveLanguageVariantsToCustomWorkflowStepAsync(
+                        workflowIdForImportedItems,
+                        sourceData.importData.languageVariants,
+                        importedLanguageVariants
+                    );
+                });
+            } else {
+                await this.importStepAsync('changeWorkflowStep', async () => {
+                    await this.restoreWorkflowStepsOfLanguageVariantsAsync(
+                        sourceData.importData.languageVariants,
+                        sourceData.importData.workflowSteps,
+                        importedLanguageVariants
+                    );
+                });
+            }
         } else {
             if (this.config.enableLog) {
-                console.log(`Skipping assets`);
+                console.log(`Skipping language variants`);
             }
         }
 
-        // ### Content items
-        if (sourceData.importData.contentItems.length) {
-            const importedContentItems = await this.importContentItemAsync(sourceData.importData.contentItems);
-            importedItems.push(...importedContentItems);
+        // ### Webhooks are imported last so that they are not notified about imported content
+        if (sourceData.importData.webhooks.length) {
+            await this.importStepAsync('webhooks', async () => {
+                const importedWebhooks = await this.importWebhooksAsync(
+                    sourceData.importData.webhooks,
+                    sourceData.importData.workflowSteps
+                );
+                importedItems.push(...importedWebhooks);
+            });
         } else {
             if (this.config.enableLog) {
-                console.log(`Skipping content items`);
+                console.log(`Skipping webhooks`);
             }
         }
 
-        // ### Language variants
-        if (sourceData.importData.languageVariants) {
-            const importedLanguageVariants = await this.importLanguageVariantsAsync(
-                sourceData.importData.languageVariants,
-                importedItems
-            );
-            importedItems.push(...importedLanguageVariants);
+        if (this.config.enableLog) {
+            console.log(`Finished importing data`);
+        }
 
-            if (this.config.enablePublish) {
-                await this.publishLanguageVariantsAsync(
-                    sourceData.importData.languageVariants,
-                    sourceData.importData.workflowSteps
-                );
+        return importedItems;
+    }
+
+    /**
+     * Imports objects in order given by their dependencies. Consecutive objects of the same type are imported
+     * together and import step of given type is completed once its last object is imported.
+     */
+    private async importOrderedItemsAsync(
+        sourceData: IImportSource,
+        importData: IImportData,
+        importedItems: IImportItemResult<ValidImportContract, ValidImportModel>[]
+    ): Promise<void> {
+        const batches: IPreparedImportItem<any>[][] = [];
+        const remainingBatchesCounts = new Map<ItemType, number>();
+
+        for (const preparedItem of importData.orderedImportItems) {
+            const lastBatch = batches.length ? batches[batches.length - 1] : undefined;
+
+            if (lastBatch && lastBatch[0].type === preparedItem.type) {
+                lastBatch.push(preparedItem);
+                continue;
+            }
+
+            batches.push([preparedItem]);
+            remainingBatchesCounts.set(preparedItem.type, (remainingBatchesCounts.get(preparedItem.type) ?? 0) + 1);
+        }
+
+        for (const type of Object.keys(this.importStepsOfOrderedItems) as ItemType[]) {
+            if (!remainingBatchesCounts.has(type) && this.config.enableLog) {
+                console.log(`Skipping ${this.importStepsOfOrderedItems[type]}`);
             }
+        }
 
-            if (this.config.workflowIdForImportedItems) {
-                await this.moveLanguageVariantsToCustomWorkflowStepAsync(
-                    this.config.workflowIdForImportedItems,
-                    sourceData.importData.languageVariants
+        for (const batch of batches) {
+            const type = batch[0].type;
+            const step = this.importStepsOfOrderedItems[type] as ImportStep;
+            const remainingBatchesCount = (remainingBatchesCounts.get(type) ?? 0) - 1;
+            const importBatch = async () => {
+                importedItems.push(
+                    ...(await this.importItemsOfTypeAsync(
+                        type,
+                        batch.map((m) => m.item),
+                        sourceData,
+                        importedItems
+                    ))
                 );
+            };
+
+            remainingBatchesCounts.set(type, remainingBatchesCount);
+
+            if (remainingBatchesCount === 0) {
+                await this.importStepAsync(step, importBatch);
+            } else if (!this.completedSteps.has(step)) {
+                await importBatch();
             }
-        } else {
-            if (this.config.enableLog) {
-                console.log(`Skipping language variants`);
+        }
+    }
+
+    private async importItemsOfTypeAsync(
+        type: ItemType,
+        items: any[],
+        sourceData: IImportSource,
+        importedItems: IImportItemResult<ValidImportContract, ValidImportModel>[]
+    ): Promise<IImportItemResult<ValidImportContract, ValidImportModel>[]> {
+        if (type === 'assetFolder') {
+            // asset folders depend only on their parent folders so all of them are imported together
+            const importedAssetFolders = await this.importAssetFoldersAsync(sourceData.assetFolders);
+
+            // folders are imported in a single request so they are journaled once all of them are created
+            for (const importedAssetFolder of importedAssetFolders) {
+                await this.appendJournalItemAsync('assetFolder', importedAssetFolder.original.id, importedAssetFolder);
             }
+
+            return importedAssetFolders;
+        }
+
+        if (type === 'taxonomy') {
+            return await this.importTaxonomiesAsync(items);
         }
 
+        if (type === 'contentTypeSnippet') {
+            return await this.importContentTypeSnippetsAsync(items, this.getIdMappings(importedItems));
+        }
+
+        if (type === 'contentType') {
+            return await this.importContentTypesAsync(items, this.getIdMappings(importedItems));
+        }
+
+        if (type === 'asset') {
+            return await this.importAssetsAsync(items, sourceData.binaryFiles, this.getIdMappings(importedItems));
+        }
+
+        if (type === 'contentItem') {
+            return await this.importContentItemAsync(items);
+        }
+
+        throw Error(`Unsupported type of ordered import item '${type}'`);
+    }
+
+    /**
+     * Compares source data with current state of target project and returns what import would do.
+     * No changes are made to target project.
+     */
+    public async getImportPlanAsync(sourceData: IImportSource): Promise<IImportPlan> {
+        const { unfilteredSourceData } = this.prepareSourceData(sourceData);
+
         if (this.config.enableLog) {
-            console.log(`Finished importing data`);
+            console.log(`Preparing import plan`);
         }
 
-        return importedItems;
+        const planItems: IImportPlanItem[] = this.getSkippedPlanItems(unfilteredSourceData, sourceData);
+        const languagesPlan = await this.getLanguagesPlanAsync(sourceData.importData.languages);
+        planItems.push(...languagesPlan.items);
+
+        const existingCollections = (await this.client.listCollections().toPromise()).data.collections;
+        for (const collection of sourceData.importData.collections) {
+            const existingCollection = existingCollections.find((m) => m.codename === collection.codename);
+            // existing collections are used in both import modes
+            planItems.push(
+                existingCollection
+                    ? {
+                          type: 'collection',
+                          title: collection.codename,
+                          action: 'skip',
+                          reason: `Collection with the same codename already exists`
+                      }
+                    : { type: 'collection', title: collection.codename, action: 'create' }
+            );
+        }
+
+        const existingAssetFolders = (await this.client.listAssetFolders().toPromise()).data.items;
+        this.addAssetFolderPlanItems(sourceData.assetFolders, existingAssetFolders, planItems);
+
+        const existingTaxonomies = (await this.client.listTaxonomies().toPromise()).data.taxonomies.map((m) => m._raw);
+        for (const taxonomy of sourceData.importData.taxonomies) {
+            const existingTaxonomy = this.findExistingObject(existingTaxonomies, taxonomy);
+            planItems.push(
+                this.getPlanItem(
+                    'taxonomy',
+                    taxonomy.codename,
+                    existingTaxonomy,
+                    (existing) => this.getTaxonomyMergeOperations(taxonomy, existing).length > 0
+                )
+            );
+        }
+
+        const existingContentTypeSnippets = (await this.client.listContentTypeSnippets().toAllPromise()).data.items.map(
+            (m) => m._raw
+        );
+        for (const contentTypeSnippet of sourceData.importData.contentTypeSnippets) {
+            const existingContentTypeSnippet = this.findExistingObject(existingContentTypeSnippets, contentTypeSnippet);
+            planItems.push(
+                this.getPlanItem(
+                    'contentTypeSnippet',
+                    contentTypeSnippet.codename,
+                    existingContentTypeSnippet,
+                    (existing) => this.getContentTypeSnippetMergeOperations(contentTypeSnippet, existing).length > 0
+                )
+            );
+        }
+
+        const existingContentTypes = (await this.client.listContentTypes().toAllPromise()).data.items.map(
+            (m) => m._raw
+        );
+        for (const contentType of sourceData.importData.contentTypes) {
+            const existingContentType = this.findExistingObject(existingContentTypes, contentType);
+            planItems.push(
+                this.getPlanItem(
+                    'contentType',
+                    contentType.codename,
+                    existingContentType,
+                    (existing) => this.getContentTypeMergeOperations(contentType, existing).length > 0
+                )
+            );
+        }
+
+        const existingAssets = (await this.client.listAssets().toAllPromise()).data.items;
+        for (const asset of sourceData.importData.assets) {
+            const existingAsset = existingAssets.find(
+                (m) =>
+                    m.id === asset.id ||
+                    (m.externalId &&
+                        m.externalId === (this.isMergeMode() ? this.getAssetExternalId(asset) : asset.external_id))
+            );
+            planItems.push(
+                this.getPlanItem(
+                    'asset',
+                    asset.file_name,
+                    existingAsset,
+                    (existing) =>
+                        this.isAssetBinaryFileChanged(asset, existing) || this.isAssetMetadataChanged(asset, existing)
+                )
+            );
+        }
+
+        const existingContentItems = (await this.client.listContentItems().toAllPromise()).data.items.map(
+            (m) => m._raw
+        );
+        const contentItemPlanItems: IImportPlanItem[] = [];
+        for (const contentItem of sourceData.importData.contentItems) {
+            const existingContentItem = this.findExistingObject(existingContentItems, contentItem);
+            const collection = existingCollections.find((m) => m.codename === contentItem.collection?.codename);
+            contentItemPlanItems.push(
+                this.getPlanItem(
+                    'contentItem',
+                    contentItem.codename,
+                    existingContentItem,
+                    (existing) =>
+                        existing.name !== contentItem.name || (!!collection && existing.collection.id !== collection.id)
+                )
+            );
+        }
+        planItems.push(...contentItemPlanItems);
+
+        const contentItemPlanItemsMap = new Map<string, IImportPlanItem>(contentItemPlanItems.map((m) => [m.title, m]));
+        const existingContentItemCodenames = new Set<string>(existingContentItems.map((m) => m.codename));
+        const targetWorkflowSteps = this.isMergeMode()
+            ? (await this.client.listWorkflowSteps().toPromise()).data.map((m) => m._raw)
+            : [];
+        const workflowStepsMapping = workflowStepHelper.getWorkflowStepsMapping(
+            sourceData.importData.workflowSteps,
+            targetWorkflowSteps
+        );
+
+        for (const languageVariant of sourceData.importData.languageVariants) {
+            planItems.push(
+                await this.getLanguageVariantPlanItemAsync(
+                    languageVariant,
+                    contentItemPlanItemsMap,
+                    existingContentItemCodenames,
+                    sourceData.importData.workflowSteps,
+                    workflowStepsMapping
+                )
+            );
+        }
+
+        // webhooks are matched by name only in merge mode, names of webhooks do not have to be unique
+        const existingWebhooks = this.isMergeMode() ? (await this.client.listWebhooks().toPromise()).data.webhooks : [];
+        for (const webhook of sourceData.importData.webhooks) {
+            const existingWebhook = existingWebhooks.find((m) => m.name === webhook.name);
+            planItems.push(
+                existingWebhook
+                    ? {
+                          type: 'webhook',
+                          title: webhook.name,
+                          action: 'skip',
+                          reason: `Webhook with the same name already exists`
+                      }
+                    : { type: 'webhook', title: webhook.name, action: 'create' }
+            );
+        }
+
+        return {
+            metadata: {
+                timestamp: new Date(),
+                projectId: this.config.projectId,
+                importMode: this.config.importMode ?? 'create'
+            },
+            languageRenames: languagesPlan.renames,
+            items: planItems
+        };
+    }
+
+    /**
+     * Translates ids & removes objects excluded by import configuration. Returns copy of source data
+     * as it was before objects were excluded.
+     */
+    private prepareSourceData(sourceData: IImportSource): {
+        unfilteredSourceData: IImportSource;
+        importData: IImportData;
+    } {
+        // packages read by zip service are already migrated to current format version
+        const formatVersion = sourceData.metadata.formatVersion;
+        if (formatVersion !== undefined && formatVersion !== packageMigrationHelper.currentFormatVersion) {
+            throw Error(
+                `Package format version '${formatVersion}' is not supported. Current format version is '${packageMigrationHelper.currentFormatVersion}'. Please read package using 'ZipService' which migrates packages to current format.`
+            );
+        }
+
+        // dependencies are resolved using original ids
+        const preparedItems = importDependencyHelper.getPreparedImportItems(sourceData);
+        const selectedKeys = this.config.selection
+            ? this.getSelectedKeys(sourceData, preparedItems, this.config.selection)
+            : undefined;
+
+        if (this.config.enableLog) {
+            console.log(`Translating object ids to codenames`);
+        }
+
+        // translate ids to codenames for certain objects types
+        this.translateIds(sourceData);
+
+        this.removeAssetsWithoutBinaryFiles(sourceData);
+
+        if (this.config.enableLog) {
+            console.log(`Removing skipped items`);
+        }
+
+        const unfilteredSourceData: IImportSource = {
+            ...sourceData,
+            importData: { ...sourceData.importData }
+        };
+
+        if (selectedKeys) {
+            this.removeUnselectedObjects(sourceData, selectedKeys);
+        }
+
+        // this is an optional step where users can exclude certain objects from being
+        // imported via import configuration.
+        this.removeSkippedItemsFromImport(sourceData);
+
+        return {
+            unfilteredSourceData,
+            importData: {
+                orderedImportItems: this.getOrderedImportItems(sourceData, preparedItems),
+                assetFolders: sourceData.assetFolders,
+                binaryFiles: sourceData.binaryFiles
+            }
+        };
+    }
+
+    /**
+     * Gets objects remaining in import source ordered by their dependencies. Language variants are not included
+     * because they are imported once all objects they may depend on are imported.
+     */
+    private getOrderedImportItems(
+        source: IImportSource,
+        preparedItems: IPreparedImportItem<any>[]
+    ): IPreparedImportItem<any>[] {
+        const assetFolders: AssetFolderContracts.IAssetFolderContract[] = [];
+        this.flattenAssetFolderContracts(source.assetFolders, assetFolders);
+
+        // asset folders are copied when unselected folders are removed so they are identified by id
+        const assetFolderIds = new Set<string>(assetFolders.map((m) => m.id));
+        const remainingObjects = new Set<any>([
+            ...source.importData.taxonomies,
+            ...source.importData.contentTypeSnippets,
+            ...source.importData.contentTypes,
+            ...source.importData.assets,
+            ...source.importData.contentItems
+        ]);
+
+        return importDependencyHelper.getOrderedImportItems(
+            preparedItems.filter((m) =>
+                m.type === 'assetFolder' ? assetFolderIds.has(m.codename) : remainingObjects.has(m.item)
+            )
+        );
     }
 
     private translateIds(source: IImportSource): void {
@@ -207,6 +608,8 @@ export class ImportService {
         translationHelper.replaceIdReferencesWithExternalId(source.importData.contentTypeSnippets);
         translationHelper.replaceIdReferencesWithExternalId(source.importData.contentTypes);
 
+        this.translateCollectionReferences(source);
+
         // in following objects replace id references with codename
         translationHelper.replaceIdReferencesWithCodenames(source.importData.languages, source.importData, {});
         translationHelper.replaceIdReferencesWithCodenames(source.importData.assets, source.importData, {});
@@ -215,6 +618,117 @@ export class ImportService {
         translationHelper.replaceIdReferencesWithCodenames(source.importData.workflowSteps, source.importData, {});
     }
 
+    /**
+     * Collections of content items are translated separately because id of default collection equals id of default
+     * language. References to collections missing in source data are removed so that default collection is used.
+     */
+    private translateCollectionReferences(source: IImportSource): void {
+        const collectionCodenames = new Map<string, string>(
+            source.importData.collections.map((m) => [m.id, m.codename])
+        );
+
+        for (const contentItem of source.importData.contentItems) {
+            const codename = collectionCodenames.get(contentItem.collection?.id ?? '');
+            contentItem.collection = codename ? { codename } : {};
+        }
+    }
+
+    /**
+     * Assets whose binary files could not be downloaded during export cannot be imported
+     */
+    private removeAssetsWithoutBinaryFiles(source: IImportSource): void {
+        const failedAssetDownloads = source.metadata.failedAssetDownloads ?? [];
+
+        if (!failedAssetDownloads.length) {
+            return;
+        }
+
+        const failedAssetIds = new Set<string>(failedAssetDownloads.map((m) => m.assetId));
+
+        for (const failedAssetDownload of failedAssetDownloads) {
+            console.warn(
+                `WARNING: Asset '${failedAssetDownload.filename}' (${failedAssetDownload.assetId}) is skipped because its binary file was not downloaded during export`
+            );
+        }
+
+        source.importData.assets = source.importData.assets.filter((m) => !failedAssetIds.has(m.id));
+    }
+
+    /**
+     * Gets keys of selected content items & all objects they depend on
+     */
+    private getSelectedKeys(
+        source: IImportSource,
+        preparedItems: IPreparedImportItem<any>[],
+        selection: IImportSelection
+    ): Set<string> {
+        const contentItemPatterns = (selection.contentItems ?? []).map((m) => getWildcardRegex(m));
+        const contentTypePatterns = (selection.contentTypes ?? []).map((m) => getWildcardRegex(m));
+        const collectionPatterns = (selection.collections ?? []).map((m) => getWildcardRegex(m));
+        const contentTypeCodenames = new Map<string, string>(
+            source.importData.contentTypes.map((m) => [m.id, m.codename])
+        );
+        const collectionCodenames = new Map<string, string>(
+            source.importData.collections.map((m) => [m.id, m.codename])
+        );
+
+        const selectedContentItems = source.importData.contentItems.filter(
+            (contentItem) =>
+                contentItemPatterns.some((m) => m.test(contentItem.codename)) ||
+                contentTypePatterns.some((m) => m.test(contentTypeCodenames.get(contentItem.type.id ?? '') ?? '')) ||
+                collectionPatterns.some((m) => m.test(collectionCodenames.get(contentItem.collection?.id ?? '') ?? ''))
+        );
+
+        if (!selectedContentItems.length) {
+            throw Error(`There are no content items matching given selection`);
+        }
+
+        const selectedKeys = importDependencyHelper.getDependencyClosure(
+            preparedItems,
+            selectedContentItems.map((m) => importDependencyHelper.getKey('contentItem', m.codename))
+        );
+
+        if (this.config.enableLog) {
+            console.log(
+                `Selected '${selectedContentItems.length}' content items. Including dependencies '${selectedKeys.size}' objects will be imported.`
+            );
+        }
+
+        return selectedKeys;
+    }
+
+    private removeUnselectedObjects(source: IImportSource, selectedKeys: Set<string>): void {
+        const isSelected = (type: ItemType, codename: string | undefined) =>
+            selectedKeys.has(importDependencyHelper.getKey(type, codename ?? ''));
+        const filterAssetFolders = (
+            assetFolders: AssetFolderContracts.IAssetFolderContract[]
+        ): AssetFolderContracts.IAssetFolderContract[] => {
+            return assetFolders
+                .filter((m) => isSelected('assetFolder', m.id))
+                .map((m) => {
+                    return {
+                        ...m,
+                        folders: filterAssetFolders(m.folders ?? [])
+                    };
+                });
+        };
+        const data = source.importData;
+
+        data.taxonomies = data.taxonomies.filter((m) => isSelected('taxonomy', m.codename));
+        data.contentTypeSnippets = data.contentTypeSnippets.filter((m) => isSelected('contentTypeSnippet', m.codename));
+        data.contentTypes = data.contentTypes.filter((m) => isSelected('contentType', m.codename));
+        data.assets = data.assets.filter((m) => isSelected('asset', m.id));
+        data.contentItems = data.contentItems.filter((m) => isSelected('contentItem', m.codename));
+        data.collections = data.collections.filter((m) => isSelected('collection', m.codename));
+        data.languageVariants = data.languageVariants.filter((m) =>
+            isSelected('languageVariant', `${m.item.codename}:${m.language.codename}`)
+        );
+        source.assetFolders = filterAssetFolders(source.assetFolders);
+
+        // only content is restored selectively
+        data.webhooks = [];
+    }
+
     private removeSkippedItemsFromImport(source: IImportSource): void {
         if (this.config.process && this.config.process.asset) {
             for (const item of source.importData.assets) {
@@ -291,52 +805,297 @@ export class ImportService {
                 }
             }
         }
-    }
-
-    private async fixLanguageAsync(
-        currentLanguages: LanguageModels.LanguageModel[],
-        importLanguage: LanguageContracts.ILanguageModelContract
-    ): Promise<void> {
-        // check if language with given codename already exists
-        const existingLanguage = currentLanguages.find((m) => m.codename === importLanguage.codename);
 
-        if (existingLanguage) {
-            // activate inactive languages
-            if (!existingLanguage.isActive) {
-                console.log(
-                    `Language '${existingLanguage.name}' with codename '${existingLanguage.codename}' is not active in target project. Activating language.`
-                );
+        if (this.config.process && this.config.process.collection) {
+            for (const item of source.importData.collections) {
+                const shouldImport = this.config.process.collection(item);
+                if (!shouldImport) {
+                    source.importData.collections = source.importData.collections.filter((m) => m.id !== item.id);
+                }
+            }
+        }
 
-                await this.client
-                    .modifyLanguage()
-                    .byLanguageCodename(existingLanguage.codename)
-                    .withData([
-                        {
-                            op: 'replace',
-                            property_name: 'is_active',
-                            value: true
-                        }
-                    ])
-                    .toPromise();
+        if (this.config.process && this.config.process.webhook) {
+            for (const item of source.importData.webhooks) {
+                const shouldImport = this.config.process.webhook(item);
+                if (!shouldImport) {
+                    source.importData.webhooks = source.importData.webhooks.filter((m) => m.id !== item.id);
+                }
             }
         }
+    }
 
-        // fix codename when source & target languages do not match
-        if (importLanguage.is_default) {
-            const defaultExistingLanguage = currentLanguages.find((m) => m.id === importLanguage.id);
+    private getPlanItem<TExisting>(
+        type: ItemType,
+        title: string,
+        existingObject: TExisting | undefined,
+        isChanged: (existingObject: TExisting) => boolean
+    ): IImportPlanItem {
+        if (!existingObject) {
+            return { type, title, action: 'create' };
+        }
 
-            if (!defaultExistingLanguage) {
-                throw Error(
-                    `Invalid default existing language. Language with id '${importLanguage.id}' was not found.`
-                );
-            }
-            if (importLanguage.codename !== defaultExistingLanguage.codename) {
-                // languages do not match, change it
-                console.log(
-                    `Default language '${importLanguage.name}' with codename '${importLanguage.codename}' does not match default language in target project. Changing language codename in target project from '${defaultExistingLanguage.codename}' codename to '${importLanguage.codename}'`
-                );
+        if (!this.isMergeMode()) {
+            return { type, title, action: 'conflict', reason: `Object already exists in target project` };
+        }
 
-                // check if language with imported codename exists
+        if (isChanged(existingObject)) {
+            return { type, title, action: 'update' };
+        }
+
+        return { type, title, action: 'skip', reason: `Object is unchanged` };
+    }
+
+    /**
+     * Language variants of existing content items are compared with their current version in merge mode
+     * the same way as when they are imported
+     */
+    private async getLanguageVariantPlanItemAsync(
+        languageVariant: ILanguageVariantWithLifecycleContract,
+        contentItemPlanItems: Map<string, IImportPlanItem>,
+        existingContentItemCodenames: Set<string>,
+        workflowSteps: WorkflowContracts.IWorkflowStepContract[],
+        workflowStepsMapping: Map<string, WorkflowContracts.IWorkflowStepContract>
+    ): Promise<IImportPlanItem> {
+        const itemCodename: string = languageVariant.item.codename ?? '';
+        const languageCodename: string = languageVariant.language.codename ?? '';
+        const title: string = `${itemCodename} (${languageCodename})`;
+        const contentItemPlanItem = contentItemPlanItems.get(itemCodename);
+
+        if (contentItemPlanItem?.action === 'conflict') {
+            return { type: 'languageVariant', title, action: 'conflict', reason: `Content item cannot be imported` };
+        }
+
+        if (contentItemPlanItem?.action === 'create') {
+            return { type: 'languageVariant', title, action: 'create' };
+        }
+
+        if (!existingContentItemCodenames.has(itemCodename)) {
+            return {
+                type: 'languageVariant',
+                title,
+                action: 'conflict',
+                reason: `Content item does not exist in target project`
+            };
+        }
+
+        // language variants are always upserted in create mode
+        if (!this.isMergeMode()) {
+            return { type: 'languageVariant', title, action: 'update' };
+        }
+
+        const existingLanguageVariant = await this.client
+            .viewLanguageVariant()
+            .byItemCodename(itemCodename)
+            .byLanguageCodename(languageCodename)
+            .toPromise()
+            .then((response) => response.data._raw)
+            .catch((error) => {
+                if (this.isNotFoundError(error)) {
+                    return undefined;
+                }
+                throw error;
+            });
+
+        if (!existingLanguageVariant) {
+            return { type: 'languageVariant', title, action: 'create' };
+        }
+
+        if (
+            languageVariantImportHelper.isLanguageVariantChanged(
+                languageVariant,
+                existingLanguageVariant,
+                languageVariantImportHelper.getTargetWorkflowStepId(
+                    languageVariant,
+                    workflowSteps,
+                    workflowStepsMapping,
+                    this.config.workflowIdForImportedItems
+                )
+            )
+        ) {
+            return { type: 'languageVariant', title, action: 'update' };
+        }
+
+        return { type: 'languageVariant', title, action: 'skip', reason: `Language variant is unchanged` };
+    }
+
+    private addAssetFolderPlanItems(
+        assetFolders: AssetFolderContracts.IAssetFolderContract[],
+        existingAssetFolders: AssetFolderModels.AssetFolder[],
+        planItems: IImportPlanItem[]
+    ): void {
+        for (const assetFolder of assetFolders) {
+            const existingAssetFolder =
+                existingAssetFolders.find((m) => m.externalId === assetFolder.id) ??
+                (this.isMergeMode() ? existingAssetFolders.find((m) => m.name === assetFolder.name) : undefined);
+
+            planItems.push(this.getPlanItem('assetFolder', assetFolder.name, existingAssetFolder, (existing) => false));
+            this.addAssetFolderPlanItems(assetFolder.folders, existingAssetFolder?.folders ?? [], planItems);
+        }
+    }
+
+    private async getLanguagesPlanAsync(
+        languages: LanguageContracts.ILanguageModelContract[]
+    ): Promise<{ items: IImportPlanItem[]; renames: IImportPlanLanguageRename[] }> {
+        const items: IImportPlanItem[] = [];
+        const renames: IImportPlanLanguageRename[] = [];
+        const currentLanguages = (await this.client.listLanguages().toAllPromise()).data.items.map((m) => {
+            return {
+                id: m.id,
+                codename: m.codename,
+                isActive: m.isActive
+            };
+        });
+
+        for (const language of languages) {
+            if (this.config.fixLanguages && language.is_default) {
+                // mirrors changes made by 'fixLanguageAsync'
+                const defaultExistingLanguage = currentLanguages.find((m) => m.id === language.id);
+
+                if (
+                    defaultExistingLanguage &&
+                    defaultExistingLanguage.codename !== language.codename &&
+                    !currentLanguages.find((m) => m.codename === language.codename)
+                ) {
+                    renames.push({ from: defaultExistingLanguage.codename, to: language.codename });
+                    defaultExistingLanguage.codename = language.codename;
+                }
+            }
+
+            const existingLanguage = currentLanguages.find((m) => m.codename === language.codename);
+
+            if (existingLanguage) {
+                if (this.config.fixLanguages && !existingLanguage.isActive) {
+                    items.push({
+                        type: 'language',
+                        title: language.codename,
+                        action: 'update',
+                        reason: `Language will be activated`
+                    });
+                } else {
+                    items.push({
+                        type: 'language',
+                        title: language.codename,
+                        action: 'skip',
+                        reason: `Language already exists`
+                    });
+                }
+                continue;
+            }
+
+            if (
+                language.id === this.defaultLanguageId &&
+                currentLanguages.find((m) => m.id === this.defaultLanguageId)
+            ) {
+                items.push({
+                    type: 'language',
+                    title: language.codename,
+                    action: 'conflict',
+                    reason: `Codename of default language does not match target project`
+                });
+                continue;
+            }
+
+            items.push({ type: 'language', title: language.codename, action: 'create' });
+        }
+
+        return {
+            items,
+            renames
+        };
+    }
+
+    private getSkippedPlanItems(unfilteredSourceData: IImportSource, sourceData: IImportSource): IImportPlanItem[] {
+        const getPlanItems = <T>(
+            type: ItemType,
+            unfilteredObjects: T[],
+            objects: T[],
+            getTitle: (object: T) => string
+        ): IImportPlanItem[] => {
+            const importedObjects = new Set<T>(objects);
+
+            return unfilteredObjects
+                .filter((m) => !importedObjects.has(m))
+                .map((m) => {
+                    return {
+                        type,
+                        title: getTitle(m),
+                        action: 'skip',
+                        reason: `Excluded by import configuration`
+                    };
+                });
+        };
+        const unfilteredData = unfilteredSourceData.importData;
+        const data = sourceData.importData;
+
+        return [
+            ...getPlanItems('assetFolder', unfilteredSourceData.assetFolders, sourceData.assetFolders, (m) => m.name),
+            ...getPlanItems('language', unfilteredData.languages, data.languages, (m) => m.codename),
+            ...getPlanItems('collection', unfilteredData.collections, data.collections, (m) => m.codename),
+            ...getPlanItems('taxonomy', unfilteredData.taxonomies, data.taxonomies, (m) => m.codename),
+            ...getPlanItems(
+                'contentTypeSnippet',
+                unfilteredData.contentTypeSnippets,
+                data.contentTypeSnippets,
+                (m) => m.codename
+            ),
+            ...getPlanItems('contentType', unfilteredData.contentTypes, data.contentTypes, (m) => m.codename),
+            ...getPlanItems('asset', unfilteredData.assets, data.assets, (m) => m.file_name),
+            ...getPlanItems('contentItem', unfilteredData.contentItems, data.contentItems, (m) => m.codename),
+            ...getPlanItems(
+                'languageVariant',
+                unfilteredData.languageVariants,
+                data.languageVariants,
+                (m) => `${m.item.codename} (${m.language.codename})`
+            ),
+            ...getPlanItems('webhook', unfilteredData.webhooks, data.webhooks, (m) => m.name)
+        ];
+    }
+
+    private async fixLanguageAsync(
+        currentLanguages: LanguageModels.LanguageModel[],
+        importLanguage: LanguageContracts.ILanguageModelContract
+    ): Promise<void> {
+        // check if language with given codename already exists
+        const existingLanguage = currentLanguages.find((m) => m.codename === importLanguage.codename);
+
+        if (existingLanguage) {
+            // activate inactive languages
+            if (!existingLanguage.isActive) {
+                console.log(
+                    `Language '${existingLanguage.name}' with codename '${existingLanguage.codename}' is not active in target project. Activating language.`
+                );
+
+                await this.client
+                    .modifyLanguage()
+                    .byLanguageCodename(existingLanguage.codename)
+                    .withData([
+                        {
+                            op: 'replace',
+                            property_name: 'is_active',
+                            value: true
+                        }
+                    ])
+                    .toPromise();
+            }
+        }
+
+        // fix codename when source & target languages do not match
+        if (importLanguage.is_default) {
+            const defaultExistingLanguage = currentLanguages.find((m) => m.id === importLanguage.id);
+
+            if (!defaultExistingLanguage) {
+                throw Error(
+                    `Invalid default existing language. Language with id '${importLanguage.id}' was not found.`
+                );
+            }
+            if (importLanguage.codename !== defaultExistingLanguage.codename) {
+                // languages do not match, change it
+                console.log(
+                    `Default language '${importLanguage.name}' with codename '${importLanguage.codename}' does not match default language in target project. Changing language codename in target project from '${defaultExistingLanguage.codename}' codename to '${importLanguage.codename}'`
+                );
+
+                // check if language with imported codename exists
                 if (!currentLanguages.find((m) => m.codename === importLanguage.codename)) {
                     // language with required codename does not exist, update it
                     await this.client
@@ -403,6 +1162,126 @@ export class ImportService {
         };
     }
 
+    /**
+     * Creates webhooks & disables them unless 'enableWebhooks' is set. Webhooks cannot be updated so existing
+     * webhooks (matched by name) are skipped in merge mode. Webhooks without exported secret get new secret.
+     */
+    private async importWebhooksAsync(
+        webhooks: WebhookContracts.IWebhookContract[],
+        workflowSteps: WorkflowContracts.IWorkflowStepContract[]
+    ): Promise<IImportItemResult<WebhookContracts.IWebhookContract, WebhookModels.Webhook>[]> {
+        const importedItems: IImportItemResult<WebhookContracts.IWebhookContract, WebhookModels.Webhook>[] = [];
+        const existingWebhooks = this.isMergeMode() ? (await this.client.listWebhooks().toPromise()).data.webhooks : [];
+        const targetWorkflowSteps = (await this.client.listWorkflowSteps().toPromise()).data.map((m) => m._raw);
+        const workflowStepsMapping = workflowStepHelper.getWorkflowStepsMapping(workflowSteps, targetWorkflowSteps);
+
+        for (const webhook of webhooks) {
+            if (this.isJournaledItem('webhook', webhook.name)) {
+                continue;
+            }
+
+            const existingWebhook = existingWebhooks.find((m) => m.name === webhook.name);
+
+            if (existingWebhook) {
+                await this.addImportedItemAsync(importedItems, 'webhook', webhook.name, {
+                    imported: existingWebhook,
+                    original: webhook,
+                    importId: existingWebhook.id,
+                    originalId: webhook.id,
+                    state: 'unchanged'
+                });
+                this.processItem(existingWebhook.name, 'webhook', existingWebhook, 'unchanged');
+                continue;
+            }
+
+            const importedWebhook = await this.client
+                .addWebhook()
+                .withData(this.getWebhookData(webhook, workflowStepsMapping))
+                .toPromise()
+                .then(async (response) => {
+                    await this.addImportedItemAsync(importedItems, 'webhook', webhook.name, {
+                        imported: response.data,
+                        original: webhook,
+                        importId: response.data.id,
+                        originalId: webhook.id,
+                        state: 'created'
+                    });
+                    this.processItem(response.data.name, 'webhook', response.data, 'created');
+
+                    return response.data;
+                })
+                .catch((error) =>
+                    this.handleImportError(error, { type: 'webhook', key: webhook.name, title: webhook.name }, 'create')
+                );
+
+            if (importedWebhook && !this.config.enableWebhooks) {
+                await this.client
+                    .disableWebhook()
+                    .byId(importedWebhook.id)
+                    .toPromise()
+                    .catch((error) =>
+                        this.handleImportError(
+                            error,
+                            { type: 'webhook', key: webhook.name, title: webhook.name },
+                            'update'
+                        )
+                    );
+            }
+        }
+
+        return importedItems;
+    }
+
+    /**
+     * Workflow steps in triggers of webhook are replaced with matching steps of target project. Triggers of
+     * workflow steps that do not exist in target project are removed.
+     */
+    private getWebhookData(
+        webhook: WebhookContracts.IWebhookContract,
+        workflowStepsMapping: Map<string, WorkflowContracts.IWorkflowStepContract>
+    ): WebhookModels.IAddWebhookData {
+        let secret: string = webhook.secret;
+
+        if (!secret) {
+            secret = this.getRandomWebhookSecret();
+            console.warn(
+                `WARNING: Secret of webhook '${webhook.name}' was not exported so new secret was generated. Update secret in service receiving notifications of this webhook.`
+            );
+        }
+
+        return {
+            name: webhook.name,
+            url: webhook.url,
+            secret,
+            triggers: {
+                delivery_api_content_changes: webhook.triggers.delivery_api_content_changes,
+                workflow_step_changes: webhook.triggers.workflow_step_changes.map((m) => {
+                    return {
+                        ...m,
+                        transitions_to: m.transitions_to
+                            .filter((transition) => {
+                                if (workflowStepsMapping.has(transition.id)) {
+                                    return true;
+                                }
+
+                                console.warn(
+                                    `WARNING: Workflow step '${transition.id}' is removed from triggers of webhook '${webhook.name}' because it does not exist in target project`
+                                );
+                                return false;
+                            })
+                            .map((transition) => {
+                                return { id: workflowStepsMapping.get(transition.id)?.id ?? transition.id };
+                            })
+                    };
+                })
+            }
+        };
+    }
+
+    private getRandomWebhookSecret(): string {
+        return hashHelper.toHex(cryptoHelper.getProvider().getRandomBytes(32));
+    }
+
     private async importLanguagesAsync(
         languages: LanguageContracts.ILanguageModelContract[]
     ): Promise<IImportItemResult<LanguageContracts.ILanguageModelContract, LanguageModels.LanguageModel>[]> {
@@ -415,6 +1294,10 @@ export class ImportService {
         let currentLanguagesResponse = await this.client.listLanguages().toAllPromise();
 
         for (const language of languages) {
+            if (this.isJournaledItem('language', language.codename)) {
+                continue;
+            }
+
             // fix language if necessary
             if (this.config.fixLanguages) {
                 await this.fixLanguageAsync(currentLanguagesResponse.data.items, language);
@@ -426,6 +1309,20 @@ export class ImportService {
             const processedLanguageData = this.tryGetLanguage(currentLanguagesResponse.data.items, language);
 
             if (processedLanguageData === 'noImport') {
+                const existingLanguage = currentLanguagesResponse.data.items.find(
+                    (m) => m.codename === language.codename
+                );
+
+                if (this.isMergeMode() && existingLanguage) {
+                    await this.addImportedItemAsync(importedItems, 'language', language.codename, {
+                        imported: existingLanguage,
+                        original: language,
+                        importId: existingLanguage.id,
+                        originalId: language.id,
+                        state: 'unchanged'
+                    });
+                    this.processItem(existingLanguage.name, 'language', existingLanguage, 'unchanged');
+                }
                 continue;
             }
 
@@ -433,16 +1330,95 @@ export class ImportService {
                 .addLanguage()
                 .withData(processedLanguageData)
                 .toPromise()
-                .then((response) => {
-                    importedItems.push({
+                .then(async (response) => {
+                    await this.addImportedItemAsync(importedItems, 'language', language.codename, {
                         imported: response.data,
                         original: language,
                         importId: response.data.id,
-                        originalId: language.id
+                        originalId: language.id,
+                        state: 'created'
                     });
-                    this.processItem(response.data.name, 'language', response.data);
+                    this.processItem(response.data.name, 'language', response.data, 'created');
                 })
-                .catch((error) => this.handleImportError(error));
+                .catch((error) =>
+                    this.handleImportError(
+                        error,
+                        { type: 'language', key: language.codename, title: language.name },
+                        'create'
+                    )
+                );
+        }
+
+        return importedItems;
+    }
+
+    /**
+     * Creates collections missing in target project. Collections are matched by codename in both import modes
+     * as every project contains at least the default collection.
+     */
+    private async importCollectionsAsync(
+        collections: CollectionContracts.ICollectionContract[]
+    ): Promise<IImportItemResult<CollectionContracts.ICollectionContract, CollectionModels.Collection>[]> {
+        const importedItems: IImportItemResult<CollectionContracts.ICollectionContract, CollectionModels.Collection>[] =
+            [];
+        const existingCollections = (await this.client.listCollections().toPromise()).data.collections;
+
+        for (const collection of collections) {
+            if (this.isJournaledItem('collection', collection.codename)) {
+                continue;
+            }
+
+            const existingCollection = existingCollections.find((m) => m.codename === collection.codename);
+
+            if (existingCollection) {
+                await this.addImportedItemAsync(importedItems, 'collection', collection.codename, {
+                    imported: existingCollection,
+                    original: collection,
+                    importId: existingCollection.id,
+                    originalId: collection.id,
+                    state: 'unchanged'
+                });
+                this.processItem(existingCollection.name, 'collection', existingCollection, 'unchanged');
+                continue;
+            }
+
+            await this.client
+                .setCollections()
+                .withData([
+                    {
+                        op: 'addInto',
+                        value: {
+                            name: collection.name,
+                            codename: collection.codename
+                        }
+                    }
+                ])
+                .toPromise()
+                .then(async (response) => {
+                    const importedCollection = response.data.collections.find(
+                        (m) => m.codename === collection.codename
+                    );
+
+                    if (!importedCollection) {
+                        throw Error(`Created collection '${collection.codename}' was not found in response`);
+                    }
+
+                    await this.addImportedItemAsync(importedItems, 'collection', collection.codename, {
+                        imported: importedCollection,
+                        original: collection,
+                        importId: importedCollection.id,
+                        originalId: collection.id,
+                        state: 'created'
+                    });
+                    this.processItem(importedCollection.name, 'collection', importedCollection, 'created');
+                })
+                .catch((error) =>
+                    this.handleImportError(
+                        error,
+                        { type: 'collection', key: collection.codename, title: collection.name },
+                        'create'
+                    )
+                );
         }
 
         return importedItems;
@@ -451,46 +1427,41 @@ export class ImportService {
     private async importAssetsAsync(
         assets: AssetContracts.IAssetModelContract[],
         binaryFiles: IBinaryFile[],
-        currentItems: IImportItemResult<ValidImportContract, ValidImportModel>[]
+        currentItems: IImportIdMapping[]
     ): Promise<IImportItemResult<AssetContracts.IAssetModelContract, AssetModels.Asset>[]> {
         const importedItems: IImportItemResult<AssetContracts.IAssetModelContract, AssetModels.Asset>[] = [];
-        const unsupportedBinaryFiles: IBinaryFile[] = [];
+        const existingAssets: AssetModels.Asset[] = this.isMergeMode()
+            ? (await this.client.listAssets().toAllPromise()).data.items
+            : [];
 
         for (const asset of assets) {
+            if (this.isJournaledItem('asset', asset.id)) {
+                continue;
+            }
+
             const binaryFile = binaryFiles.find((m) => m.asset.id === asset.id);
 
             if (!binaryFile) {
                 throw Error(`Could not find binary file for asset with id '${asset.id}'`);
             }
 
-            let binaryDataToUpload: any = binaryFile.binaryData;
-            if (binaryFile.asset.size >= this.maxAllowedAssetSizeInBytes) {
-                if (this.config.onUnsupportedBinaryFile) {
-                    this.config.onUnsupportedBinaryFile(binaryFile);
+            const existingAsset = existingAssets.find(
+                (m) => m.id === asset.id || m.externalId === this.getAssetExternalId(asset)
+            );
+
+            if (existingAsset) {
+                const updatedAsset = await this.updateAssetAsync(asset, existingAsset, binaryFile, currentItems);
+
+                if (updatedAsset) {
+                    await this.addImportedItemAsync(importedItems, 'asset', asset.id, updatedAsset);
                 }
-                console.log(
-                    `Removing binary data from file due to size. Max. file size is '${this.maxAllowedAssetSizeInBytes}'Bytes, but file has '${asset.size}' Bytes`,
-                    asset.file_name
-                );
-                // remove binary data so that import proceeds & asset is created (so that it can be referenced by
-                // content items )
-                binaryDataToUpload = [];
-                unsupportedBinaryFiles.push(binaryFile);
+                continue;
             }
 
-            const uploadedBinaryFile = await this.client
-                .uploadBinaryFile()
-                .withData({
-                    binaryData: binaryDataToUpload,
-                    contentType: asset.type,
-                    filename: asset.file_name
-                })
-                .toPromise()
-                .then((m) => m)
-                .catch((error) => this.handleImportError(error));
+            const uploadedBinaryFile = await this.uploadBinaryFileAsync(asset, binaryFile);
 
             if (!uploadedBinaryFile) {
-                throw Error(`File not uploaded`);
+                continue;
             }
 
             const assetData = this.getAddAssetModel(asset, uploadedBinaryFile.data.id, currentItems);
@@ -499,21 +1470,144 @@ export class ImportService {
                 .addAsset()
                 .withData(assetData)
                 .toPromise()
-                .then((response) => {
-                    importedItems.push({
+                .then(async (response) => {
+                    await this.addImportedItemAsync(importedItems, 'asset', asset.id, {
                         imported: response.data,
                         original: asset,
                         importId: response.data.id,
-                        originalId: asset.id
+                        originalId: asset.id,
+                        state: 'created'
                     });
-                    this.processItem(response.data.fileName, 'asset', response.data);
+                    this.processItem(response.data.fileName, 'asset', response.data, 'created');
                 })
-                .catch((error) => this.handleImportError(error));
+                .catch((error) =>
+                    this.handleImportError(error, { type: 'asset', key: asset.id, title: asset.file_name }, 'create')
+                );
         }
 
         return importedItems;
     }
 
+    private async updateAssetAsync(
+        asset: AssetContracts.IAssetModelContract,
+        existingAsset: AssetModels.Asset,
+        binaryFile: IBinaryFile,
+        currentItems: IImportIdMapping[]
+    ): Promise<IImportItemResult<AssetContracts.IAssetModelContract, AssetModels.Asset> | undefined> {
+        const assetData = this.getAddAssetModel(asset, existingAsset.fileReference.id, currentItems);
+        const isBinaryFileChanged = this.isAssetBinaryFileChanged(asset, existingAsset);
+        const isMetadataChanged = this.isAssetMetadataChanged(asset, existingAsset, assetData);
+
+        if (!isBinaryFileChanged && !isMetadataChanged) {
+            this.processItem(existingAsset.fileName, 'asset', existingAsset, 'unchanged');
+            return {
+                imported: existingAsset,
+                original: asset,
+                importId: existingAsset.id,
+                originalId: asset.id,
+                state: 'unchanged'
+            };
+        }
+
+        const fileReferenceId: string | undefined = isBinaryFileChanged
+            ? (await this.uploadBinaryFileAsync(asset, binaryFile))?.data.id
+            : existingAsset.fileReference.id;
+
+        if (!fileReferenceId) {
+            return undefined;
+        }
+
+        const response = await this.client
+            .upsertAsset()
+            .byAssetId(existingAsset.id)
+            .withData({
+                descriptions: assetData.descriptions ?? [],
+                title: assetData.title,
+                folder: assetData.folder,
+                file_reference: {
+                    id: fileReferenceId,
+                    type: asset.file_reference.type
+                }
+            })
+            .toPromise()
+            .catch((error) =>
+                this.handleImportError(error, { type: 'asset', key: asset.id, title: asset.file_name }, 'update')
+            );
+
+        if (!response) {
+            return undefined;
+        }
+
+        this.processItem(response.data.fileName, 'asset', response.data, 'updated');
+
+        return {
+            imported: response.data,
+            original: asset,
+            importId: response.data.id,
+            originalId: asset.id,
+            state: 'updated'
+        };
+    }
+
+    private isAssetBinaryFileChanged(
+        asset: AssetContracts.IAssetModelContract,
+        existingAsset: AssetModels.Asset
+    ): boolean {
+        return existingAsset.size !== asset.size || existingAsset.fileName !== asset.file_name;
+    }
+
+    /**
+     * Folder is compared only when asset data with translated folder reference is available
+     */
+    private isAssetMetadataChanged(
+        asset: AssetContracts.IAssetModelContract,
+        existingAsset: AssetModels.Asset,
+        assetData?: AssetModels.IAddAssetRequestData
+    ): boolean {
+        return (
+            existingAsset.title !== asset.title ||
+            (assetData !== undefined && existingAsset._raw.folder?.id !== assetData.folder?.id) ||
+            JSON.stringify(existingAsset.descriptions.map((m) => m.description).sort()) !==
+                JSON.stringify(asset.descriptions.map((m) => m.description).sort())
+        );
+    }
+
+    private async uploadBinaryFileAsync(
+        asset: AssetContracts.IAssetModelContract,
+        binaryFile: IBinaryFile
+    ): Promise<AssetResponses.UploadBinaryFileResponse | undefined> {
+        let binaryDataToUpload: any;
+        if (binaryFile.asset.size >= this.maxAllowedAssetSizeInBytes) {
+            if (this.config.onUnsupportedBinaryFile) {
+                this.config.onUnsupportedBinaryFile(binaryFile);
+            }
+            console.log(
+                `Removing binary data from file due to size. Max. file size is '${this.maxAllowedAssetSizeInBytes}'Bytes, but file has '${asset.size}' Bytes`,
+                asset.file_name
+            );
+            // remove binary data so that import proceeds & asset is created (so that it can be referenced by
+            // content items )
+            binaryDataToUpload = [];
+        } else {
+            binaryDataToUpload = await binaryFile.getBinaryDataAsync();
+        }
+
+        const uploadedBinaryFile = await this.client
+            .uploadBinaryFile()
+            .withData({
+                binaryData: binaryDataToUpload,
+                contentType: asset.type,
+                filename: asset.file_name
+            })
+            .toPromise()
+            .then((m) => m)
+            .catch((error) =>
+                this.handleImportError(error, { type: 'asset', key: asset.id, title: asset.file_name }, 'upload')
+            );
+
+        return uploadedBinaryFile;
+    }
+
     private async importAssetFoldersAsync(
         assetFolders: AssetFolderContracts.IAssetFolderContract[]
     ): Promise<IImportItemResult<AssetFolderContracts.IAssetFolderContract, AssetFolderModels.AssetFolder>[]> {
@@ -524,6 +1618,10 @@ export class ImportService {
         // set external id for all folders to equal old id (needed to match referenced folders)
         this.setExternalIdForFolders(assetFolders);
 
+        if (this.isMergeMode()) {
+            return await this.mergeAssetFoldersAsync(assetFolders);
+        }
+
         const assetFoldersToAdd = assetFolders.map((m) => this.mapAssetFolder(m));
 
         await this.client
@@ -548,41 +1646,294 @@ export class ImportService {
                     this.processItem(flattenedFolder.imported.name, 'assetFolder', flattenedFolder.imported);
                 }
             })
-            .catch((error) => this.handleImportError(error));
+            .catch((error) => this.handleImportError(error, this.getAssetFoldersErrorObject(assetFolders), 'create'));
+
+        return importedItems;
+    }
+
+    /**
+     * Matches asset folders by external id or name within the same parent folder. Folders that do not exist in target
+     * project are added (including all their subfolders) into matched parent folder.
+     */
+    private async mergeAssetFoldersAsync(
+        assetFolders: AssetFolderContracts.IAssetFolderContract[]
+    ): Promise<IImportItemResult<AssetFolderContracts.IAssetFolderContract, AssetFolderModels.AssetFolder>[]> {
+        const importedItems: IImportItemResult<
+            AssetFolderContracts.IAssetFolderContract,
+            AssetFolderModels.AssetFolder
+        >[] = [];
+        const existingAssetFolders = (await this.client.listAssetFolders().toPromise()).data.items;
+        const operations: AssetFolderModels.IModifyAssetFoldersData[] = [];
+        const addedAssetFolders: AssetFolderContracts.IAssetFolderContract[] = [];
+
+        this.prepareAssetFolderMergeOperations(
+            assetFolders,
+            existingAssetFolders,
+            undefined,
+            operations,
+            importedItems,
+            addedAssetFolders
+        );
+
+        for (const importedItem of importedItems) {
+            this.processItem(importedItem.imported.name, 'assetFolder', importedItem.imported, 'unchanged');
+        }
+
+        if (!operations.length) {
+            return importedItems;
+        }
+
+        await this.client
+            .modifyAssetFolders()
+            .withData(operations)
+            .toPromise()
+            .then((response) => {
+                const flattenedAssetFolders: AssetFolderModels.AssetFolder[] = [];
+                this.flattenAssetFolderModels(response.data.items, flattenedAssetFolders);
+
+                for (const addedAssetFolder of addedAssetFolders) {
+                    const importedAssetFolder = flattenedAssetFolders.find(
+                        (m) => m.externalId === addedAssetFolder.external_id
+                    );
+
+                    if (!importedAssetFolder) {
+                        throw Error(
+                            `Could not find imported folder with external id '${addedAssetFolder.external_id}' with name '${addedAssetFolder.name}'`
+                        );
+                    }
+
+                    importedItems.push({
+                        imported: importedAssetFolder,
+                        original: addedAssetFolder,
+                        importId: importedAssetFolder.id,
+                        originalId: addedAssetFolder.id,
+                        state: 'created'
+                    });
+                    this.processItem(importedAssetFolder.name, 'assetFolder', importedAssetFolder, 'created');
+                }
+            })
+            .catch((error) =>
+                this.handleImportError(error, this.getAssetFoldersErrorObject(addedAssetFolders), 'create')
+            );
 
         return importedItems;
     }
 
+    private prepareAssetFolderMergeOperations(
+        assetFolders: AssetFolderContracts.IAssetFolderContract[],
+        existingAssetFolders: AssetFolderModels.AssetFolder[],
+        parentFolder: AssetFolderModels.AssetFolder | undefined,
+        operations: AssetFolderModels.IModifyAssetFoldersData[],
+        matchedFolders: IImportItemResult<AssetFolderContracts.IAssetFolderContract, AssetFolderModels.AssetFolder>[],
+        addedFolders: AssetFolderContracts.IAssetFolderContract[]
+    ): void {
+        for (const assetFolder of assetFolders) {
+            const existingAssetFolder =
+                existingAssetFolders.find((m) => m.externalId === assetFolder.external_id) ??
+                existingAssetFolders.find((m) => m.name === assetFolder.name);
+
+            if (existingAssetFolder) {
+                matchedFolders.push({
+                    imported: existingAssetFolder,
+                    original: assetFolder,
+                    importId: existingAssetFolder.id,
+                    originalId: assetFolder.id,
+                    state: 'unchanged'
+                });
+
+                this.prepareAssetFolderMergeOperations(
+                    assetFolder.folders,
+                    existingAssetFolder.folders,
+                    existingAssetFolder,
+                    operations,
+                    matchedFolders,
+                    addedFolders
+                );
+            } else {
+                operations.push({
+                    op: 'addInto',
+                    reference: parentFolder ? { id: parentFolder.id } : undefined,
+                    value: this.mapAssetFolder(assetFolder)
+                });
+
+                this.flattenAssetFolderContracts([assetFolder], addedFolders);
+            }
+        }
+    }
+
     private async importContentTypesAsync(
-        contentTypes: ContentTypeContracts.IContentTypeContract[]
+        contentTypes: ContentTypeContracts.IContentTypeContract[],
+        currentItems: IImportIdMapping[]
     ): Promise<IImportItemResult<ContentTypeContracts.IContentTypeContract, ContentTypeModels.ContentType>[]> {
         const importedItems: IImportItemResult<
             ContentTypeContracts.IContentTypeContract,
             ContentTypeModels.ContentType
         >[] = [];
+        const existingContentTypes: ContentTypeModels.ContentType[] = this.isMergeMode()
+            ? (await this.client.listContentTypes().toAllPromise()).data.items
+            : [];
+
+        if (this.isMergeMode()) {
+            // referenced snippets & taxonomies may have different external ids in target project
+            idTranslateHelper.replaceExternalIdReferencesWithNewId(contentTypes, currentItems);
+        }
 
         for (const contentType of contentTypes) {
+            if (this.isJournaledItem('contentType', contentType.codename)) {
+                continue;
+            }
+
+            const existingContentType = this.findExistingObject(
+                existingContentTypes.map((m) => m._raw),
+                contentType
+            );
+
+            if (existingContentType) {
+                const updatedContentType = await this.updateContentTypeAsync(contentType, existingContentType);
+
+                if (updatedContentType) {
+                    await this.addImportedItemAsync(
+                        importedItems,
+                        'contentType',
+                        contentType.codename,
+                        updatedContentType
+                    );
+                }
+                continue;
+            }
+
             await this.client
                 .addContentType()
                 .withData((builder) => {
-                    return contentType;
+                    return {
+                        ...contentType,
+                        elements: contentType.elements.map((m) =>
+                            contentTypeReferenceHelper.getElementWithoutContentTypeReferences(m)
+                        )
+                    };
                 })
                 .toPromise()
-                .then((response) => {
-                    importedItems.push({
+                .then(async (response) => {
+                    await this.addImportedItemAsync(importedItems, 'contentType', contentType.codename, {
                         imported: response.data,
                         original: contentType,
                         importId: response.data.id,
-                        originalId: contentType.id
+                        originalId: this.isMergeMode() ? contentType.external_id : contentType.id,
+                        state: 'created'
                     });
-                    this.processItem(response.data.name, 'contentType', response.data);
+                    this.processItem(response.data.name, 'contentType', response.data, 'created');
                 })
-                .catch((error) => this.handleImportError(error));
+                .catch((error) =>
+                    this.handleImportError(
+                        error,
+                        { type: 'contentType', key: contentType.codename, title: contentType.name },
+                        'create'
+                    )
+                );
         }
 
         return importedItems;
     }
 
+    private async updateContentTypeAsync(
+        contentType: ContentTypeContracts.IContentTypeContract,
+        existingContentType: ContentTypeContracts.IContentTypeContract
+    ): Promise<
+        IImportItemResult<ContentTypeContracts.IContentTypeContract, ContentTypeModels.ContentType> | undefined
+    > {
+        const operations = this.getContentTypeMergeOperations(contentType, existingContentType);
+        const state: ImportItemState = operations.length ? 'updated' : 'unchanged';
+        const response = operations.length
+            ? await this.client
+                  .modifyContentType()
+                  .byTypeId(existingContentType.id)
+                  .withData(operations)
+                  .toPromise()
+                  .catch((error) =>
+                      this.handleImportError(
+                          error,
+                          { type: 'contentType', key: contentType.codename, title: contentType.name },
+                          'update'
+                      )
+                  )
+            : await this.client
+                  .viewContentType()
+                  .byTypeId(existingContentType.id)
+                  .toPromise()
+                  .catch((error) =>
+                      this.handleImportError(
+                          error,
+                          { type: 'contentType', key: contentType.codename, title: contentType.name },
+                          'view'
+                      )
+                  );
+
+        if (!response) {
+            return undefined;
+        }
+
+        this.processItem(response.data.name, 'contentType', response.data, state);
+
+        return {
+            imported: response.data,
+            original: contentType,
+            importId: response.data.id,
+            originalId: contentType.external_id,
+            state
+        };
+    }
+
+    /**
+     * Gets operations adding content groups & elements missing in existing content type and updating its name.
+     * Existing elements are never removed or modified.
+     */
+    private getContentTypeMergeOperations(
+        contentType: ContentTypeContracts.IContentTypeContract,
+        existingContentType: ContentTypeContracts.IContentTypeContract
+    ): ContentTypeModels.IModifyContentTypeData[] {
+        const operations: ContentTypeModels.IModifyContentTypeData[] = [];
+        const contentGroups = contentType.content_groups ?? [];
+        const existingContentGroups = existingContentType.content_groups ?? [];
+
+        if (contentType.name !== existingContentType.name) {
+            operations.push({ op: 'replace', path: '/name', value: contentType.name });
+        }
+
+        for (const contentGroup of contentGroups) {
+            if (!existingContentGroups.find((m) => m.codename === contentGroup.codename)) {
+                operations.push({
+                    op: 'addInto',
+                    path: '/content_groups',
+                    value: {
+                        name: contentGroup.name,
+                        codename: contentGroup.codename,
+                        external_id: contentGroup.external_id
+                    }
+                });
+            }
+        }
+
+        for (const element of contentType.elements) {
+            if (!existingContentType.elements.find((m) => m.codename === element.codename)) {
+                const elementContentGroup = contentGroups.find(
+                    (m) => m.external_id === (element as any).content_group?.external_id
+                );
+
+                operations.push({
+                    op: 'addInto',
+                    path: '/elements',
+                    value: {
+                        ...contentTypeReferenceHelper.getElementWithoutContentTypeReferences(element),
+                        // content groups are referenced by codename as their ids differ in target project
+                        content_group: elementContentGroup ? { codename: elementContentGroup.codename } : undefined
+                    }
+                });
+            }
+        }
+
+        return operations;
+    }
+
     private async importContentItemAsync(
         contentItems: ContentItemContracts.IContentItemModelContract[]
     ): Promise<IImportItemResult<ContentItemContracts.IContentItemModelContract, ContentItemModels.ContentItem>[]> {
@@ -590,14 +1941,47 @@ export class ImportService {
             ContentItemContracts.IContentItemModelContract,
             ContentItemModels.ContentItem
         >[] = [];
+        const existingContentItems: ContentItemModels.ContentItem[] = this.isMergeMode()
+            ? (await this.client.listContentItems().toAllPromise()).data.items
+            : [];
+        const targetCollections = (await this.client.listCollections().toPromise()).data.collections;
 
         for (const contentItem of contentItems) {
+            if (this.isJournaledItem('contentItem', contentItem.codename)) {
+                continue;
+            }
+
             const typeCodename = (contentItem.type as any).codename;
 
             if (!typeCodename) {
                 throw Error(`Content item '${contentItem.codename}' has unset type codename`);
             }
 
+            const existingContentItem = this.findExistingObject(
+                existingContentItems.map((m) => m._raw),
+                contentItem
+            );
+
+            const collection = this.getCollectionOfContentItem(contentItem, targetCollections);
+
+            if (existingContentItem) {
+                const updatedContentItem = await this.updateContentItemAsync(
+                    contentItem,
+                    existingContentItem,
+                    collection
+                );
+
+                if (updatedContentItem) {
+                    await this.addImportedItemAsync(
+                        importedItems,
+                        'contentItem',
+                        contentItem.codename,
+                        updatedContentItem
+                    );
+                }
+                continue;
+            }
+
             await this.client
                 .addContentItem()
                 .withData({
@@ -606,45 +1990,302 @@ export class ImportService {
                         codename: typeCodename
                     },
                     codename: contentItem.codename,
-                    external_id: contentItem.external_id
+                    external_id: contentItem.external_id,
+                    collection: collection ? { codename: collection.codename } : undefined
                 })
                 .toPromise()
-                .then((response) => {
-                    importedItems.push({
+                .then(async (response) => {
+                    await this.addImportedItemAsync(importedItems, 'contentItem', contentItem.codename, {
                         imported: response.data,
                         original: contentItem,
                         importId: response.data.id,
-                        originalId: contentItem.id
+                        originalId: contentItem.id,
+                        state: 'created'
                     });
-                    this.processItem(response.data.name, 'contentItem', response.data);
+                    this.processItem(response.data.name, 'contentItem', response.data, 'created');
                 })
-                .catch((error) => this.handleImportError(error));
+                .catch((error) =>
+                    this.handleImportError(
+                        error,
+                        { type: 'contentItem', key: contentItem.codename, title: contentItem.name },
+                        'create'
+                    )
+                );
         }
 
         return importedItems;
     }
 
+    /**
+     * Gets collection of target project content item is assigned to. Content items in collections that do not
+     * exist in target project (or that were not exported) are assigned to default collection.
+     */
+    private getCollectionOfContentItem(
+        contentItem: ContentItemContracts.IContentItemModelContract,
+        targetCollections: CollectionModels.Collection[]
+    ): CollectionModels.Collection | undefined {
+        const codename = contentItem.collection?.codename;
+
+        if (!codename) {
+            return undefined;
+        }
+
+        const collection = targetCollections.find((m) => m.codename === codename);
+
+        if (!collection) {
+            console.warn(
+                `WARNING: Collection '${codename}' of content item '${contentItem.codename}' does not exist in target project so content item is assigned to default collection`
+            );
+        }
+
+        return collection;
+    }
+
+    private async updateContentItemAsync(
+        contentItem: ContentItemContracts.IContentItemModelContract,
+        existingContentItem: ContentItemContracts.IContentItemModelContract,
+        collection: CollectionModels.Collection | undefined
+    ): Promise<
+        IImportItemResult<ContentItemContracts.IContentItemModelContract, ContentItemModels.ContentItem> | undefined
+    > {
+        const isCollectionChanged = !!collection && existingContentItem.collection?.id !== collection.id;
+        const state: ImportItemState =
+            contentItem.name !== existingContentItem.name || isCollectionChanged ? 'updated' : 'unchanged';
+        const response =
+            state === 'updated'
+                ? await this.client
+                      .upsertContentItem()
+                      .byItemId(existingContentItem.id)
+                      .withData({
+                          name: contentItem.name,
+                          collection: collection ? { id: collection.id } : undefined
+                      })
+                      .toPromise()
+                      .catch((error) =>
+                          this.handleImportError(
+                              error,
+                              { type: 'contentItem', key: contentItem.codename, title: contentItem.name },
+                              'update'
+                          )
+                      )
+                : await this.client
+                      .viewContentItem()
+                      .byItemId(existingContentItem.id)
+                      .toPromise()
+                      .catch((error) =>
+                          this.handleImportError(
+                              error,
+                              { type: 'contentItem', key: contentItem.codename, title: contentItem.name },
+                              'view'
+                          )
+                      );
+
+        if (!response) {
+            return undefined;
+        }
+
+        this.processItem(response.data.name, 'contentItem', response.data, state);
+
+        return {
+            imported: response.data,
+            original: contentItem,
+            importId: response.data.id,
+            originalId: contentItem.id,
+            state
+        };
+    }
+
+    /**
+     * Publishes language variants that were published in source project and schedules publishing & unpublishing
+     * of scheduled language variants. Schedule dates that are already in the past cannot be scheduled so such
+     * language variants are published (or unpublished) immediately. Unchanged language variants are already published.
+     */
     private async publishLanguageVariantsAsync(
-        languageVariants: LanguageVariantContracts.ILanguageVariantModelContract[],
-        workflowSteps: WorkflowContracts.IWorkflowStepContract[]
+        languageVariants: ILanguageVariantWithLifecycleContract[],
+        workflowSteps: WorkflowContracts.IWorkflowStepContract[],
+        importedLanguageVariants: IImportItemResult<
+            LanguageVariantContracts.ILanguageVariantModelContract,
+            LanguageVariantModels.ContentItemLanguageVariant
+        >[]
     ): Promise<void> {
-        const publishedWorkflowStep = this.getPublishedWorkflowStep(workflowSteps);
+        const unchangedLanguageVariantKeys = this.getUnchangedLanguageVariantKeys(importedLanguageVariants);
 
-        if (!publishedWorkflowStep) {
-            // published workflow step was not found
-            return;
+        for (const languageVariant of languageVariants) {
+            const lifecycle = workflowStepHelper.getLanguageVariantLifecycle(languageVariant, workflowSteps);
+
+            if (!this.publishedLanguageVariantStates.includes(lifecycle.state)) {
+                continue;
+            }
+
+            const itemCodename: string | undefined = languageVariant.item.codename;
+            const languageCodename: string | undefined = languageVariant.language.codename;
+
+            if (!itemCodename) {
+                throw Error(`Missing item codename for item`);
+            }
+            if (!languageCodename) {
+                throw Error(`Missing language codename for item`);
+            }
+
+            if (unchangedLanguageVariantKeys.has(this.getLanguageVariantJournalKey(itemCodename, languageCodename))) {
+                continue;
+            }
+
+            const title: string = `${itemCodename} (${languageCodename})`;
+
+            if (lifecycle.state === 'scheduledPublish' && !lifecycle.publishTime) {
+                console.warn(
+                    `WARNING: Language variant '${title}' is not scheduled because its publish date is unknown`
+                );
+                continue;
+            }
+
+            const publishTime = this.getScheduleTime(title, 'publish', lifecycle.publishTime);
+            const isPublished = await this.publishLanguageVariantAsync(itemCodename, languageCodename, publishTime);
+
+            if (!isPublished || !lifecycle.unpublishTime) {
+                continue;
+            }
+
+            if (publishTime) {
+                // only published language variants can be unpublished
+                console.warn(
+                    `WARNING: Unpublishing of language variant '${title}' is not scheduled because the language variant is not published yet`
+                );
+                continue;
+            }
+
+            await this.unpublishLanguageVariantAsync(
+                itemCodename,
+                languageCodename,
+                this.getScheduleTime(title, 'unpublish', lifecycle.unpublishTime)
+            );
+        }
+    }
+
+    /**
+     * Publishes language variant immediately or at given time. Returns false when language variant could not be published.
+     */
+    private async publishLanguageVariantAsync(
+        itemCodename: string,
+        languageCodename: string,
+        scheduledTo: string | undefined
+    ): Promise<boolean> {
+        const journalKey: string = this.getLanguageVariantJournalKey(itemCodename, languageCodename);
+        if (this.isJournaledItem('publish', journalKey)) {
+            return true;
         }
 
-        const itemsToPublish = languageVariants.filter((m) => m.workflow_step.id === publishedWorkflowStep.id);
+        const query = this.client
+            .publishLanguageVariant()
+            .byItemCodename(itemCodename)
+            .byLanguageCodename(languageCodename);
 
-        if (!itemsToPublish.length) {
-            // no items to publish
+        return await (scheduledTo ? query.withData({ scheduled_to: scheduledTo }) : query.withoutData())
+            .toPromise()
+            .then(async (response) => {
+                this.processItem(`${itemCodename} (${languageCodename})`, 'publish', response.data);
+                await this.appendJournalItemAsync('publish', journalKey);
+                return true;
+            })
+            .catch((error) => {
+                this.handleImportError(
+                    error,
+                    this.getLanguageVariantErrorObject(itemCodename, languageCodename),
+                    'publish'
+                );
+                return false;
+            });
+    }
+
+    /**
+     * Gets journal keys of language variants that were not updated because they are the same as in source project
+     */
+    private getUnchangedLanguageVariantKeys(
+        importedLanguageVariants: IImportItemResult<
+            LanguageVariantContracts.ILanguageVariantModelContract,
+            LanguageVariantModels.ContentItemLanguageVariant
+        >[]
+    ): Set<string> {
+        return new Set<string>(
+            importedLanguageVariants
+                .filter((m) => m.state === 'unchanged')
+                .map((m) =>
+                    this.getLanguageVariantJournalKey(
+                        m.original.item.codename ?? '',
+                        m.original.language.codename ?? ''
+                    )
+                )
+        );
+    }
+
+    /**
+     * Unpublishes language variant immediately or at given time
+     */
+    private async unpublishLanguageVariantAsync(
+        itemCodename: string,
+        languageCodename: string,
+        scheduledTo: string | undefined
+    ): Promise<void> {
+        const journalKey: string = this.getLanguageVariantJournalKey(itemCodename, languageCodename);
+        if (this.isJournaledItem('unpublish', journalKey)) {
             return;
         }
 
-        for (const itemToPublish of itemsToPublish) {
-            const itemCodename: string | undefined = itemToPublish.item.codename;
-            const languageCodename: string | undefined = itemToPublish.language.codename;
+        const query = this.client
+            .unpublishLanguageVariant()
+            .byItemCodename(itemCodename)
+            .byLanguageCodename(languageCodename);
+
+        await (scheduledTo ? query.withData({ scheduled_to: scheduledTo }) : query.withoutData())
+            .toPromise()
+            .then(async (response) => {
+                this.processItem(`${itemCodename} (${languageCodename})`, 'unpublish', response.data);
+                await this.appendJournalItemAsync('unpublish', journalKey);
+            })
+            .catch((error) =>
+                this.handleImportError(
+                    error,
+                    this.getLanguageVariantErrorObject(itemCodename, languageCodename),
+                    'unpublish'
+                )
+            );
+    }
+
+    /**
+     * Returns undefined for schedule dates in the past (or when date is not set) so that action is done immediately
+     */
+    private getScheduleTime(
+        title: string,
+        operation: 'publish' | 'unpublish',
+        time: string | undefined
+    ): string | undefined {
+        if (!time || new Date(time).getTime() > Date.now()) {
+            return time;
+        }
+
+        console.warn(
+            `WARNING: Scheduled ${operation} date '${time}' of language variant '${title}' is in the past. Language variant is ${
+                operation === 'publish' ? 'published' : 'unpublished'
+            } immediately.`
+        );
+
+        return undefined;
+    }
+
+    private async moveLanguageVariantsToCustomWorkflowStepAsync(
+        workflowStepId: string,
+        languageVariants: LanguageVariantContracts.ILanguageVariantModelContract[],
+        importedLanguageVariants: IImportItemResult<
+            LanguageVariantContracts.ILanguageVariantModelContract,
+            LanguageVariantModels.ContentItemLanguageVariant
+        >[]
+    ): Promise<void> {
+        const unchangedLanguageVariantKeys = this.getUnchangedLanguageVariantKeys(importedLanguageVariants);
+
+        for (const item of languageVariants) {
+            const itemCodename: string | undefined = item.item.codename;
+            const languageCodename: string | undefined = item.language.codename;
 
             if (!itemCodename) {
                 throw Error(`Missing item codename for item`);
@@ -653,50 +2294,137 @@ export class ImportService {
                 throw Error(`Missing language codename for item`);
             }
 
-            await this.client
-                .publishLanguageVariant()
-                .byItemCodename(itemCodename)
-                .byLanguageCodename(languageCodename)
-                .withoutData()
-                .toPromise()
-                .then((response) => {
-                    this.processItem(`${itemCodename} (${languageCodename})`, 'publish', response.data);
-                })
-                .catch((error) => this.handleImportError(error));
+            const journalKey: string = this.getLanguageVariantJournalKey(itemCodename, languageCodename);
+            if (
+                this.isJournaledItem('changeWorkflowStep', journalKey) ||
+                unchangedLanguageVariantKeys.has(journalKey)
+            ) {
+                continue;
+            }
+
+            await this.changeWorkflowStepOfLanguageVariantAsync(itemCodename, languageCodename, workflowStepId);
+        }
+    }
+
+    /**
+     * Moves language variants to workflow steps they were in within source project. Workflow steps are matched
+     * with steps of target project by codename or name as workflow steps cannot be created via Management API.
+     * Published & scheduled language variants are not moved because they are published or scheduled instead.
+     */
+    private async restoreWorkflowStepsOfLanguageVariantsAsync(
+        languageVariants: ILanguageVariantWithLifecycleContract[],
+        workflowSteps: WorkflowContracts.IWorkflowStepContract[],
+        importedLanguageVariants: IImportItemResult<
+            LanguageVariantContracts.ILanguageVariantModelContract,
+            LanguageVariantModels.ContentItemLanguageVariant
+        >[]
+    ): Promise<void> {
+        const targetWorkflowSteps = (await this.client.listWorkflowSteps().toPromise()).data.map((m) => m._raw);
+        const workflowStepsMapping = workflowStepHelper.getWorkflowStepsMapping(workflowSteps, targetWorkflowSteps);
+
+        // workflow steps of language variants imported in this run
+        const currentWorkflowStepIds = new Map<string, string | undefined>(
+            importedLanguageVariants.map((m) => [
+                this.getLanguageVariantJournalKey(m.original.item.codename ?? '', m.original.language.codename ?? ''),
+                m.imported.workflowStep.id
+            ])
+        );
+
+        for (const languageVariant of languageVariants) {
+            const itemCodename: string | undefined = languageVariant.item.codename;
+            const languageCodename: string | undefined = languageVariant.language.codename;
+
+            if (!itemCodename) {
+                throw Error(`Missing item codename for item`);
+            }
+            if (!languageCodename) {
+                throw Error(`Missing language codename for item`);
+            }
+
+            const journalKey: string = this.getLanguageVariantJournalKey(itemCodename, languageCodename);
+            if (this.isJournaledItem('changeWorkflowStep', journalKey)) {
+                continue;
+            }
+
+            const sourceWorkflowStep = workflowStepHelper.getWorkflowStepOfLanguageVariant(
+                languageVariant,
+                workflowSteps
+            );
+            const lifecycle = workflowStepHelper.getLanguageVariantLifecycle(languageVariant, workflowSteps);
+
+            if (this.publishedLanguageVariantStates.includes(lifecycle.state)) {
+                continue;
+            }
+
+            const targetWorkflowStep = sourceWorkflowStep ? workflowStepsMapping.get(sourceWorkflowStep.id) : undefined;
+
+            if (!targetWorkflowStep) {
+                this.reportUnmappedWorkflowStep(
+                    itemCodename,
+                    languageCodename,
+                    sourceWorkflowStep?.name ??
+                        languageVariant.workflow_step.codename ??
+                        languageVariant.workflow_step.id ??
+                        ''
+                );
+                continue;
+            }
+
+            if (currentWorkflowStepIds.get(journalKey) === targetWorkflowStep.id) {
+                // language variant is already in the workflow step
+                continue;
+            }
+
+            await this.changeWorkflowStepOfLanguageVariantAsync(itemCodename, languageCodename, targetWorkflowStep.id);
         }
     }
 
-    private async moveLanguageVariantsToCustomWorkflowStepAsync(
-        workflowStepId: string,
-        languageVariants: LanguageVariantContracts.ILanguageVariantModelContract[]
+    private async changeWorkflowStepOfLanguageVariantAsync(
+        itemCodename: string,
+        languageCodename: string,
+        workflowStepId: string
     ): Promise<void> {
-        for (const item of languageVariants) {
-            const itemCodename: string | undefined = item.item.codename;
-            const languageCodename: string | undefined = item.language.codename;
+        const journalKey: string = this.getLanguageVariantJournalKey(itemCodename, languageCodename);
 
-            if (!itemCodename) {
-                throw Error(`Missing item codename for item`);
-            }
-            if (!languageCodename) {
-                throw Error(`Missing language codename for item`);
-            }
+        await this.client
+            .changeWorkflowStepOfLanguageVariant()
+            .byItemCodename(itemCodename)
+            .byLanguageCodename(languageCodename)
+            .byWorkflowStepId(workflowStepId)
+            .toPromise()
+            .then(async (response) => {
+                this.processItem(`${itemCodename} (${languageCodename})`, 'changeWorkflowStep', response.data);
+                await this.appendJournalItemAsync('changeWorkflowStep', journalKey);
+            })
+            .catch((error) =>
+                this.handleImportError(
+                    error,
+                    this.getLanguageVariantErrorObject(itemCodename, languageCodename),
+                    'changeWorkflowStep'
+                )
+            );
+    }
 
-            await this.client
-                .changeWorkflowStepOfLanguageVariant()
-                .byItemCodename(itemCodename)
-                .byLanguageCodename(languageCodename)
-                .byWorkflowStepId(workflowStepId)
-                .toPromise()
-                .then((response) => {
-                    this.processItem(`${itemCodename} (${languageCodename})`, 'changeWorkflowStep', response.data);
-                })
-                .catch((error) => this.handleImportError(error));
+    private reportUnmappedWorkflowStep(itemCodename: string, languageCodename: string, workflowStep: string): void {
+        const languageVariant: IUnmappedWorkflowStep = {
+            key: this.getLanguageVariantJournalKey(itemCodename, languageCodename),
+            title: `${itemCodename} (${languageCodename})`,
+            workflowStep
+        };
+
+        console.warn(
+            `WARNING: Workflow step '${workflowStep}' of language variant '${languageVariant.title}' does not exist in target project`
+        );
+
+        if (this.config.onUnmappedWorkflowStep) {
+            this.config.onUnmappedWorkflowStep(languageVariant);
         }
     }
 
     private async importLanguageVariantsAsync(
-        languageVariants: LanguageVariantContracts.ILanguageVariantModelContract[],
-        currentItems: IImportItemResult<ValidImportContract, ValidImportModel>[]
+        languageVariants: ILanguageVariantWithLifecycleContract[],
+        workflowSteps: WorkflowContracts.IWorkflowStepContract[],
+        currentItems: IImportIdMapping[]
     ): Promise<
         IImportItemResult<
             LanguageVariantContracts.ILanguageVariantModelContract,
@@ -707,6 +2435,10 @@ export class ImportService {
             LanguageVariantContracts.ILanguageVariantModelContract,
             LanguageVariantModels.ContentItemLanguageVariant
         >[] = [];
+        const targetWorkflowSteps = this.isMergeMode()
+            ? (await this.client.listWorkflowSteps().toPromise()).data.map((m) => m._raw)
+            : [];
+        const workflowStepsMapping = workflowStepHelper.getWorkflowStepsMapping(workflowSteps, targetWorkflowSteps);
 
         for (const languageVariant of languageVariants) {
             const itemCodename: string | undefined = languageVariant.item.codename;
@@ -719,95 +2451,742 @@ export class ImportService {
                 throw Error(`Missing language codename for item`);
             }
 
+            const journalKey: string = this.getLanguageVariantJournalKey(itemCodename, languageCodename);
+            if (this.isJournaledItem('languageVariant', journalKey)) {
+                continue;
+            }
+
             // replace ids in assets with new ones
             idTranslateHelper.replaceIdReferencesWithNewId(languageVariant, currentItems);
 
+            const state: ImportItemState | undefined = this.isMergeMode()
+                ? await this.prepareExistingLanguageVariantForUpdateAsync(
+                      languageVariant,
+                      languageVariantImportHelper.getTargetWorkflowStepId(
+                          languageVariant,
+                          workflowSteps,
+                          workflowStepsMapping,
+                          this.config.workflowIdForImportedItems
+                      ),
+                      targetWorkflowSteps,
+                      importedItems
+                  )
+                : 'created';
+
+            if (!state || state === 'unchanged') {
+                continue;
+            }
+
             await this.client
                 .upsertLanguageVariant()
                 .byItemCodename(itemCodename)
                 .byLanguageCodename(languageCodename)
                 .withData((builder) => languageVariant.elements)
                 .toPromise()
-                .then((response) => {
-                    importedItems.push({
+                .then(async (response) => {
+                    await this.addImportedItemAsync(importedItems, 'languageVariant', journalKey, {
                         imported: response.data,
                         original: languageVariant,
                         importId: response.data.item.id,
-                        originalId: languageVariant.item.id
+                        originalId: languageVariant.item.id,
+                        state
                     });
-                    this.processItem(`${itemCodename} (${languageCodename})`, 'languageVariant', response.data);
+                    this.processItem(`${itemCodename} (${languageCodename})`, 'languageVariant', response.data, state);
                 })
-                .catch((error) => this.handleImportError(error));
+                .catch((error) =>
+                    this.handleImportError(
+                        error,
+                        this.getLanguageVariantErrorObject(itemCodename, languageCodename),
+                        state === 'created' ? 'create' : 'update'
+                    )
+                );
         }
 
         return importedItems;
     }
 
+    /**
+     * Checks whether language variant exists in target project & creates new version of published variants
+     * so that they can be updated. Language variants with the same elements that are already in the workflow step
+     * they would be moved to are not updated and are added to imported items as unchanged. Returns undefined
+     * when language variant cannot be updated.
+     */
+    private async prepareExistingLanguageVariantForUpdateAsync(
+        languageVariant: LanguageVariantContracts.ILanguageVariantModelContract,
+        targetWorkflowStepId: string | undefined,
+        targetWorkflowSteps: WorkflowContracts.IWorkflowStepContract[],
+        importedItems: IImportItemResult<
+            LanguageVariantContracts.ILanguageVariantModelContract,
+            LanguageVariantModels.ContentItemLanguageVariant
+        >[]
+    ): Promise<ImportItemState | undefined> {
+        const itemCodename: string = languageVariant.item.codename ?? '';
+        const languageCodename: string = languageVariant.language.codename ?? '';
+        const errorObject = this.getLanguageVariantErrorObject(itemCodename, languageCodename);
+        let isViewFailed: boolean = false;
+        const existingLanguageVariant = await this.client
+            .viewLanguageVariant()
+            .byItemCodename(itemCodename)
+            .byLanguageCodename(languageCodename)
+            .toPromise()
+            .then((response) => response.data)
+            .catch((error) => {
+                if (this.isNotFoundError(error)) {
+                    return undefined;
+                }
+                isViewFailed = true;
+                return this.handleImportError(error, errorObject, 'view');
+            });
+
+        if (isViewFailed) {
+            return undefined;
+        }
+
+        if (!existingLanguageVariant) {
+            return 'created';
+        }
+
+        if (
+            !languageVariantImportHelper.isLanguageVariantChanged(
+                languageVariant,
+                existingLanguageVariant._raw,
+                targetWorkflowStepId
+            )
+        ) {
+            await this.addImportedItemAsync(
+                importedItems,
+                'languageVariant',
+                this.getLanguageVariantJournalKey(itemCodename, languageCodename),
+                {
+                    imported: existingLanguageVariant,
+                    original: languageVariant,
+                    importId: existingLanguageVariant.item.id,
+                    originalId: languageVariant.item.id,
+                    state: 'unchanged'
+                }
+            );
+            this.processItem(
+                `${itemCodename} (${languageCodename})`,
+                'languageVariant',
+                existingLanguageVariant,
+                'unchanged'
+            );
+
+            return 'unchanged';
+        }
+
+        const publishedWorkflowStep = workflowStepHelper.getPublishedWorkflowStep(targetWorkflowSteps);
+
+        if (publishedWorkflowStep && existingLanguageVariant.workflowStep.id === publishedWorkflowStep.id) {
+            const newVersionResponse = await this.client
+                .createNewVersionOfLanguageVariant()
+                .byItemCodename(itemCodename)
+                .byLanguageCodename(languageCodename)
+                .toPromise()
+                .catch((error) => this.handleImportError(error, errorObject, 'createNewVersion'));
+
+            if (!newVersionResponse) {
+                return undefined;
+            }
+        }
+
+        return 'updated';
+    }
+
     private async importContentTypeSnippetsAsync(
-        contentTypeSnippets: ContentTypeSnippetContracts.IContentTypeSnippetContract[]
-    ): Promise<IImportItemResult<ContentTypeContracts.IContentTypeContract, ContentTypeModels.ContentType>[]> {
+        contentTypeSnippets: ContentTypeSnippetContracts.IContentTypeSnippetContract[],
+        currentItems: IImportIdMapping[]
+    ): Promise<
+        IImportItemResult<
+            ContentTypeSnippetContracts.IContentTypeSnippetContract,
+            ContentTypeSnippetModels.ContentTypeSnippet
+        >[]
+    > {
         const importedItems: IImportItemResult<
-            ContentTypeContracts.IContentTypeContract,
-            ContentTypeModels.ContentType
+            ContentTypeSnippetContracts.IContentTypeSnippetContract,
+            ContentTypeSnippetModels.ContentTypeSnippet
         >[] = [];
+        const existingContentTypeSnippets: ContentTypeSnippetModels.ContentTypeSnippet[] = this.isMergeMode()
+            ? (await this.client.listContentTypeSnippets().toAllPromise()).data.items
+            : [];
+
+        if (this.isMergeMode()) {
+            // referenced taxonomies may have different external ids in target project
+            idTranslateHelper.replaceExternalIdReferencesWithNewId(contentTypeSnippets, currentItems);
+        }
 
         for (const contentTypeSnippet of contentTypeSnippets) {
+            if (this.isJournaledItem('contentTypeSnippet', contentTypeSnippet.codename)) {
+                continue;
+            }
+
+            const existingContentTypeSnippet = this.findExistingObject(
+                existingContentTypeSnippets.map((m) => m._raw),
+                contentTypeSnippet
+            );
+
+            if (existingContentTypeSnippet) {
+                const updatedContentTypeSnippet = await this.updateContentTypeSnippetAsync(
+                    contentTypeSnippet,
+                    existingContentTypeSnippet
+                );
+
+                if (updatedContentTypeSnippet) {
+                    await this.addImportedItemAsync(
+                        importedItems,
+                        'contentTypeSnippet',
+                        contentTypeSnippet.codename,
+                        updatedContentTypeSnippet
+                    );
+                }
+                continue;
+            }
+
             await this.client
                 .addContentTypeSnippet()
                 .withData((builder) => {
                     return {
-                        elements: contentTypeSnippet.elements,
+                        elements: contentTypeSnippet.elements.map((m) =>
+                            contentTypeReferenceHelper.getElementWithoutContentTypeReferences(m)
+                        ),
                         name: contentTypeSnippet.name,
                         codename: contentTypeSnippet.codename,
                         external_id: contentTypeSnippet.external_id
                     };
                 })
                 .toPromise()
-                .then((response) => {
-                    importedItems.push({
+                .then(async (response) => {
+                    await this.addImportedItemAsync(importedItems, 'contentTypeSnippet', contentTypeSnippet.codename, {
                         imported: response.data,
                         original: contentTypeSnippet,
                         importId: response.data.id,
-                        originalId: contentTypeSnippet.id
+                        originalId: this.isMergeMode() ? contentTypeSnippet.external_id : contentTypeSnippet.id,
+                        state: 'created'
                     });
-                    this.processItem(response.data.name, 'contentTypeSnippet', response.data);
+                    this.processItem(response.data.name, 'contentTypeSnippet', response.data, 'created');
                 })
-                .catch((error) => this.handleImportError(error));
+                .catch((error) =>
+                    this.handleImportError(
+                        error,
+                        {
+                            type: 'contentTypeSnippet',
+                            key: contentTypeSnippet.codename,
+                            title: contentTypeSnippet.name
+                        },
+                        'create'
+                    )
+                );
         }
 
         return importedItems;
     }
 
+    private async updateContentTypeSnippetAsync(
+        contentTypeSnippet: ContentTypeSnippetContracts.IContentTypeSnippetContract,
+        existingContentTypeSnippet: ContentTypeSnippetContracts.IContentTypeSnippetContract
+    ): Promise<
+        | IImportItemResult<
+              ContentTypeSnippetContracts.IContentTypeSnippetContract,
+              ContentTypeSnippetModels.ContentTypeSnippet
+          >
+        | undefined
+    > {
+        const operations = this.getContentTypeSnippetMergeOperations(contentTypeSnippet, existingContentTypeSnippet);
+        const state: ImportItemState = operations.length ? 'updated' : 'unchanged';
+        const response = operations.length
+            ? await this.client
+                  .modifyContentTypeSnippet()
+                  .byTypeId(existingContentTypeSnippet.id)
+                  .withData(operations)
+                  .toPromise()
+                  .catch((error) =>
+                      this.handleImportError(
+                          error,
+                          {
+                              type: 'contentTypeSnippet',
+                              key: contentTypeSnippet.codename,
+                              title: contentTypeSnippet.name
+                          },
+                          'update'
+                      )
+                  )
+            : await this.client
+                  .viewContentTypeSnippet()
+                  .byTypeId(existingContentTypeSnippet.id)
+                  .toPromise()
+                  .catch((error) =>
+                      this.handleImportError(
+                          error,
+                          {
+                              type: 'contentTypeSnippet',
+                              key: contentTypeSnippet.codename,
+                              title: contentTypeSnippet.name
+                          },
+                          'view'
+                      )
+                  );
+
+        if (!response) {
+            return undefined;
+        }
+
+        this.processItem(response.data.name, 'contentTypeSnippet', response.data, state);
+
+        return {
+            imported: response.data,
+            original: contentTypeSnippet,
+            importId: response.data.id,
+            originalId: contentTypeSnippet.external_id,
+            state
+        };
+    }
+
+    /**
+     * Gets operations adding elements missing in existing content type snippet and updating its name.
+     * Existing elements are never removed or modified.
+     */
+    private getContentTypeSnippetMergeOperations(
+        contentTypeSnippet: ContentTypeSnippetContracts.IContentTypeSnippetContract,
+        existingContentTypeSnippet: ContentTypeSnippetContracts.IContentTypeSnippetContract
+    ): ContentTypeSnippetModels.IModifyContentTypeSnippetData[] {
+        const operations: ContentTypeSnippetModels.IModifyContentTypeSnippetData[] = [];
+
+        if (contentTypeSnippet.name !== existingContentTypeSnippet.name) {
+            operations.push({ op: 'replace', path: '/name', value: contentTypeSnippet.name });
+        }
+
+        for (const element of contentTypeSnippet.elements) {
+            if (!existingContentTypeSnippet.elements.find((m) => m.codename === element.codename)) {
+                operations.push({
+                    op: 'addInto',
+                    path: '/elements',
+                    value: contentTypeReferenceHelper.getElementWithoutContentTypeReferences(element)
+                });
+            }
+        }
+
+        return operations;
+    }
+
+    /**
+     * Sets content types allowed in elements of imported content types & snippets. Allowed content types are
+     * removed from elements when they are created as referenced content types may not exist yet. Elements that
+     * already have allowed content types in target project are not modified.
+     */
+    private async importContentTypeReferencesAsync(
+        preparedItems: IPreparedImportItem<
+            ContentTypeContracts.IContentTypeContract | ContentTypeSnippetContracts.IContentTypeSnippetContract
+        >[],
+        currentItems: IImportIdMapping[]
+    ): Promise<void> {
+        const existingContentTypes = (await this.client.listContentTypes().toAllPromise()).data.items.map(
+            (m) => m._raw
+        );
+        const existingContentTypeSnippets = (await this.client.listContentTypeSnippets().toAllPromise()).data.items.map(
+            (m) => m._raw
+        );
+
+        for (const preparedItem of preparedItems) {
+            const object = preparedItem.item;
+            const isSnippet = preparedItem.type === 'contentTypeSnippet';
+            const existingObject = this.findExistingObject<
+                ContentTypeContracts.IContentTypeContract | ContentTypeSnippetContracts.IContentTypeSnippetContract
+            >(isSnippet ? existingContentTypeSnippets : existingContentTypes, object);
+
+            if (!existingObject) {
+                // object failed to import and its error was already reported
+                continue;
+            }
+
+            const operations = contentTypeReferenceHelper.getContentTypeReferenceOperations(
+                object,
+                existingObject,
+                existingContentTypes,
+                currentItems
+            );
+
+            if (!operations.length) {
+                continue;
+            }
+
+            const request = isSnippet
+                ? this.client.modifyContentTypeSnippet().byTypeId(existingObject.id).withData(operations)
+                : this.client.modifyContentType().byTypeId(existingObject.id).withData(operations);
+
+            await request
+                .toPromise()
+                .then((response) => this.processItem(response.data.name, preparedItem.type, response.data, 'updated'))
+                .catch((error) =>
+                    this.handleImportError(
+                        error,
+                        { type: preparedItem.type, key: object.codename, title: object.name },
+                        'update'
+                    )
+                );
+        }
+    }
+
     private async importTaxonomiesAsync(
         taxonomies: TaxonomyContracts.ITaxonomyContract[]
     ): Promise<IImportItemResult<TaxonomyContracts.ITaxonomyContract, TaxonomyModels.Taxonomy>[]> {
         const importedItems: IImportItemResult<TaxonomyContracts.ITaxonomyContract, TaxonomyModels.Taxonomy>[] = [];
+        const existingTaxonomies: TaxonomyModels.Taxonomy[] = this.isMergeMode()
+            ? (await this.client.listTaxonomies().toPromise()).data.taxonomies
+            : [];
+
         for (const taxonomy of taxonomies) {
+            if (this.isJournaledItem('taxonomy', taxonomy.codename)) {
+                continue;
+            }
+
+            const existingTaxonomy = this.findExistingObject(
+                existingTaxonomies.map((m) => m._raw),
+                taxonomy
+            );
+
+            if (existingTaxonomy) {
+                const updatedTaxonomy = await this.updateTaxonomyAsync(taxonomy, existingTaxonomy);
+
+                if (updatedTaxonomy) {
+                    await this.addImportedItemAsync(importedItems, 'taxonomy', taxonomy.codename, updatedTaxonomy);
+                }
+                continue;
+            }
+
             await this.client
                 .addTaxonomy()
                 .withData(taxonomy)
                 .toPromise()
-                .then((response) => {
-                    importedItems.push({
+                .then(async (response) => {
+                    await this.addImportedItemAsync(importedItems, 'taxonomy', taxonomy.codename, {
                         imported: response.data,
                         original: taxonomy,
                         importId: response.data.id,
-                        originalId: taxonomy.id
+                        originalId: this.isMergeMode() ? taxonomy.external_id : taxonomy.id,
+                        state: 'created'
                     });
-                    this.processItem(response.data.name, 'taxonomy', response.data);
+                    this.processItem(response.data.name, 'taxonomy', response.data, 'created');
                 })
-                .catch((error) => this.handleImportError(error));
+                .catch((error) =>
+                    this.handleImportError(
+                        error,
+                        { type: 'taxonomy', key: taxonomy.codename, title: taxonomy.name },
+                        'create'
+                    )
+                );
         }
 
         return importedItems;
     }
 
-    private handleImportError(error: any | SharedModels.ContentManagementBaseKontentError): void {
-        console.log(error);
-        throw error;
+    private async updateTaxonomyAsync(
+        taxonomy: TaxonomyContracts.ITaxonomyContract,
+        existingTaxonomy: TaxonomyContracts.ITaxonomyContract
+    ): Promise<IImportItemResult<TaxonomyContracts.ITaxonomyContract, TaxonomyModels.Taxonomy> | undefined> {
+        const operations = this.getTaxonomyMergeOperations(taxonomy, existingTaxonomy);
+        const state: ImportItemState = operations.length ? 'updated' : 'unchanged';
+        const response = operations.length
+            ? await this.client
+                  .modifyTaxonomy()
+                  .byTaxonomyId(existingTaxonomy.id)
+                  .withData(operations)
+                  .toPromise()
+                  .catch((error) =>
+                      this.handleImportError(
+                          error,
+                          { type: 'taxonomy', key: taxonomy.codename, title: taxonomy.name },
+                          'update'
+                      )
+                  )
+            : await this.client
+                  .getTaxonomy()
+                  .byTaxonomyId(existingTaxonomy.id)
+                  .toPromise()
+                  .catch((error) =>
+                      this.handleImportError(
+                          error,
+                          { type: 'taxonomy', key: taxonomy.codename, title: taxonomy.name },
+                          'view'
+                      )
+                  );
+
+        if (!response) {
+            return undefined;
+        }
+
+        this.processItem(response.data.name, 'taxonomy', response.data, state);
+
+        return {
+            imported: response.data,
+            original: taxonomy,
+            importId: response.data.id,
+            originalId: taxonomy.external_id,
+            state
+        };
+    }
+
+    /**
+     * Gets operations adding terms missing in existing taxonomy and updating its name.
+     * Existing terms are never removed so that content in target project referencing them remains valid.
+     */
+    private getTaxonomyMergeOperations(
+        taxonomy: TaxonomyContracts.ITaxonomyContract,
+        existingTaxonomy: TaxonomyContracts.ITaxonomyContract
+    ): TaxonomyModels.IModifyTaxonomyData[] {
+        const operations: TaxonomyModels.IModifyTaxonomyData[] = [];
+
+        if (taxonomy.name !== existingTaxonomy.name) {
+            operations.push({ op: 'replace', property_name: 'name', value: taxonomy.name });
+        }
+
+        this.prepareTaxonomyTermMergeOperations(taxonomy.terms, existingTaxonomy.terms, undefined, operations);
+
+        return operations;
+    }
+
+    private prepareTaxonomyTermMergeOperations(
+        terms: TaxonomyContracts.ITaxonomyContract[],
+        existingTerms: TaxonomyContracts.ITaxonomyContract[],
+        parentTermCodename: string | undefined,
+        operations: TaxonomyModels.IModifyTaxonomyData[]
+    ): void {
+        for (const term of terms) {
+            const existingTerm = existingTerms.find((m) => m.codename === term.codename);
+
+            if (existingTerm) {
+                this.prepareTaxonomyTermMergeOperations(term.terms, existingTerm.terms, term.codename, operations);
+            } else {
+                operations.push({
+                    op: 'addInto',
+                    reference: parentTermCodename ? { codename: parentTermCodename } : undefined,
+                    value: this.mapTaxonomyTerm(term)
+                });
+            }
+        }
+    }
+
+    private mapTaxonomyTerm(term: TaxonomyContracts.ITaxonomyContract): TaxonomyModels.IAddTaxonomyRequestModel {
+        return {
+            name: term.name,
+            codename: term.codename,
+            external_id: term.external_id,
+            terms: term.terms.map((m) => this.mapTaxonomyTerm(m))
+        };
+    }
+
+    /**
+     * Clears journal when import starts or loads completed steps & imported objects when import is resumed
+     */
+    private async loadJournalAsync(sourceData: IImportSource): Promise<void> {
+        this.completedSteps = new Set<ImportStep>();
+        this.journaledItems = new Set<string>();
+        this.journaledIdMappings = [];
+
+        const journal = this.config.journal;
+        const packageEntry: IImportJournalPackageEntry = {
+            kind: 'package',
+            projectId: sourceData.metadata.projectId,
+            timestamp: sourceData.metadata.timestamp
+        };
+
+        if (!journal) {
+            if (this.config.resume) {
+                throw Error(`Import cannot be resumed because journal is not configured`);
+            }
+            return;
+        }
+
+        if (!this.config.resume) {
+            await journal.clearAsync();
+            await journal.appendAsync(packageEntry);
+            return;
+        }
+
+        const entries = await journal.loadAsync();
+
+        if (!entries.length) {
+            if (this.config.enableLog) {
+                console.log(`Journal is empty, import starts from the beginning`);
+            }
+            await journal.appendAsync(packageEntry);
+            return;
+        }
+
+        for (const entry of entries) {
+            if (entry.kind === 'package') {
+                if (!this.isJournalOfPackage(entry, packageEntry)) {
+                    throw Error(
+                        `Journal was created for package of project '${entry.projectId}' exported at '${entry.timestamp}' and cannot be used to resume import of this package`
+                    );
+                }
+            } else if (entry.kind === 'step') {
+                this.completedSteps.add(entry.step);
+            } else {
+                this.journaledItems.add(this.getJournalItemKey(entry.type, entry.key));
+
+                if (entry.originalId && entry.importId) {
+                    this.journaledIdMappings.push({
+                        originalId: entry.originalId,
+                        importId: entry.importId
+                    });
+                }
+            }
+        }
+
+        if (this.config.enableLog) {
+            console.log(
+                `Resuming import. '${this.completedSteps.size}' steps & '${this.journaledItems.size}' objects were completed in previous run`
+            );
+        }
+    }
+
+    private isJournalOfPackage(entry: IImportJournalPackageEntry, packageEntry: IImportJournalPackageEntry): boolean {
+        return (
+            entry.projectId === packageEntry.projectId &&
+            new Date(entry.timestamp).getTime() === new Date(packageEntry.timestamp).getTime()
+        );
+    }
+
+    private async importStepAsync(step: ImportStep, importStep: () => Promise<void>): Promise<void> {
+        if (this.completedSteps.has(step)) {
+            if (this.config.enableLog) {
+                console.log(`Skipping step '${step}' completed in previous run`);
+            }
+            return;
+        }
+
+        await importStep();
+        await this.appendJournalEntryAsync({ kind: 'step', step });
+    }
+
+    /**
+     * Combines ids of objects imported in previous run (stored in journal) with objects imported in current run
+     */
+    private getIdMappings(
+        importedItems: IImportItemResult<ValidImportContract, ValidImportModel>[]
+    ): IImportIdMapping[] {
+        return [...this.journaledIdMappings, ...importedItems];
+    }
+
+    private async addImportedItemAsync<TRaw, TModel>(
+        importedItems: IImportItemResult<TRaw, TModel>[],
+        type: ActionType,
+        key: string,
+        importedItem: IImportItemResult<TRaw, TModel>
+    ): Promise<void> {
+        importedItems.push(importedItem);
+        await this.appendJournalItemAsync(type, key, importedItem);
+    }
+
+    private async appendJournalItemAsync(type: ActionType, key: string, idMapping?: IImportIdMapping): Promise<void> {
+        await this.appendJournalEntryAsync({
+            kind: 'item',
+            type,
+            key,
+            originalId: idMapping?.originalId,
+            importId: idMapping?.importId
+        });
+    }
+
+    private async appendJournalEntryAsync(entry: ImportJournalEntry): Promise<void> {
+        if (this.config.journal) {
+            await this.config.journal.appendAsync(entry);
+        }
+    }
+
+    private isJournaledItem(type: ActionType, key: string): boolean {
+        return this.journaledItems.has(this.getJournalItemKey(type, key));
+    }
+
+    private getJournalItemKey(type: ActionType, key: string): string {
+        return `${type}:${key}`;
+    }
+
+    private getLanguageVariantJournalKey(itemCodename: string, languageCodename: string): string {
+        return `${itemCodename}:${languageCodename}`;
+    }
+
+    /**
+     * Reports error of given object & stops import unless error policy allows to continue with remaining objects
+     */
+    private handleImportError(
+        error: any | SharedModels.ContentManagementBaseKontentError,
+        object: Pick<IProcessingError, 'type' | 'key' | 'title'>,
+        operation: ProcessingOperation
+    ): undefined {
+        const processingError = processingErrorHelper.getProcessingError(error, object, operation);
+
+        this.errorsCount++;
+        processingErrorHelper.logProcessingError(processingError);
+
+        if (this.config.onError) {
+            this.config.onError(processingError);
+        }
+
+        processingErrorHelper.checkErrorPolicy(
+            error,
+            this.config.errorPolicy ?? 'failFast',
+            this.errorsCount,
+            this.config.maxErrors
+        );
+
+        return undefined;
+    }
+
+    private getLanguageVariantErrorObject(
+        itemCodename: string,
+        languageCodename: string
+    ): Pick<IProcessingError, 'type' | 'key' | 'title'> {
+        return {
+            type: 'languageVariant',
+            key: this.getLanguageVariantJournalKey(itemCodename, languageCodename),
+            title: `${itemCodename} (${languageCodename})`
+        };
+    }
+
+    /**
+     * Asset folders are imported in a single request so error is reported for all of them
+     */
+    private getAssetFoldersErrorObject(
+        assetFolders: AssetFolderContracts.IAssetFolderContract[]
+    ): Pick<IProcessingError, 'type' | 'key' | 'title'> {
+        return {
+            type: 'assetFolder',
+            key: assetFolders.map((m) => m.id).join(','),
+            title: assetFolders.map((m) => m.name).join(', ')
+        };
+    }
+
+    private isNotFoundError(error: any | SharedModels.ContentManagementBaseKontentError): boolean {
+        return (
+            error instanceof SharedModels.ContentManagementBaseKontentError &&
+            error.originalError?.response?.status === 404
+        );
+    }
+
+    private isMergeMode(): boolean {
+        return this.config.importMode === 'merge';
+    }
+
+    /**
+     * Finds object in target project matching the imported object. Objects are matched by codename first and
+     * then by external id (which equals id of original object for objects created by previous imports)
+     */
+    private findExistingObject<TExisting extends { codename?: string; external_id?: string }>(
+        existingObjects: TExisting[],
+        object: { codename?: string; external_id?: string }
+    ): TExisting | undefined {
+        return (
+            existingObjects.find((m) => m.codename && m.codename === object.codename) ??
+            existingObjects.find((m) => m.external_id && m.external_id === object.external_id)
+        );
+    }
+
+    private getAssetExternalId(asset: AssetContracts.IAssetModelContract): string {
+        return asset.external_id ?? asset.id;
     }
 
-    private processItem(title: string, type: ActionType, data: any): void {
+    private processItem(title: string, type: ActionType, data: any, state?: ImportItemState): void {
         if (!this.config.onImport) {
             return;
         }
@@ -815,14 +3194,15 @@ export class ImportService {
         this.config.onImport({
             data,
             title,
-            type
+            type,
+            state
         });
     }
 
     private getAddAssetModel(
         assetContract: AssetContracts.IAssetModelContract,
         binaryFileId: string,
-        currentItems: IImportItemResult<ValidImportContract, ValidImportModel>[]
+        currentItems: IImportIdMapping[]
     ): AssetModels.IAddAssetRequestData {
         const model: AssetModels.IAddAssetRequestData = {
             descriptions: assetContract.descriptions,
@@ -830,7 +3210,7 @@ export class ImportService {
                 id: binaryFileId,
                 type: assetContract.file_reference.type
             },
-            external_id: assetContract.external_id,
+            external_id: this.isMergeMode() ? this.getAssetExternalId(assetContract) : assetContract.external_id,
             folder: assetContract.folder,
             title: assetContract.title
         };
@@ -891,6 +3271,19 @@ export class ImportService {
         }
     }
 
+    private flattenAssetFolderModels(
+        assetFolders: AssetFolderModels.AssetFolder[],
+        flattened: AssetFolderModels.AssetFolder[]
+    ): void {
+        for (const assetFolder of assetFolders) {
+            flattened.push(assetFolder);
+
+            if (assetFolder.folders.length) {
+                this.flattenAssetFolderModels(assetFolder.folders, flattened);
+            }
+        }
+    }
+
     private mapAssetFolder(
         folder: AssetFolderContracts.IAssetFolderContract
     ): AssetFolderModels.IAddOrModifyAssetFolderData {
@@ -900,10 +3293,4 @@ export class ImportService {
             folders: folder.folders?.map((m) => this.mapAssetFolder(m)) ?? []
         };
     }
-
-    private getPublishedWorkflowStep(
-        workflowSteps: WorkflowContracts.IWorkflowStepContract[]
-    ): WorkflowContracts.IWorkflowStepContract | undefined {
-        return workflowSteps.find((m) => m.name === this.publishedWorkflowStepName);
-    }
 }
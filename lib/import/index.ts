@@ -1,2 +1,5 @@
 export * from './import.models';
 export * from './import.service';
+export * from './content-type-reference-helper';
+export * from './import-dependency-helper';
+export * from './language-variant-import-helper';
@@ -0,0 +1,47 @@
+import { ElementContracts, LanguageVariantContracts, WorkflowContracts } from '@kentico/kontent-management';
+
+import { getComparableJson, ILanguageVariantWithLifecycleContract, workflowStepHelper } from '../core';
+
+export class LanguageVariantImportHelper {
+    /**
+     * Gets id of workflow step of target project language variant ends up in after import. Workflow step given
+     * in import config overrides mapped workflow step. Scheduled language variants are not considered as their
+     * schedule cannot be compared.
+     */
+    getTargetWorkflowStepId(
+        languageVariant: ILanguageVariantWithLifecycleContract,
+        workflowSteps: WorkflowContracts.IWorkflowStepContract[],
+        workflowStepsMapping: Map<string, WorkflowContracts.IWorkflowStepContract>,
+        workflowIdForImportedItems?: string
+    ): string | undefined {
+        const lifecycle = workflowStepHelper.getLanguageVariantLifecycle(languageVariant, workflowSteps);
+        const sourceWorkflowStep = workflowStepHelper.getWorkflowStepOfLanguageVariant(languageVariant, workflowSteps);
+
+        if (lifecycle.state === 'scheduledPublish' || lifecycle.state === 'scheduledUnpublish' || !sourceWorkflowStep) {
+            return undefined;
+        }
+
+        return workflowIdForImportedItems ?? workflowStepsMapping.get(sourceWorkflowStep.id)?.id;
+    }
+
+    /**
+     * Elements are compared regardless of their order & order of their properties. References in elements
+     * of imported language variant are already translated to ids of target project.
+     */
+    isLanguageVariantChanged(
+        languageVariant: LanguageVariantContracts.ILanguageVariantModelContract,
+        existingLanguageVariant: LanguageVariantContracts.ILanguageVariantModelContract,
+        targetWorkflowStepId: string | undefined
+    ): boolean {
+        const getElementsJson = (elements: ElementContracts.IContentItemElementContract[]) =>
+            getComparableJson([...elements].sort((a, b) => (a.element.id ?? '').localeCompare(b.element.id ?? '')));
+
+        return (
+            !targetWorkflowStepId ||
+            existingLanguageVariant.workflow_step.id !== targetWorkflowStepId ||
+            getElementsJson(existingLanguageVariant.elements) !== getElementsJson(languageVariant.elements)
+        );
+    }
+}
+
+export const languageVariantImportHelper = new LanguageVariantImportHelper();
@@ -4,3 +4,4 @@ export * from './export';
 export * from './import';
 export * from './clean';
 export * from './zip';
+export * from './diff';
@@ -1,32 +1,127 @@
 #!/usr/bin/env node
 import { readFileSync } from 'fs';
+import * as path from 'path';
+import { createInterface } from 'readline';
 import * as yargs from 'yargs';
 
-import { CleanService } from '../../clean';
-import { ICliFileConfig, getFilenameWithoutExtension, CliAction, ItemType } from '../../core';
-import { ExportService } from '../../export';
-import { IImportSource, ImportService } from '../../import';
+import { CleanService, ICleanResult } from '../../clean';
+import {
+    ICliFileConfig,
+    getFilenameWithoutExtension,
+    CliAction,
+    ItemType,
+    ImportMode,
+    IEncryptionConfig,
+    cryptoHelper,
+    encryptionHelper,
+    ErrorPolicy,
+    IErrorReport,
+    ICliScheduledBackup,
+    IProcessingError,
+    IScheduledBackupReport,
+    PackageLayout,
+    retentionHelper,
+    StorageType
+} from '../../core';
+import { ExportService, IIncrementalExportBase } from '../../export';
+import {
+    IImportSource,
+    ImportPlanAction,
+    ImportService,
+    IUnmappedWorkflowStep,
+    IUnmappedWorkflowStepsReport
+} from '../../import';
 import { ZipService } from '../../zip';
+import { DiffService, IDiffResult, IDiffSource } from '../../diff';
 import { ProjectContracts, SharedModels } from '@kentico/kontent-management';
 import { FileService } from '../file/file.service';
-import { fileHelper } from '../file/file-helper';
+import { FileImportJournal } from '../file/file-import-journal';
+import { FileRetentionService } from '../file/file-retention.service';
+import { IFilePackageReader, IFilePackageWriter } from '../file/file.models';
+import { IStorageProvider } from '../storage/storage.models';
+import { LocalDirectoryStorageProvider } from '../storage/local-directory-storage-provider';
+import { S3StorageProvider } from '../storage/s3-storage-provider';
+import { Scheduler } from '../schedule/scheduler';
+import { nodeCryptoProvider } from '../crypto/node-crypto-provider';
+
+const encryptionPassphraseEnvVariable: string = 'KBM_ENCRYPTION_PASSPHRASE';
+const encryptionKeyEnvVariable: string = 'KBM_ENCRYPTION_KEY';
+const s3AccessKeyIdEnvVariable: string = 'AWS_ACCESS_KEY_ID';
+const s3SecretAccessKeyEnvVariable: string = 'AWS_SECRET_ACCESS_KEY';
+const s3SessionTokenEnvVariable: string = 'AWS_SESSION_TOKEN';
 
 const argv = yargs(process.argv.slice(2))
     .example('kbm --action=backup --apiKey=xxx --projectId=xxx', 'Creates zip backup of Kontent project')
+    .example(
+        'kbm --action=backup --apiKey=xxx --projectId=xxx --maxConcurrentAssetDownloads=5 --skipFailedAssetDownloads',
+        'Creates zip backup downloading 5 assets at the same time. Assets that cannot be downloaded are left out of backup'
+    )
     .example(
         'kbm --action=restore --apiKey=xxx --projectId=xxx --zipFilename=backupFile',
         'Read given zip file and recreates data in Kontent project'
     )
     .example(
-        'kbm --action=clean --apiKey=xxx --projectId=xxx',
-        'Deletes data from given Kontent project. Use with care, this action is not reversible.'
+        'kbm --action=backup --apiKey=xxx --projectId=xxx --incrementalFrom=backupFile,incrementalBackupFile',
+        'Creates incremental zip backup containing only content changed since the last given package'
+    )
+    .example(
+        'kbm --action=restore --apiKey=xxx --projectId=xxx --zipFilename=backupFile --incrementalZipFilenames=incrementalBackupFile',
+        'Applies incremental packages on top of given zip file and recreates resulting data in Kontent project'
+    )
+    .example(
+        'kbm --action=restore --apiKey=xxx --projectId=xxx --zipFilename=backupFile --importMode=merge',
+        'Read given zip file and updates data already existing in Kontent project instead of creating them'
+    )
+    .example(
+        'kbm --action=restore --apiKey=xxx --projectId=xxx --zipFilename=backupFile --dryRun',
+        'Creates import plan describing what restore would do without making any changes in Kontent project'
+    )
+    .example(
+        'kbm --action=restore --apiKey=xxx --projectId=xxx --zipFilename=backupFile --resume',
+        'Continues restore that did not finish. Objects imported by previous run are not imported again'
+    )
+    .example(
+        'kbm --action=backup --apiKey=xxx --projectId=xxx --encryptionPassphrase=xxx',
+        'Creates encrypted zip backup. Encrypted zip files are decrypted automatically on restore when passphrase is provided'
+    )
+    .example(
+        'kbm --action=restore --apiKey=xxx --projectId=xxx --zipFilename=backupFile --selectItems=pricing_*',
+        'Restores only content items whose codename starts with pricing_ together with all objects they depend on'
+    )
+    .example(
+        'kbm --action=restore --apiKey=xxx --projectId=xxx --zipFilename=backupFile --errorPolicy=continue --maxErrors=50',
+        'Restores objects that can be imported and stops after 50 errors. Objects that failed are listed in error report'
+    )
+    .example(
+        'kbm --action=verify --zipFilename=backupFile',
+        'Checks that zip file contains all files and that none of them is corrupted'
+    )
+    .example(
+        'kbm --action=diff --zipFilename=backupFile --compareWith=newerBackupFile',
+        'Lists objects added, removed or changed between given zip files'
+    )
+    .example(
+        'kbm --action=drift --apiKey=xxx --projectId=xxx --zipFilename=backupFile',
+        'Lists objects added, removed or changed in Kontent project since given zip file was created'
+    )
+    .example(
+        'kbm --action=clean --apiKey=xxx --projectId=xxx --cleanContentTypes=test_* --dryRun',
+        'Lists content items of content types whose codename starts with test_ that clean would delete'
+    )
+    .example(
+        'kbm --action=clean --apiKey=xxx --projectId=xxx --confirm=xxx --forceClean',
+        'Creates safety backup of given Kontent project and deletes its data. Use with care, data can be recovered only by restoring the safety backup.'
+    )
+    .example(
+        'kbm --action=schedule --config=schedule-config.json',
+        'Runs backups listed in config file on their cron schedules until the process is terminated'
     )
     .alias('p', 'projectId')
     .describe('p', 'ProjectId')
     .alias('k', 'apiKey')
     .describe('k', 'Management API Key')
     .alias('a', 'action')
-    .describe('a', 'Action to perform. One of: backup, restore & clean')
+    .describe('a', 'Action to perform. One of: backup, restore, clean, verify, diff, drift & schedule')
     .alias('z', 'zipFilename')
     .describe('z', 'Name of zip used for export / restore')
     .alias('l', 'enableLog')
@@ -41,96 +136,714 @@ const argv = yargs(process.argv.slice(2))
     .alias('p', 'enablePublish')
     .describe(
         'p',
-        'Indicates if language variants published on the source project are also published on target. Enabled by default'
+        'Indicates if language variants published (or scheduled) on the source project are also published (or scheduled) on target. Enabled by default'
     )
     .alias('e', 'exportFilter')
     .describe(
         'e',
-        'Can be used to export only selected data types. Expects CSV of types. Supported types: taxonomy, contentType, contentTypeSnippet, contentItem, languageVariant, language, assetFolder, binaryFile & workflowSteps'
+        'Can be used to export only selected data types. Expects CSV of types. Supported types: taxonomy, contentType, contentTypeSnippet, contentItem, languageVariant, language, assetFolder, binaryFile, workflowStep, webhook & collection'
+    )
+    .describe(
+        'importMode',
+        'Import mode used for restore. One of: create (default) & merge. Merge mode updates objects already existing in target project instead of creating them. Content types, snippets & taxonomies are only extended with missing elements, content groups & terms, their existing elements & terms are not changed.'
+    )
+    .describe(
+        'dryRun',
+        'Restore or clean is only simulated. Restore stores import plan describing changes that would be made next to the zip file, clean lists objects that would be deleted.'
+    )
+    .describe(
+        'resume',
+        'Continues previous restore of the same zip file using journal stored next to the zip file (in current folder when zip file is stored in S3). Objects imported by previous run are skipped.'
+    )
+    .describe('maxConcurrentAssetDownloads', 'Maximum number of assets downloaded at the same time during backup. Defaults to 1.')
+    .describe(
+        'skipFailedAssetDownloads',
+        'If enabled, assets that could not be downloaded are left out of backup and listed in package metadata. Otherwise backup fails.'
+    )
+    .describe(
+        'incrementalFrom',
+        'Creates incremental backup based on given packages. Expects CSV of zip filenames starting with full backup followed by incremental backups in the order they were created.'
+    )
+    .describe(
+        'incrementalZipFilenames',
+        'Incremental packages applied on top of restored zip file. Expects CSV of zip filenames in the order they were created.'
+    )
+    .describe(
+        'selectItems',
+        'Restores only selected content items together with all objects they depend on. Expects CSV of content item codenames, * matches any characters.'
+    )
+    .describe(
+        'selectContentTypes',
+        'Restores only content items of selected content types together with all objects they depend on. Expects CSV of content type codenames, * matches any characters.'
+    )
+    .describe(
+        'selectCollections',
+        'Restores only content items in selected collections together with all objects they depend on. Expects CSV of collection codenames, * matches any characters.'
+    )
+    .describe(
+        'exportCollections',
+        'Backs up only content items (and their language variants) in selected collections. Expects CSV of collection codenames, * matches any characters.'
+    )
+    .describe(
+        'cleanFilter',
+        'Types of objects deleted by clean. Expects CSV of types. Supported types: taxonomy, contentType, contentTypeSnippet, contentItem, languageVariant, asset & assetFolder'
+    )
+    .describe(
+        'cleanContentTypes',
+        'Clean deletes only content items of given content types. Expects CSV of content type codenames, * matches any characters.'
+    )
+    .describe(
+        'cleanLanguages',
+        'Clean deletes only language variants in given languages. Expects CSV of language codenames, * matches any characters.'
+    )
+    .describe(
+        'confirm',
+        'Id of cleaned project. Required to run clean in non-interactive mode, otherwise project id has to be typed.'
+    )
+    .describe(
+        'forceClean',
+        'If enabled, clean deletes data even when project contains content items, assets, content types, snippets or taxonomies'
+    )
+    .describe(
+        'skipSafetyBackup',
+        'If enabled, project is not backed up before clean. Otherwise safety backup is created before anything is deleted.'
+    )
+    .describe('includeWebhookSecrets', 'If enabled, secrets of webhooks are exported. Secrets are redacted by default.')
+    .describe(
+        'enableWebhooks',
+        'If enabled, restored webhooks are enabled. Webhooks are disabled by default so that restored project does not notify services of source project.'
+    )
+    .describe(
+        'storage',
+        'Storage of zip files & reports. One of: local & s3. Files are stored in current folder by default.'
+    )
+    .describe('storageDirectory', 'Directory in which files are stored when using local storage')
+    .describe('s3Bucket', 'Bucket in which files are stored when using s3 storage')
+    .describe('s3Region', 'Region of bucket when using s3 storage')
+    .describe(
+        's3Endpoint',
+        'Endpoint of S3 compatible service (e.g. http://localhost:9000). Defaults to AWS S3 endpoint of given region.'
+    )
+    .describe('s3Prefix', 'Prefix of stored object keys (e.g. backups/) when using s3 storage')
+    .describe(
+        'packageLayout',
+        'Layout of backup. One of: flat & directory. Flat layout (default) creates zip file, directory layout creates directory with pretty-printed json files suitable for version control.'
+    )
+    .describe(
+        'deterministic',
+        `Backup of unchanged project is byte-identical to previous backup. Time of export is stored in separate '<zipFilename>_metadata.json' file.`
+    )
+    .describe('keepLast', 'Retention policy of backup. Number of the most recent backups to keep.')
+    .describe('keepDaily', 'Retention policy of backup. Number of days for which the latest backup of the day is kept.')
+    .describe(
+        'keepWeekly',
+        'Retention policy of backup. Number of weeks for which the latest backup of the week is kept.'
+    )
+    .describe(
+        'keepMonthly',
+        'Retention policy of backup. Number of months for which the latest backup of the month is kept.'
+    )
+    .describe(
+        'errorPolicy',
+        'One of: failFast & continue. Restore fails fast by default, clean continues by default. Errors are stored in error report next to the zip file.'
+    )
+    .describe('maxErrors', 'Restore or clean using continue error policy is stopped once number of errors reaches this number')
+    .describe('compareWith', 'Zip file compared with zip file given by zipFilename when using diff action')
+    .describe(
+        'encryptionPassphrase',
+        `Passphrase used to encrypt backup & decrypt restored zip files. Can also be set using '${encryptionPassphraseEnvVariable}' environment variable.`
+    )
+    .describe(
+        'encryptionKeyFile',
+        `File with 256-bit key (hex encoded or raw) used instead of passphrase. Hex encoded key can also be set using '${encryptionKeyEnvVariable}' environment variable.`
     )
     .help('h')
     .alias('h', 'help').argv;
 
-const backupAsync = async (config: ICliFileConfig) => {
-    const exportService = new ExportService({
+const createExportService = (config: ICliFileConfig, incrementalBase?: IIncrementalExportBase) => {
+    return new ExportService({
         apiKey: config.apiKey,
         projectId: config.projectId,
         baseUrl: config.baseUrl,
         exportFilter: config.exportFilter,
+        incrementalBase,
+        includeWebhookSecrets: config.includeWebhookSecrets,
+        collections: config.exportCollections,
         onExport: (item) => {
             if (config.enableLog) {
                 console.log(`Exported: ${item.title} | ${item.type}`);
             }
         }
     });
+};
 
-    const fileService = new FileService({
-        enableLog: config.enableLog
-    });
+const getIncrementalExportBaseAsync = async (
+    zipFilenames: string[],
+    fileService: FileService,
+    zipService: ZipService
+): Promise<IIncrementalExportBase> => {
+    const packageReaders = await openPackageReadersAsync(zipFilenames, fileService);
+    const [basePackageReader, ...incrementalPackageReaders] = packageReaders;
+    const baseData = await zipService.readPackageAsync(basePackageReader, incrementalPackageReaders);
+
+    packageReaders.forEach((m) => m.close());
+
+    return {
+        filename: zipFilenames[zipFilenames.length - 1],
+        metadata: baseData.metadata,
+        contentItems: baseData.importData.contentItems,
+        languageVariants: baseData.importData.languageVariants,
+        assets: baseData.importData.assets
+    };
+};
+
+const openPackageReadersAsync = async (zipFilenames: string[], fileService: FileService) => {
+    const packageReaders: IFilePackageReader[] = [];
+
+    for (const zipFilename of zipFilenames) {
+        packageReaders.push(await fileService.openPackageReaderAsync(zipFilename));
+    }
+
+    return packageReaders;
+};
+
+/**
+ * Package writer & state of package are stored in given running backup so that scheduled backup can be aborted
+ */
+const backupAsync = async (config: ICliFileConfig, runningBackup?: IRunningScheduledBackup) => {
+    const encryption = getEncryptionConfig(config);
+    const fileService = createFileService(config, encryption);
 
     const zipService = new ZipService({
         enableLog: config.enableLog,
-        context: 'node.js'
+        context: 'node.js',
+        encryption,
+        maxConcurrentAssetDownloads: config.maxConcurrentAssetDownloads,
+        skipFailedAssetDownloads: config.skipFailedAssetDownloads,
+        deterministic: config.deterministic,
+        onFailedAssetDownload: (failedAssetDownload) => {
+            console.log(
+                `Failed to download asset '${failedAssetDownload.filename}' (${failedAssetDownload.assetId}): ${failedAssetDownload.error}`
+            );
+        }
     });
 
+    const exportService = createExportService(
+        config,
+        config.incrementalFrom?.length
+            ? await getIncrementalExportBaseAsync(config.incrementalFrom, fileService, zipService)
+            : undefined
+    );
+
     const report = await exportService.exportProjectValidationAsync();
 
     const response = await exportService.exportAllAsync();
-    const zipFileData = await zipService.createZipAsync(response);
 
-    await fileService.writeFileAsync(config.zipFilename, zipFileData);
+    if (runningBackup?.isAborted) {
+        throw Error(`Backup was aborted`);
+    }
+
+    const packageWriter: IFilePackageWriter =
+        config.packageLayout === 'directory'
+            ? await fileService.createDirectoryPackageWriterAsync(config.zipFilename)
+            : fileService.createZipFileWriter(config.zipFilename);
+
+    if (runningBackup) {
+        runningBackup.packageWriter = packageWriter;
+    }
+
+    try {
+        await zipService.writePackageAsync(response, packageWriter);
+        await packageWriter.closeAsync();
+    } catch (error) {
+        // partially written package would be mistaken for a valid backup
+        await packageWriter.abortAsync();
+        throw error;
+    }
+
+    // metadata are stored next to the package as well so that retention policy does not have to open the package
+    await fileService.savePackageMetadataAsync(config.zipFilename, response.metadata);
+
+    if (runningBackup) {
+        runningBackup.isPackageWritten = true;
+    }
+
+    if (runningBackup?.isAborted) {
+        console.log(`Backup was aborted. Package was kept and retention policy was not applied.`);
+        return;
+    }
 
     if (exportContainsInconsistencies(report)) {
         const logFilename: string = getLogFilename(config.zipFilename);
 
-        await fileHelper.createFileInCurrentFolderAsync(logFilename, JSON.stringify(report));
+        await fileService.saveFileAsync(logFilename, JSON.stringify(report));
 
         console.log(`Project contains inconsistencies which may cause future import to not work.`);
         console.log(`See '${logFilename}' for more details.`);
     }
 
+    if (config.retention && retentionHelper.hasRules(config.retention)) {
+        const retentionService = new FileRetentionService(
+            {
+                enableLog: config.enableLog,
+                projectId: config.projectId,
+                policy: config.retention
+            },
+            fileService,
+            zipService
+        );
+
+        await retentionService.applyAsync(config.zipFilename);
+    }
+
     console.log('Completed');
 };
 
+/**
+ * Runs scheduled backups until the process receives SIGTERM or SIGINT. Running backups are finished before
+ * the process exits, second signal aborts them and third signal exits immediately.
+ */
+const scheduleAsync = async (config: ICliFileConfig) => {
+    const runningBackups = new Map<string, IRunningScheduledBackup>();
+    const scheduler = new Scheduler({
+        maxConcurrentRuns: config.schedule?.maxConcurrentBackups,
+        jobs: (config.schedule?.backups ?? []).map((backup) => {
+            const name = getScheduledBackupName(backup);
+
+            return {
+                name,
+                cron: backup.cron,
+                runAsync: async () =>
+                    await runScheduledBackupAsync(getScheduledBackupConfig(config, backup), name, runningBackups)
+            };
+        })
+    });
+
+    scheduler.start();
+
+    await new Promise<void>((resolve) => {
+        let isStopping: boolean = false;
+        let isAborting: boolean = false;
+
+        const onSignal = (signal: string) => {
+            if (isAborting) {
+                console.log(`Received ${signal}. Exiting without waiting for aborted backups.`);
+                process.exit(1);
+            }
+
+            if (isStopping) {
+                isAborting = true;
+                console.log(`Received ${signal}. Aborting running backups.`);
+                abortScheduledBackupsAsync(runningBackups)
+                    .then(() => scheduler.stopAsync())
+                    .catch((error) => console.log(`Aborting backups failed:`, error))
+                    .then(() => process.exit(1));
+                return;
+            }
+
+            isStopping = true;
+            console.log(`Received ${signal}. No more backups will be started.`);
+
+            if (runningBackups.size) {
+                console.log(
+                    `Waiting for running backups to finish: ${[...runningBackups.keys()].join(
+                        ', '
+                    )}. Send the signal again to abort them.`
+                );
+            }
+
+            scheduler.stopAsync().then(() => resolve());
+        };
+
+        process.on('SIGTERM', onSignal);
+        process.on('SIGINT', onSignal);
+    });
+
+    console.log('Scheduler stopped');
+};
+
+interface IRunningScheduledBackup {
+    config: ICliFileConfig;
+    startedAt: Date;
+    /**
+     * Set once package of backup starts to be written
+     */
+    packageWriter?: IFilePackageWriter;
+    /**
+     * Set once package & its metadata are written
+     */
+    isPackageWritten?: boolean;
+    /**
+     * Set once backup is aborted. Package which is already written is kept but retention policy is not applied.
+     */
+    isAborted?: boolean;
+}
+
+const runScheduledBackupAsync = async (
+    config: ICliFileConfig,
+    name: string,
+    runningBackups: Map<string, IRunningScheduledBackup>
+) => {
+    const runningBackup: IRunningScheduledBackup = { config, startedAt: new Date() };
+
+    runningBackups.set(name, runningBackup);
+
+    try {
+        await backupAsync(config, runningBackup);
+        await saveScheduledBackupReportAsync(name, runningBackup, runningBackup.isAborted ? 'aborted' : 'completed');
+    } catch (error) {
+        // backup fails when its package writer is aborted
+        if (!runningBackup.isAborted) {
+            await saveScheduledBackupReportAsync(name, runningBackup, 'failed', error);
+            throw error;
+        }
+
+        await saveScheduledBackupReportAsync(name, runningBackup, 'aborted');
+    } finally {
+        runningBackups.delete(name);
+    }
+};
+
+/**
+ * Marks running backups as aborted & removes their partially written packages (zip files or directories).
+ * Packages which are already written are kept, only retention policy is not applied to them.
+ */
+const abortScheduledBackupsAsync = async (runningBackups: Map<string, IRunningScheduledBackup>) => {
+    for (const runningBackup of runningBackups.values()) {
+        runningBackup.isAborted = true;
+    }
+
+    for (const runningBackup of runningBackups.values()) {
+        if (!runningBackup.isPackageWritten) {
+            await runningBackup.packageWriter?.abortAsync();
+        }
+    }
+};
+
+const saveScheduledBackupReportAsync = async (
+    name: string,
+    runningBackup: IRunningScheduledBackup,
+    status: IScheduledBackupReport['status'],
+    error?: any
+) => {
+    const config = runningBackup.config;
+    const reportFilename: string = getRunReportFilename(config.zipFilename);
+    const report: IScheduledBackupReport = {
+        metadata: {
+            timestamp: new Date(),
+            projectId: config.projectId,
+            name
+        },
+        status,
+        zipFilename: config.zipFilename,
+        isPackageKept: status === 'aborted' ? runningBackup.isPackageWritten === true : undefined,
+        startedAt: runningBackup.startedAt,
+        finishedAt: new Date(),
+        error: error ? getErrorMessage(error) : undefined
+    };
+
+    await createFileService(config).saveFileAsync(reportFilename, JSON.stringify(report));
+
+    console.log(`Result of '${name}' backup was saved to '${reportFilename}'`);
+};
+
+const getErrorMessage = (error: any): string => {
+    if (error instanceof SharedModels.ContentManagementBaseKontentError) {
+        return [error.message, ...error.validationErrors.map((m) => m.message)].join(' ');
+    }
+
+    return error instanceof Error ? error.message : `${error}`;
+};
+
+const getScheduledBackupName = (backup: ICliScheduledBackup): string => {
+    return backup.name ?? backup.projectId ?? '';
+};
+
+/**
+ * Gets config of scheduled backup. Each run creates new zip file whose name starts with zip filename of backup.
+ */
+const getScheduledBackupConfig = (config: ICliFileConfig, backup: ICliScheduledBackup): ICliFileConfig => {
+    const timestamp: string = new Date().toISOString().replace(/[:.]/g, '-');
+
+    return {
+        ...config,
+        ...backup,
+        action: 'backup',
+        schedule: undefined,
+        zipFilename: `${backup.zipFilename ?? `kontent-backup-${getScheduledBackupName(backup)}`}-${timestamp}`
+    };
+};
+
 const getLogFilename = (filename: string) => {
     return `${getFilenameWithoutExtension(filename)}_log.json`;
 };
 
+const getPlanFilename = (filename: string) => {
+    return `${getFilenameWithoutExtension(filename)}_plan.json`;
+};
+
+const getVerificationFilename = (filename: string) => {
+    return `${getFilenameWithoutExtension(filename)}_verification.json`;
+};
+
+const getDiffFilename = (filename: string) => {
+    return `${getFilenameWithoutExtension(filename)}_diff.json`;
+};
+
+const getRunReportFilename = (filename: string) => {
+    return `${getFilenameWithoutExtension(filename)}_run.json`;
+};
+
+const getDriftFilename = (filename: string) => {
+    return `${getFilenameWithoutExtension(filename)}_drift.json`;
+};
+
+const getJournalFilename = (filename: string) => {
+    return `${getFilenameWithoutExtension(filename)}_journal.jsonl`;
+};
+
+const getErrorReportFilename = (filename: string) => {
+    return `${getFilenameWithoutExtension(filename)}_errors.json`;
+};
+
+const getWorkflowStepsReportFilename = (filename: string) => {
+    return `${getFilenameWithoutExtension(filename)}_workflowSteps.json`;
+};
+
+/**
+ * Stores errors of objects that could not be processed & sets non-zero exit code when there are any
+ */
+const reportErrorsAsync = async (config: ICliFileConfig, filename: string, errors: IProcessingError[]) => {
+    if (!errors.length) {
+        return;
+    }
+
+    const fileService = createFileService(config);
+    const errorReportFilename: string = getErrorReportFilename(filename);
+    const errorReport: IErrorReport = {
+        metadata: {
+            timestamp: new Date(),
+            projectId: config.projectId,
+            action: config.action
+        },
+        errors
+    };
+
+    await fileService.saveFileAsync(errorReportFilename, JSON.stringify(errorReport));
+
+    console.log(`'${errors.length}' errors occurred. See '${errorReportFilename}' for details.`);
+    process.exitCode = 1;
+};
+
+/**
+ * Stores language variants that could not be moved to their workflow step because the step does not exist in target project
+ */
+const reportUnmappedWorkflowStepsAsync = async (
+    config: ICliFileConfig,
+    filename: string,
+    languageVariants: IUnmappedWorkflowStep[]
+) => {
+    if (!languageVariants.length) {
+        return;
+    }
+
+    const fileService = createFileService(config);
+    const reportFilename: string = getWorkflowStepsReportFilename(filename);
+    const report: IUnmappedWorkflowStepsReport = {
+        metadata: {
+            timestamp: new Date(),
+            projectId: config.projectId
+        },
+        languageVariants
+    };
+
+    await fileService.saveFileAsync(reportFilename, JSON.stringify(report));
+
+    console.log(
+        `'${languageVariants.length}' language variants were left in their initial workflow step. See '${reportFilename}' for details.`
+    );
+};
+
 const cleanAsync = async (config: ICliFileConfig) => {
+    const errors: IProcessingError[] = [];
+    const cleanFilename: string = `clean-${config.projectId}`;
     const cleanService = new CleanService({
         onDelete: (item) => {
             if (config.enableLog) {
                 console.log(`Deleted: ${item.title} | ${item.type}`);
             }
         },
+        onError: (error) => errors.push(error),
+        errorPolicy: config.errorPolicy,
+        maxErrors: config.maxErrors,
+        filter: {
+            itemTypes: config.cleanFilter,
+            contentTypes: config.cleanContentTypes,
+            languages: config.cleanLanguages
+        },
+        dryRun: config.dryRun,
         baseUrl: config.baseUrl,
         projectId: config.projectId,
         apiKey: config.apiKey
     });
 
-    await cleanService.cleanAllAsync();
+    if (!config.dryRun) {
+        await confirmCleanAsync(config, cleanService);
+    }
+
+    let result: ICleanResult;
 
-    console.log('Completed');
+    try {
+        result = await cleanService.cleanAllAsync();
+    } finally {
+        await reportErrorsAsync(config, cleanFilename, errors);
+    }
+
+    if (config.dryRun) {
+        const fileService = createFileService(config);
+        const planFilename: string = getPlanFilename(cleanFilename);
+
+        await fileService.saveFileAsync(planFilename, JSON.stringify(result));
+
+        for (const item of result.items) {
+            console.log(`Delete: ${item.title} | ${item.type}`);
+        }
+
+        console.log(
+            `Dry run completed. '${result.items.length}' objects would be deleted. No changes were made to the project. See '${planFilename}' for details.`
+        );
+        return;
+    }
+
+    console.log(errors.length ? 'Completed with errors' : 'Completed');
 };
 
-const restoreAsync = async (config: ICliFileConfig) => {
+/**
+ * Makes sure clean deletes data of intended project & that the data can be recovered
+ */
+const confirmCleanAsync = async (config: ICliFileConfig, cleanService: CleanService) => {
+    if (config.confirm !== undefined) {
+        if (config.confirm !== config.projectId) {
+            throw Error(`Confirmed project id '${config.confirm}' does not match project id '${config.projectId}'`);
+        }
+    } else if (process.stdin.isTTY) {
+        const answer = await promptAsync(
+            `Clean permanently deletes data of project '${config.projectId}'. Type project id to confirm: `
+        );
+
+        if (answer.trim() !== config.projectId) {
+            throw Error(`Typed project id does not match project id '${config.projectId}'. Clean was cancelled.`);
+        }
+    } else {
+        throw Error(`Clean was not confirmed. Please set 'confirm' option to id of cleaned project.`);
+    }
+
+    if (!config.forceClean && (await cleanService.hasContentAsync())) {
+        throw Error(
+            `Project '${config.projectId}' contains content items, assets, content types, snippets or taxonomies. To delete data of such project, set 'forceClean' option.`
+        );
+    }
+
+    if (config.skipSafetyBackup) {
+        console.log(`Skipping safety backup. Deleted data cannot be recovered.`);
+        return;
+    }
+
+    const safetyBackupFilename: string = await createSafetyBackupAsync(config);
+    const safetyBackupPath: string = createFileService(config).getLocation(safetyBackupFilename);
+    const zipFilename: string = getFilenameWithoutExtension(safetyBackupFilename);
+
+    console.log(`Safety backup was created in '${safetyBackupPath}'`);
+    console.log(`To undo the clean run: kbm --action=restore --zipFilename=${zipFilename}`);
+};
+
+/**
+ * Backs up whole project (regardless of export filter) & returns filename of created zip file
+ */
+const createSafetyBackupAsync = async (config: ICliFileConfig): Promise<string> => {
+    const timestamp: string = new Date().toISOString().replace(/[:.]/g, '-');
+    const safetyBackupFilename: string = `kontent-safety-backup-${config.projectId}-${timestamp}`;
+    const encryption = getEncryptionConfig(config);
+    const fileService = createFileService(config, encryption);
     const zipService = new ZipService({
         enableLog: config.enableLog,
-        context: 'node.js'
+        context: 'node.js',
+        encryption,
+        maxConcurrentAssetDownloads: config.maxConcurrentAssetDownloads
     });
 
-    const fileService = new FileService({
-        enableLog: config.enableLog
+    console.log(`Creating safety backup of project '${config.projectId}'`);
+
+    const response = await createExportService({
+        ...config,
+        exportFilter: undefined,
+        exportCollections: undefined
+    }).exportAllAsync();
+    const zipFileWriter = fileService.createZipFileWriter(safetyBackupFilename);
+
+    try {
+        await zipService.writePackageAsync(response, zipFileWriter);
+        await zipFileWriter.closeAsync();
+    } catch (error) {
+        // partially written safety backup could not be used to undo the clean
+        await zipFileWriter.abortAsync();
+        throw error;
+    }
+
+    return `${safetyBackupFilename}.zip`;
+};
+
+const promptAsync = (question: string): Promise<string> => {
+    return new Promise<string>((resolvePrompt) => {
+        const readline = createInterface({ input: process.stdin, output: process.stdout });
+
+        readline.question(question, (answer) => {
+            readline.close();
+            resolvePrompt(answer);
+        });
     });
+};
+
+const restoreAsync = async (config: ICliFileConfig) => {
+    const errors: IProcessingError[] = [];
+    const unmappedWorkflowSteps: IUnmappedWorkflowStep[] = [];
+    const encryption = getEncryptionConfig(config);
+    const zipService = new ZipService({
+        enableLog: config.enableLog,
+        context: 'node.js',
+        encryption
+    });
+
+    const fileService = createFileService(config, encryption);
+    const journalFilename = getJournalFilename(config.zipFilename);
 
     const importService = new ImportService({
         onImport: (item) => {
             if (config.enableLog) {
-                console.log(`Imported: ${item.title} | ${item.type}`);
+                console.log(`Imported: ${item.title} | ${item.type}${item.state ? ` | ${item.state}` : ''}`);
             }
         },
+        onError: (error) => errors.push(error),
+        onUnmappedWorkflowStep: (languageVariant) => unmappedWorkflowSteps.push(languageVariant),
+        enableWebhooks: config.enableWebhooks,
+        errorPolicy: config.errorPolicy,
+        maxErrors: config.maxErrors,
         enablePublish: config.enablePublish,
         baseUrl: config.baseUrl,
+        importMode: config.importMode,
+        journal: new FileImportJournal({
+            // journal is stored on local disk as remote storages do not support appending to files
+            filename: fileService.getLocalFilePath(journalFilename) ?? journalFilename
+        }),
+        resume: config.resume,
+        selection:
+            config.selectItems?.length || config.selectContentTypes?.length || config.selectCollections?.length
+                ? {
+                      contentItems: config.selectItems,
+                      contentTypes: config.selectContentTypes,
+                      collections: config.selectCollections
+                  }
+                : undefined,
         fixLanguages: true,
         projectId: config.projectId,
         apiKey: config.apiKey,
@@ -143,25 +856,226 @@ const restoreAsync = async (config: ICliFileConfig) => {
         }
     });
 
-    const file = await fileService.loadFileAsync(config.zipFilename);
+    // binary files are read from zip files only when assets are imported
+    const packageReaders = await openPackageReadersAsync(
+        [config.zipFilename, ...(config.incrementalZipFilenames ?? [])],
+        fileService
+    );
+
+    try {
+        await restoreFromPackageAsync(config, importService, zipService, fileService, packageReaders, errors);
+    } finally {
+        // closing readers also removes temporary files of decrypted zip files
+        packageReaders.forEach((m) => m.close());
+
+        await reportErrorsAsync(config, config.zipFilename, errors);
+        await reportUnmappedWorkflowStepsAsync(config, config.zipFilename, unmappedWorkflowSteps);
+    }
+};
+
+const restoreFromPackageAsync = async (
+    config: ICliFileConfig,
+    importService: ImportService,
+    zipService: ZipService,
+    fileService: FileService,
+    packageReaders: IFilePackageReader[],
+    errors: IProcessingError[]
+) => {
+    const [packageReader, ...incrementalPackageReaders] = packageReaders;
+    const data = await zipService.readPackageAsync(packageReader, incrementalPackageReaders);
 
-    const data = await zipService.extractZipAsync(file);
+    if (config.dryRun) {
+        const plan = await importService.getImportPlanAsync(data);
+        const planFilename: string = getPlanFilename(config.zipFilename);
+
+        await fileService.saveFileAsync(planFilename, JSON.stringify(plan));
+
+        const actions: ImportPlanAction[] = ['create', 'update', 'skip', 'conflict'];
+        for (const action of actions) {
+            console.log(`${action}: ${plan.items.filter((m) => m.action === action).length}`);
+        }
+        for (const languageRename of plan.languageRenames) {
+            console.log(`Language codename '${languageRename.from}' will be renamed to '${languageRename.to}'`);
+        }
+
+        console.log(`Dry run completed. No changes were made to the project. See '${planFilename}' for details.`);
+        return;
+    }
 
     if (canImport(data, config)) {
         await importService.importFromSourceAsync(data);
 
-        console.log('Completed');
+        console.log(errors.length ? 'Completed with errors' : 'Completed');
     } else {
         const logFilename: string = getLogFilename(config.zipFilename);
 
-        await fileHelper.createFileInCurrentFolderAsync(logFilename, JSON.stringify(data.validation));
+        await fileService.saveFileAsync(logFilename, JSON.stringify(data.validation));
 
         console.log(`Project could not be imported due to data inconsistencies.`);
-        console.log(`A log file '${logFilename}' with issues was created in current folder.`);
+        console.log(`A log file '${fileService.getLocation(logFilename)}' with issues was created.`);
         console.log(`To import data regardless of issues, set 'force' config parameter to true`);
     }
 };
 
+const verifyAsync = async (config: ICliFileConfig) => {
+    const encryption = getEncryptionConfig(config);
+    const zipService = new ZipService({
+        enableLog: config.enableLog,
+        context: 'node.js',
+        encryption
+    });
+
+    const fileService = createFileService(config, encryption);
+
+    const packageReader = await fileService.openPackageReaderAsync(config.zipFilename);
+    const result = await zipService.verifyPackageAsync(packageReader);
+
+    packageReader.close();
+
+    const verificationFilename: string = getVerificationFilename(config.zipFilename);
+
+    await fileService.saveFileAsync(verificationFilename, JSON.stringify(result));
+
+    if (!result.hasManifest) {
+        console.log(`Package does not contain manifest. Only presence of files & sizes of assets were verified.`);
+    }
+    for (const missingFile of result.missingFiles) {
+        console.log(`Missing: ${missingFile}`);
+    }
+    for (const extraFile of result.extraFiles) {
+        console.log(`Extra: ${extraFile}`);
+    }
+    for (const corruptedFile of result.corruptedFiles) {
+        console.log(`Corrupted: ${corruptedFile.path} | ${corruptedFile.reason}`);
+    }
+
+    if (result.isValid) {
+        console.log(`Package is valid`);
+    } else {
+        console.log(`Package is not valid. See '${verificationFilename}' for details.`);
+        process.exitCode = 1;
+    }
+};
+
+const diffAsync = async (config: ICliFileConfig) => {
+    if (!config.compareWith) {
+        throw Error(`Zip file to compare with was not provided. Please set 'compareWith' option.`);
+    }
+
+    const encryption = getEncryptionConfig(config);
+    const zipService = new ZipService({
+        enableLog: config.enableLog,
+        context: 'node.js',
+        encryption
+    });
+
+    const fileService = createFileService(config, encryption);
+
+    const diffService = new DiffService({
+        enableLog: config.enableLog
+    });
+
+    const packageReaders = await openPackageReadersAsync([config.zipFilename, config.compareWith], fileService);
+
+    try {
+        const [sourcePackageReader, targetPackageReader] = packageReaders;
+        const result = await diffService.compareAsync(
+            getDiffSource(config.zipFilename, await zipService.readPackageAsync(sourcePackageReader), true),
+            getDiffSource(config.compareWith, await zipService.readPackageAsync(targetPackageReader), true)
+        );
+        const diffFilename: string = getDiffFilename(config.zipFilename);
+
+        await fileService.saveFileAsync(diffFilename, JSON.stringify(result));
+
+        logDiffResult(result);
+        console.log(`See '${diffFilename}' for details.`);
+    } finally {
+        packageReaders.forEach((m) => m.close());
+    }
+};
+
+const driftAsync = async (config: ICliFileConfig) => {
+    const encryption = getEncryptionConfig(config);
+    const zipService = new ZipService({
+        enableLog: config.enableLog,
+        context: 'node.js',
+        encryption
+    });
+
+    const fileService = createFileService(config, encryption);
+
+    const diffService = new DiffService({
+        enableLog: config.enableLog
+    });
+
+    const packageReaders = await openPackageReadersAsync(
+        [config.zipFilename, ...(config.incrementalZipFilenames ?? [])],
+        fileService
+    );
+
+    try {
+        const [packageReader, ...incrementalPackageReaders] = packageReaders;
+        const packageData = await zipService.readPackageAsync(packageReader, incrementalPackageReaders);
+
+        // binary files are not downloaded, assets of project are compared with package only by their metadata
+        const projectData = await createExportService({
+            ...config,
+            exportFilter: undefined,
+            exportCollections: undefined
+        }).exportAllAsync();
+
+        const result = await diffService.compareAsync(getDiffSource(config.zipFilename, packageData, false), {
+            name: `project '${config.projectId}'`,
+            data: projectData.data
+        });
+        const driftFilename: string = getDriftFilename(config.zipFilename);
+
+        await fileService.saveFileAsync(driftFilename, JSON.stringify(result));
+
+        logDiffResult(result);
+        console.log(`See '${driftFilename}' for details.`);
+    } finally {
+        packageReaders.forEach((m) => m.close());
+    }
+};
+
+const getDiffSource = (name: string, importSource: IImportSource, compareBinaryFiles: boolean): IDiffSource => {
+    return {
+        name,
+        data: {
+            ...importSource.importData,
+            assetFolders: importSource.assetFolders
+        },
+        binaryFiles: compareBinaryFiles ? importSource.binaryFiles : undefined
+    };
+};
+
+const logDiffResult = (result: IDiffResult) => {
+    const changeSymbols = {
+        added: '+',
+        removed: '-',
+        changed: '~'
+    };
+
+    for (const item of result.items) {
+        const properties = item.properties.map((m) => `${m.property} (${m.change})`).join(', ');
+
+        console.log(
+            `${changeSymbols[item.change]} ${item.type} '${item.title}'${properties ? ` | ${properties}` : ''}`
+        );
+    }
+
+    for (const summaryItem of result.summary) {
+        console.log(
+            `${summaryItem.type}: ${summaryItem.added} added, ${summaryItem.removed} removed, ${summaryItem.changed} changed`
+        );
+    }
+
+    if (!result.items.length) {
+        console.log(`No changes were found`);
+    }
+};
+
 const validateConfig = (config?: ICliFileConfig) => {
     if (!config) {
         throw Error(`Invalid config file`);
@@ -171,6 +1085,29 @@ const validateConfig = (config?: ICliFileConfig) => {
     const apiKey = config.apiKey;
     const action = config.action;
 
+    if (!action) {
+        throw Error('Invalid action');
+    }
+
+    if (config.packageLayout && config.packageLayout !== 'flat' && config.packageLayout !== 'directory') {
+        throw Error(`Invalid package layout '${config.packageLayout}'. Supported layouts are: flat & directory`);
+    }
+
+    for (const [rule, count] of Object.entries(config.retention ?? {})) {
+        if (count !== undefined && (!Number.isInteger(count) || count < 0)) {
+            throw Error(`Invalid retention policy. '${rule}' has to be a non-negative integer.`);
+        }
+    }
+
+    if (action === 'schedule') {
+        validateScheduleConfig(config);
+        return;
+    }
+
+    if (isOfflineAction(action)) {
+        return;
+    }
+
     if (!projectId) {
         throw Error('Invalid project id');
     }
@@ -178,13 +1115,132 @@ const validateConfig = (config?: ICliFileConfig) => {
     if (!apiKey) {
         throw Error('Invalid api key');
     }
+};
 
-    if (!action) {
-        throw Error('Invalid action');
+const validateScheduleConfig = (config: ICliFileConfig) => {
+    const backups = config.schedule?.backups ?? [];
+
+    if (!backups.length) {
+        throw Error(`No backups are scheduled. Please provide config file with 'schedule' option.`);
+    }
+
+    for (const backup of backups) {
+        if (!backup.cron) {
+            throw Error(`Cron expression of backup '${getScheduledBackupName(backup)}' was not provided`);
+        }
+
+        validateConfig(getScheduledBackupConfig(config, backup));
+    }
+};
+
+/**
+ * Creates file service storing files in storage given by config (current folder by default)
+ */
+const createFileService = (config: ICliFileConfig, encryption?: IEncryptionConfig) => {
+    return new FileService({
+        enableLog: config.enableLog,
+        encryption,
+        storage: getStorageProvider(config)
+    });
+};
+
+/**
+ * Gets storage provider from config. Credentials of S3 storage can also be set using standard AWS environment variables.
+ */
+const getStorageProvider = (config: ICliFileConfig): IStorageProvider | undefined => {
+    const storage = config.storage;
+
+    if (!storage || storage.type === 'local') {
+        return storage?.directory ? new LocalDirectoryStorageProvider({ directory: storage.directory }) : undefined;
+    }
+
+    if (storage.type !== 's3') {
+        throw Error(`Invalid storage type '${storage.type}'. Supported types are: local & s3`);
+    }
+
+    const accessKeyId = storage.accessKeyId ?? process.env[s3AccessKeyIdEnvVariable];
+    const secretAccessKey = storage.secretAccessKey ?? process.env[s3SecretAccessKeyEnvVariable];
+
+    if (!storage.bucket || !storage.region) {
+        throw Error(`Bucket & region of S3 storage were not provided`);
+    }
+
+    if (!accessKeyId || !secretAccessKey) {
+        throw Error(
+            `Credentials of S3 storage were not provided. Please set '${s3AccessKeyIdEnvVariable}' & '${s3SecretAccessKeyEnvVariable}' environment variables.`
+        );
     }
+
+    return new S3StorageProvider({
+        bucket: storage.bucket,
+        region: storage.region,
+        endpoint: storage.endpoint,
+        prefix: storage.prefix,
+        forcePathStyle: storage.forcePathStyle,
+        credentials: {
+            accessKeyId,
+            secretAccessKey,
+            sessionToken: storage.sessionToken ?? process.env[s3SessionTokenEnvVariable]
+        }
+    });
+};
+
+/**
+ * Gets encryption config from config or environment variables. Key has precedence over passphrase.
+ */
+const getEncryptionConfig = (config: ICliFileConfig): IEncryptionConfig | undefined => {
+    const key = getEncryptionKey(config);
+
+    if (key) {
+        return { key };
+    }
+
+    const passphrase = config.encryptionPassphrase ?? process.env[encryptionPassphraseEnvVariable];
+
+    if (passphrase) {
+        return { passphrase };
+    }
+
+    return undefined;
+};
+
+const getEncryptionKey = (config: ICliFileConfig): Uint8Array | undefined => {
+    if (config.encryptionKeyFile) {
+        const keyFile = readFileSync(path.resolve(config.encryptionKeyFile));
+        const hexKey = keyFile.toString().trim();
+
+        // key file contains either hex encoded key or raw bytes
+        return isHexKey(hexKey) ? encryptionHelper.fromHex(hexKey) : new Uint8Array(keyFile);
+    }
+
+    const envKey = process.env[encryptionKeyEnvVariable];
+
+    if (envKey) {
+        if (!isHexKey(envKey.trim())) {
+            throw Error(`Environment variable '${encryptionKeyEnvVariable}' must contain 64 hex characters`);
+        }
+
+        return encryptionHelper.fromHex(envKey.trim());
+    }
+
+    return undefined;
+};
+
+const isHexKey = (value: string) => {
+    return /^[0-9a-fA-F]{64}$/.test(value);
+};
+
+/**
+ * Offline actions work only with zip files and do not require project id & api key
+ */
+const isOfflineAction = (action: CliAction) => {
+    return action === 'verify' || action === 'diff';
 };
 
 const run = async () => {
+    // Web Crypto API is not global in node.js before version 20
+    cryptoHelper.setProvider(nodeCryptoProvider);
+
     const config = await getConfig();
 
     validateConfig(config);
@@ -195,6 +1251,14 @@ const run = async () => {
         await cleanAsync(config);
     } else if (config.action === 'restore') {
         await restoreAsync(config);
+    } else if (config.action === 'verify') {
+        await verifyAsync(config);
+    } else if (config.action === 'diff') {
+        await diffAsync(config);
+    } else if (config.action === 'drift') {
+        await driftAsync(config);
+    } else if (config.action === 'schedule') {
+        await scheduleAsync(config);
     } else {
         throw Error(`Invalid action`);
     }
@@ -241,6 +1305,42 @@ const getConfig = async () => {
     const zipFilename: string | undefined =
         (resolvedArgs.zipFilename as string | undefined) ?? getDefaultBackupFilename();
     const exportFilter: string | undefined = resolvedArgs.exportFilter as string | undefined;
+    const incrementalFrom: string | undefined = resolvedArgs.incrementalFrom as string | undefined;
+    const importMode: ImportMode | undefined = resolvedArgs.importMode as ImportMode | undefined;
+    const dryRun: boolean | undefined = (resolvedArgs.dryRun as boolean | undefined) ?? false;
+    const resume: boolean | undefined = (resolvedArgs.resume as boolean | undefined) ?? false;
+    const maxConcurrentAssetDownloads: number | undefined = resolvedArgs.maxConcurrentAssetDownloads as
+        | number
+        | undefined;
+    const skipFailedAssetDownloads: boolean | undefined =
+        (resolvedArgs.skipFailedAssetDownloads as boolean | undefined) ?? false;
+    const incrementalZipFilenames: string | undefined = resolvedArgs.incrementalZipFilenames as string | undefined;
+    const encryptionPassphrase: string | undefined = resolvedArgs.encryptionPassphrase as string | undefined;
+    const encryptionKeyFile: string | undefined = resolvedArgs.encryptionKeyFile as string | undefined;
+    const compareWith: string | undefined = resolvedArgs.compareWith as string | undefined;
+    const selectItems: string | undefined = resolvedArgs.selectItems as string | undefined;
+    const selectContentTypes: string | undefined = resolvedArgs.selectContentTypes as string | undefined;
+    const selectCollections: string | undefined = resolvedArgs.selectCollections as string | undefined;
+    const exportCollections: string | undefined = resolvedArgs.exportCollections as string | undefined;
+    const storage: StorageType | undefined = resolvedArgs.storage as StorageType | undefined;
+    const storageDirectory: string | undefined = resolvedArgs.storageDirectory as string | undefined;
+    const packageLayout: PackageLayout | undefined = resolvedArgs.packageLayout as PackageLayout | undefined;
+    const deterministic: boolean | undefined = (resolvedArgs.deterministic as boolean | undefined) ?? false;
+    const keepLast: number | undefined = resolvedArgs.keepLast as number | undefined;
+    const keepDaily: number | undefined = resolvedArgs.keepDaily as number | undefined;
+    const keepWeekly: number | undefined = resolvedArgs.keepWeekly as number | undefined;
+    const keepMonthly: number | undefined = resolvedArgs.keepMonthly as number | undefined;
+    const errorPolicy: ErrorPolicy | undefined = resolvedArgs.errorPolicy as ErrorPolicy | undefined;
+    const maxErrors: number | undefined = resolvedArgs.maxErrors as number | undefined;
+    const cleanFilter: string | undefined = resolvedArgs.cleanFilter as string | undefined;
+    const cleanContentTypes: string | undefined = resolvedArgs.cleanContentTypes as string | undefined;
+    const cleanLanguages: string | undefined = resolvedArgs.cleanLanguages as string | undefined;
+    const confirm: string | undefined = resolvedArgs.confirm as string | undefined;
+    const forceClean: boolean | undefined = (resolvedArgs.forceClean as boolean | undefined) ?? false;
+    const skipSafetyBackup: boolean | undefined = (resolvedArgs.skipSafetyBackup as boolean | undefined) ?? false;
+    const includeWebhookSecrets: boolean | undefined =
+        (resolvedArgs.includeWebhookSecrets as boolean | undefined) ?? false;
+    const enableWebhooks: boolean | undefined = (resolvedArgs.enableWebhooks as boolean | undefined) ?? false;
 
     const exportFilterMapped: ItemType[] | undefined = exportFilter
         ? exportFilter
@@ -255,11 +1355,15 @@ const getConfig = async () => {
         throw Error(`No action was provided`);
     }
 
-    if (!apiKey) {
+    if (action === 'schedule') {
+        throw Error(`Schedule action requires config file. Please provide config file with 'schedule' option.`);
+    }
+
+    if (!apiKey && !isOfflineAction(action)) {
         throw Error(`Api key was not provided`);
     }
 
-    if (!projectId) {
+    if (!projectId && !isOfflineAction(action)) {
         throw Error(`Project id was not provided`);
     }
 
@@ -267,18 +1371,67 @@ const getConfig = async () => {
     const config: ICliFileConfig = {
         enablePublish,
         action,
-        apiKey,
+        apiKey: apiKey ?? '',
         enableLog,
         force,
-        projectId,
+        projectId: projectId ?? '',
         zipFilename,
         baseUrl,
-        exportFilter: exportFilterMapped
+        exportFilter: exportFilterMapped,
+        incrementalFrom: getCsvValues(incrementalFrom),
+        incrementalZipFilenames: getCsvValues(incrementalZipFilenames),
+        importMode,
+        dryRun,
+        resume,
+        maxConcurrentAssetDownloads,
+        skipFailedAssetDownloads,
+        encryptionPassphrase,
+        encryptionKeyFile,
+        compareWith,
+        selectItems: getCsvValues(selectItems),
+        selectContentTypes: getCsvValues(selectContentTypes),
+        errorPolicy,
+        maxErrors,
+        cleanFilter: getCsvValues(cleanFilter) as ItemType[] | undefined,
+        cleanContentTypes: getCsvValues(cleanContentTypes),
+        cleanLanguages: getCsvValues(cleanLanguages),
+        confirm: confirm !== undefined ? `${confirm}` : undefined,
+        forceClean,
+        skipSafetyBackup,
+        includeWebhookSecrets,
+        enableWebhooks,
+        exportCollections: getCsvValues(exportCollections),
+        selectCollections: getCsvValues(selectCollections),
+        storage:
+            storage || storageDirectory
+                ? {
+                      type: storage ?? 'local',
+                      directory: storageDirectory,
+                      bucket: resolvedArgs.s3Bucket as string | undefined,
+                      region: resolvedArgs.s3Region as string | undefined,
+                      endpoint: resolvedArgs.s3Endpoint as string | undefined,
+                      prefix: resolvedArgs.s3Prefix as string | undefined
+                  }
+                : undefined,
+        retention: { keepLast, keepDaily, keepWeekly, keepMonthly },
+        packageLayout,
+        deterministic
     };
 
     return config;
 };
 
+const getCsvValues = (csv: string | undefined): string[] | undefined => {
+    if (!csv) {
+        return undefined;
+    }
+
+    return csv
+        .split(',')
+        .map((m) => m.trim())
+        .filter((m) => m.length);
+};
+
 const getDefaultBackupFilename = () => {
     const date = new Date();
     return `kontent-backup-${date.getDate()}-${
@@ -289,6 +1442,8 @@ const getDefaultBackupFilename = () => {
 run()
     .then((m) => {})
     .catch((err) => {
+        process.exitCode = 1;
+
         if (err instanceof SharedModels.ContentManagementBaseKontentError) {
             console.log(`Management API error occured:`, err.message);
             for (const validationError of err.validationErrors) {
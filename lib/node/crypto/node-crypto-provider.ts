@@ -0,0 +1,64 @@
+import { createCipheriv, createDecipheriv, createHash, pbkdf2, randomBytes } from 'crypto';
+import { promisify } from 'util';
+
+import { ICryptoProvider } from '../../core';
+
+const pbkdf2Async = promisify(pbkdf2);
+
+/**
+ * Crypto provider using node.js 'crypto' module so that packages can be encrypted in versions of node.js
+ * without global Web Crypto API. Encrypted data are compatible with Web Crypto API.
+ */
+export class NodeCryptoProvider implements ICryptoProvider {
+    private readonly authTagLength: number = 16;
+
+    getRandomBytes(length: number): Uint8Array {
+        return randomBytes(length);
+    }
+
+    async getSha256Async(data: Uint8Array): Promise<Uint8Array> {
+        return createHash('sha256').update(data).digest();
+    }
+
+    async deriveKeyAsync(
+        passphrase: string,
+        salt: Uint8Array,
+        iterations: number,
+        keyLength: number
+    ): Promise<Uint8Array> {
+        return await pbkdf2Async(passphrase, salt, iterations, keyLength, 'sha256');
+    }
+
+    async encryptAsync(
+        data: Uint8Array,
+        key: Uint8Array,
+        iv: Uint8Array,
+        additionalData: Uint8Array
+    ): Promise<Uint8Array> {
+        const cipher = createCipheriv('aes-256-gcm', key, iv, { authTagLength: this.authTagLength });
+
+        cipher.setAAD(additionalData);
+
+        return Buffer.concat([cipher.update(data), cipher.final(), cipher.getAuthTag()]);
+    }
+
+    async decryptAsync(
+        data: Uint8Array,
+        key: Uint8Array,
+        iv: Uint8Array,
+        additionalData: Uint8Array
+    ): Promise<Uint8Array> {
+        if (data.length < this.authTagLength) {
+            throw Error(`Missing authentication tag`);
+        }
+
+        const decipher = createDecipheriv('aes-256-gcm', key, iv, { authTagLength: this.authTagLength });
+
+        decipher.setAAD(additionalData);
+        decipher.setAuthTag(data.subarray(data.length - this.authTagLength));
+
+        return Buffer.concat([decipher.update(data.subarray(0, data.length - this.authTagLength)), decipher.final()]);
+    }
+}
+
+export const nodeCryptoProvider = new NodeCryptoProvider();
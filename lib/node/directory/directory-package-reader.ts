@@ -0,0 +1,63 @@
+import { createHash } from 'crypto';
+import { createReadStream, promises } from 'fs';
+import { join } from 'path';
+
+import { IPackageFileInfo, IPackageReader } from '../../zip';
+import { fileHelper } from '../file/file-helper';
+
+/**
+ * Reads package files from directory on local disk (e.g. package with 'directory' layout). Hidden files
+ * & directories (e.g. '.git') are not considered part of package.
+ */
+export class DirectoryPackageReader implements IPackageReader {
+    private constructor(private directory: string, private paths: Set<string>) {}
+
+    static async openAsync(directory: string): Promise<DirectoryPackageReader> {
+        return new DirectoryPackageReader(directory, new Set<string>(await fileHelper.getFilePathsAsync(directory)));
+    }
+
+    hasFile(path: string): boolean {
+        return this.paths.has(path);
+    }
+
+    getFilePaths(): string[] {
+        return [...this.paths];
+    }
+
+    async getFileInfoAsync(path: string): Promise<IPackageFileInfo> {
+        const readStream = createReadStream(this.getFilePath(path));
+        const hash = createHash('sha256');
+        let size: number = 0;
+
+        return await new Promise<IPackageFileInfo>((resolve, reject) => {
+            readStream.on('data', (chunk: Buffer) => {
+                hash.update(chunk);
+                size += chunk.length;
+            });
+            readStream.on('end', () => resolve({ path, size, sha256: hash.digest('hex') }));
+            readStream.on('error', (error) => reject(error));
+        });
+    }
+
+    async readTextFileAsync(path: string): Promise<string> {
+        return (await this.readBinaryFileAsync(path)).toString();
+    }
+
+    async readBinaryFileAsync(path: string): Promise<Buffer> {
+        return await promises.readFile(this.getFilePath(path));
+    }
+
+    /**
+     * Files are read on demand, so there is nothing to release. Allows readers of zip files & directories
+     * to be used interchangeably.
+     */
+    close(): void {}
+
+    private getFilePath(path: string): string {
+        if (!this.paths.has(path)) {
+            throw Error(`Invalid file '${path}'`);
+        }
+
+        return join(this.directory, ...path.split('/'));
+    }
+}
@@ -0,0 +1,123 @@
+import { createHash } from 'crypto';
+import { createWriteStream, promises } from 'fs';
+import { dirname, join } from 'path';
+import { pipeline, Readable, Transform } from 'stream';
+import { promisify } from 'util';
+
+import { IPackageVolatileMetadata, PackageLayout } from '../../core';
+import { BinaryDataResponseType, IPackageFileInfo, IPackageFileOptions, IPackageWriter } from '../../zip';
+import { fileHelper } from '../file/file-helper';
+
+const pipelineAsync = promisify(pipeline);
+
+/**
+ * Writes package with 'directory' layout into directory on local disk. Files of previous package which are not part
+ * of written package are removed once writer is closed, so the directory can be tracked in version control.
+ * Hidden files & directories (e.g. '.git') are left untouched.
+ */
+export class DirectoryPackageWriter implements IPackageWriter {
+    public readonly binaryDataResponseType: BinaryDataResponseType = 'stream';
+    public readonly layout: PackageLayout = 'directory';
+    /**
+     * Set by file service so that volatile metadata are stored next to the directory
+     */
+    public writeVolatileMetadataAsync?: (volatileMetadata: IPackageVolatileMetadata) => Promise<void>;
+
+    private readonly writtenPaths = new Set<string>();
+    private isClosed: boolean = false;
+    private isAborted: boolean = false;
+
+    private constructor(private directory: string) {}
+
+    /**
+     * Creates directory if it does not exist. Existing directory has to be empty or contain package, so that
+     * unrelated files are not removed.
+     */
+    static async openAsync(directory: string): Promise<DirectoryPackageWriter> {
+        await promises.mkdir(directory, { recursive: true });
+
+        const paths = await fileHelper.getFilePathsAsync(directory);
+
+        if (paths.length && !paths.includes('metadata.json')) {
+            throw Error(`Directory '${directory}' does not contain package. Please use empty directory.`);
+        }
+
+        return new DirectoryPackageWriter(directory);
+    }
+
+    /**
+     * Downloaded stream is stored in temporary file so that failed download can be retried
+     */
+    async bufferBinaryDataAsync(data: any): Promise<any> {
+        return data instanceof Readable ? await fileHelper.bufferStreamAsync(data) : data;
+    }
+
+    async addFileAsync(path: string, data: any, options: IPackageFileOptions): Promise<IPackageFileInfo> {
+        if (this.isAborted) {
+            throw Error(`Writing of directory '${this.directory}' was aborted`);
+        }
+
+        const filePath = this.getFilePath(path);
+        const hash = createHash('sha256');
+
+        this.writtenPaths.add(path);
+        await promises.mkdir(dirname(filePath), { recursive: true });
+
+        if (data instanceof Readable) {
+            let size: number = 0;
+
+            const hashStream = new Transform({
+                transform: (chunk: Buffer, encoding, callback) => {
+                    hash.update(chunk);
+                    size += chunk.length;
+                    callback(undefined, chunk);
+                }
+            });
+
+            await pipelineAsync(data, hashStream, createWriteStream(filePath));
+
+            return { path, size, sha256: hash.digest('hex') };
+        }
+
+        const buffer = Buffer.from(data);
+
+        await promises.writeFile(filePath, buffer);
+
+        return {
+            path,
+            size: buffer.length,
+            sha256: hash.update(buffer).digest('hex')
+        };
+    }
+
+    /**
+     * Removes files & directories of previous package which are not part of written package
+     */
+    async closeAsync(): Promise<void> {
+        for (const path of await fileHelper.getFilePathsAsync(this.directory)) {
+            if (!this.writtenPaths.has(path)) {
+                await promises.unlink(this.getFilePath(path));
+            }
+        }
+
+        await fileHelper.removeEmptyDirectoriesAsync(this.directory);
+        this.isClosed = true;
+    }
+
+    /**
+     * Removes partially written package. Files of previous package are removed as well as the directory would
+     * otherwise contain mix of both packages. Directory of closed writer is kept.
+     */
+    async abortAsync(): Promise<void> {
+        if (this.isClosed || this.isAborted) {
+            return;
+        }
+
+        this.isAborted = true;
+        await fileHelper.removeDirectoryAsync(this.directory);
+    }
+
+    private getFilePath(path: string): string {
+        return join(this.directory, ...path.split('/'));
+    }
+}
@@ -0,0 +1,98 @@
+import { createDecipheriv } from 'crypto';
+import { createReadStream, createWriteStream, promises } from 'fs';
+import { pipeline, Transform } from 'stream';
+import { promisify } from 'util';
+
+import { encryptionHelper, IEncryptionConfig, IEncryptionContext } from '../../core';
+import { FileEncryptionStream } from './file-encryption-stream';
+
+const pipelineAsync = promisify(pipeline);
+
+export class FileEncryptionHelper {
+    /**
+     * Creates stream that encrypts data written to it so that large files do not need to be kept in memory
+     */
+    createEncryptionStream(config: IEncryptionConfig): Transform {
+        return new FileEncryptionStream(encryptionHelper.createEncryptionContextAsync(config));
+    }
+
+    async isEncryptedFileAsync(filePath: string): Promise<boolean> {
+        const fileHandle = await promises.open(filePath, 'r');
+
+        try {
+            return encryptionHelper.isEncrypted(
+                await this.readBytesAsync(fileHandle, 0, encryptionHelper.headerPrefixLength)
+            );
+        } finally {
+            await fileHandle.close();
+        }
+    }
+
+    /**
+     * Decrypts file to given output file. Data are decrypted as a stream and output file is removed
+     * when decryption fails.
+     */
+    async decryptFileAsync(filePath: string, outputFilePath: string, config: IEncryptionConfig): Promise<void> {
+        const fileHandle = await promises.open(filePath, 'r');
+        let encryptionContext: IEncryptionContext;
+        let authTag: Uint8Array;
+        let fileSize: number;
+
+        try {
+            fileSize = (await fileHandle.stat()).size;
+
+            const headerLength = encryptionHelper.getHeaderLength(
+                await this.readBytesAsync(fileHandle, 0, encryptionHelper.headerPrefixLength)
+            );
+
+            if (fileSize < headerLength + encryptionHelper.authTagLength) {
+                throw Error(encryptionHelper.getDecryptionErrorMessage());
+            }
+
+            encryptionContext = await encryptionHelper.getEncryptionContextAsync(
+                await this.readBytesAsync(fileHandle, 0, headerLength),
+                config
+            );
+            authTag = await this.readBytesAsync(
+                fileHandle,
+                fileSize - encryptionHelper.authTagLength,
+                encryptionHelper.authTagLength
+            );
+        } finally {
+            await fileHandle.close();
+        }
+
+        const decipher = createDecipheriv(
+            'aes-256-gcm',
+            encryptionContext.key,
+            encryptionHelper.fromHex(encryptionContext.header.iv),
+            { authTagLength: encryptionHelper.authTagLength }
+        );
+
+        decipher.setAAD(encryptionContext.headerBytes);
+        decipher.setAuthTag(authTag);
+
+        try {
+            await pipelineAsync(
+                createReadStream(filePath, {
+                    start: encryptionContext.headerBytes.length,
+                    end: fileSize - encryptionHelper.authTagLength - 1
+                }),
+                decipher,
+                createWriteStream(outputFilePath, { mode: 0o600 })
+            );
+        } catch (error) {
+            await promises.unlink(outputFilePath).catch(() => {});
+            throw Error(encryptionHelper.getDecryptionErrorMessage());
+        }
+    }
+
+    private async readBytesAsync(fileHandle: promises.FileHandle, position: number, length: number): Promise<Buffer> {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await fileHandle.read(buffer, 0, length, position);
+
+        return buffer.subarray(0, bytesRead);
+    }
+}
+
+export const fileEncryptionHelper = new FileEncryptionHelper();
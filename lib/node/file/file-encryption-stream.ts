@@ -0,0 +1,45 @@
+import { CipherGCM, createCipheriv } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+import { encryptionHelper, IEncryptionContext } from '../../core';
+
+/**
+ * Encrypts data flowing through the stream. Output has the same layout as files encrypted by encryption helper.
+ */
+export class FileEncryptionStream extends Transform {
+    private cipher?: CipherGCM;
+
+    constructor(private encryptionContextPromise: Promise<IEncryptionContext>) {
+        super();
+    }
+
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+        this.getCipherAsync()
+            .then((cipher) => callback(undefined, cipher.update(chunk)))
+            .catch((error) => callback(error));
+    }
+
+    _flush(callback: TransformCallback): void {
+        this.getCipherAsync()
+            .then((cipher) => {
+                this.push(cipher.final());
+                this.push(cipher.getAuthTag());
+                callback();
+            })
+            .catch((error) => callback(error));
+    }
+
+    private async getCipherAsync(): Promise<CipherGCM> {
+        if (!this.cipher) {
+            const context = await this.encryptionContextPromise;
+
+            this.cipher = createCipheriv('aes-256-gcm', context.key, encryptionHelper.fromHex(context.header.iv), {
+                authTagLength: encryptionHelper.authTagLength
+            });
+            this.cipher.setAAD(context.headerBytes);
+            this.push(context.headerBytes);
+        }
+
+        return this.cipher;
+    }
+}
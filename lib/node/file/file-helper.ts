@@ -1,4 +1,11 @@
-import { promises } from 'fs';
+import { randomBytes } from 'crypto';
+import { createReadStream, createWriteStream, promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pipeline, Readable } from 'stream';
+import { promisify } from 'util';
+
+const pipelineAsync = promisify(pipeline);
 
 export class FileHelper {
     async createFileInCurrentFolderAsync(filename: string, data: any): Promise<void> {
@@ -6,6 +13,89 @@ export class FileHelper {
 
         await promises.writeFile(filePath, data);
     }
+
+    /**
+     * Stores whole stream in temporary file & returns stream reading the file. Temporary file is removed once
+     * returned stream is closed or when given stream fails.
+     */
+    async bufferStreamAsync(stream: Readable): Promise<Readable> {
+        const filePath = join(tmpdir(), `kbm-${randomBytes(8).toString('hex')}`);
+
+        try {
+            await pipelineAsync(stream, createWriteStream(filePath, { mode: 0o600 }));
+        } catch (error) {
+            await promises.unlink(filePath).catch(() => {});
+            throw error;
+        }
+
+        const fileStream = createReadStream(filePath);
+
+        fileStream.on('close', () => promises.unlink(filePath).catch(() => {}));
+
+        return fileStream;
+    }
+
+    /**
+     * Gets paths of all files in directory & its subdirectories relative to the directory (using '/' as separator).
+     * Hidden files & directories (e.g. '.git') are skipped.
+     */
+    async getFilePathsAsync(directory: string, parentPath?: string): Promise<string[]> {
+        const paths: string[] = [];
+        const entries = await promises.readdir(join(directory, ...(parentPath?.split('/') ?? [])), {
+            withFileTypes: true
+        });
+
+        for (const entry of entries) {
+            if (entry.name.startsWith('.')) {
+                continue;
+            }
+
+            const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+
+            if (entry.isDirectory()) {
+                paths.push(...(await this.getFilePathsAsync(directory, path)));
+            } else if (entry.isFile()) {
+                paths.push(path);
+            }
+        }
+
+        return paths;
+    }
+
+    /**
+     * Removes all files of directory & its subdirectories and the directory itself once it is empty. Hidden files
+     * & directories (e.g. '.git') are left untouched, so directory containing them is kept.
+     */
+    async removeDirectoryAsync(directory: string): Promise<void> {
+        for (const path of await this.getFilePathsAsync(directory)) {
+            await promises.unlink(join(directory, ...path.split('/')));
+        }
+
+        if (await this.removeEmptyDirectoriesAsync(directory)) {
+            await promises.rmdir(directory);
+        }
+    }
+
+    /**
+     * Removes empty subdirectories of directory. Returns true when given directory is empty as well.
+     */
+    async removeEmptyDirectoriesAsync(directory: string): Promise<boolean> {
+        const entries = await promises.readdir(directory, { withFileTypes: true });
+        let isEmpty: boolean = true;
+
+        for (const entry of entries) {
+            const path = join(directory, entry.name);
+
+            if (entry.isDirectory() && !entry.name.startsWith('.') && (await this.removeEmptyDirectoriesAsync(path))) {
+                await promises.rmdir(path);
+                continue;
+            }
+
+            isEmpty = false;
+        }
+
+        return isEmpty;
+    }
 }
 
 export const fileHelper = new FileHelper();
@@ -0,0 +1,54 @@
+import { promises } from 'fs';
+import { resolve } from 'path';
+import { IImportJournal, ImportJournalEntry } from '../../import';
+import { IFileImportJournalConfig } from './file.models';
+
+/**
+ * Import journal stored in local file. Each entry is stored as a single JSON line so that entries
+ * written before the process was terminated are preserved.
+ */
+export class FileImportJournal implements IImportJournal {
+    constructor(private config: IFileImportJournalConfig) {}
+
+    async loadAsync(): Promise<ImportJournalEntry[]> {
+        const filePath = this.getFilePath();
+        const entries: ImportJournalEntry[] = [];
+        let content: string;
+
+        try {
+            content = (await promises.readFile(filePath)).toString();
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                return entries;
+            }
+            throw error;
+        }
+
+        for (const line of content.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+
+            try {
+                entries.push(JSON.parse(line) as ImportJournalEntry);
+            } catch (error) {
+                // last line may be incomplete if the process was terminated while writing it
+                console.warn(`Skipping invalid journal entry '${line}'`);
+            }
+        }
+
+        return entries;
+    }
+
+    async appendAsync(entry: ImportJournalEntry): Promise<void> {
+        await promises.appendFile(this.getFilePath(), JSON.stringify(entry) + '\n');
+    }
+
+    async clearAsync(): Promise<void> {
+        await promises.writeFile(this.getFilePath(), '');
+    }
+
+    private getFilePath(): string {
+        return resolve(this.config.filename);
+    }
+}
@@ -0,0 +1,106 @@
+import { IRetentionPackage, IRetentionResult, retentionHelper } from '../../core';
+import { ZipService } from '../../zip';
+import { IFilePackageMetadata, IFileRetentionServiceConfig } from './file.models';
+import { FileService } from './file.service';
+
+/**
+ * Deletes backups which are not kept by retention policy from storage of file service. Backups stored in zip files
+ * & directories are identified by timestamp stored in their metadata, so renamed backups are rotated correctly.
+ * Metadata are read from file stored next to the package, packages are opened only when such file is missing
+ * (backups created by previous versions). Files which cannot be read as packages (or which cannot be decrypted)
+ * are never deleted.
+ */
+export class FileRetentionService {
+    constructor(
+        private config: IFileRetentionServiceConfig,
+        private fileService: FileService,
+        private zipService: ZipService
+    ) {}
+
+    /**
+     * Applies retention policy on backups in storage. Given backup (the one that was just created) is always kept.
+     */
+    async applyAsync(createdFileNameWithoutExtension: string): Promise<IRetentionResult> {
+        const packages = await this.getPackagesAsync();
+        const result = retentionHelper.apply(packages, this.config.policy, [createdFileNameWithoutExtension]);
+
+        for (const retentionPackage of result.delete) {
+            console.log(
+                `Deleting backup '${this.fileService.getLocation(retentionPackage.filename)}' created at '${new Date(
+                    retentionPackage.timestamp
+                ).toISOString()}'`
+            );
+            await this.fileService.deletePackageAsync(retentionPackage.filename);
+        }
+
+        console.log(`Retention policy kept '${result.keep.length}' and deleted '${result.delete.length}' backups`);
+
+        return result;
+    }
+
+    private async getPackagesAsync(): Promise<IRetentionPackage[]> {
+        const packages: IRetentionPackage[] = [];
+
+        for (const name of await this.fileService.listPackagesAsync()) {
+            let metadata: IFilePackageMetadata | undefined;
+
+            try {
+                metadata = await this.readPackageMetadataAsync(name);
+            } catch (error) {
+                console.warn(
+                    `WARNING: Metadata of '${this.fileService.getLocation(
+                        name
+                    )}' could not be read and package is kept. ${error}`
+                );
+                continue;
+            }
+
+            if (!metadata || metadata.projectId !== this.config.projectId) {
+                if (this.config.enableLog) {
+                    console.log(`Skipping '${name}' as it is not a backup of project '${this.config.projectId}'`);
+                }
+                continue;
+            }
+
+            if (!metadata.timestamp) {
+                console.warn(
+                    `WARNING: Time of export of '${this.fileService.getLocation(
+                        name
+                    )}' is unknown as volatile metadata of deterministic package are missing. Package is kept.`
+                );
+                continue;
+            }
+
+            packages.push({
+                filename: name,
+                timestamp: metadata.timestamp,
+                parent: metadata.parent
+            });
+        }
+
+        return packages;
+    }
+
+    /**
+     * Reads metadata stored next to the package or opens the package when they are missing
+     */
+    private async readPackageMetadataAsync(name: string): Promise<IFilePackageMetadata | undefined> {
+        const packageMetadata = await this.fileService.readPackageMetadataAsync(name);
+
+        if (packageMetadata?.projectId) {
+            return packageMetadata;
+        }
+
+        const packageReader = await this.fileService.openPackageReaderAsync(name);
+
+        try {
+            const metadata = await this.zipService.readPackageMetadataAsync(packageReader);
+
+            return metadata
+                ? { timestamp: metadata.timestamp, projectId: metadata.projectId, parent: metadata.incremental?.parent }
+                : undefined;
+        } finally {
+            packageReader.close();
+        }
+    }
+}
@@ -1,3 +1,59 @@
+import { IEncryptionConfig, IPackageVolatileMetadata, IParentPackageMetadata, IRetentionPolicy } from '../../core';
+import { IPackageReader, IPackageWriter } from '../../zip';
+import { IStorageProvider } from '../storage/storage.models';
+
 export interface IFileServiceConfig {
     enableLog: boolean;
+    /**
+     * When set, zip files created by file writer are encrypted and encrypted zip files are decrypted
+     * when they are opened by file reader
+     */
+    encryption?: IEncryptionConfig;
+    /**
+     * Storage of zip files & reports. Files are stored in current folder by default.
+     */
+    storage?: IStorageProvider;
+}
+
+/**
+ * Reader of package stored in zip file or directory. Reader has to be closed once package is read.
+ */
+export interface IFilePackageReader extends IPackageReader {
+    close(): void;
+}
+
+/**
+ * Writer of package stored in zip file or directory. Writer has to be closed once package is written, aborted writer
+ * removes partially written package.
+ */
+export interface IFilePackageWriter extends IPackageWriter {
+    closeAsync(): Promise<void>;
+    abortAsync(): Promise<void>;
+}
+
+/**
+ * Metadata stored unencrypted in '<name>_metadata.json' file next to the package. Besides volatile metadata
+ * of deterministic package, they identify the package so that it can be rotated without being opened. Files
+ * stored only by package writer (without 'savePackageMetadataAsync') contain only volatile metadata.
+ */
+export interface IFilePackageMetadata extends IPackageVolatileMetadata {
+    projectId?: string;
+    parent?: IParentPackageMetadata;
+}
+
+export interface IFileImportJournalConfig {
+    /**
+     * Path of journal file (including extension). Relative path is resolved against current folder. Journal
+     * is appended with each imported object so it is always stored on local disk.
+     */
+    filename: string;
+}
+
+export interface IFileRetentionServiceConfig {
+    enableLog: boolean;
+    /**
+     * Only backups of given project are rotated, other files in storage are left untouched
+     */
+    projectId: string;
+    policy: IRetentionPolicy;
 }
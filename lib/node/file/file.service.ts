@@ -1,21 +1,39 @@
+import { randomBytes } from 'crypto';
 import { promises } from 'fs';
-import { IFileServiceConfig } from './file.models';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IPackageMetadata, IPackageVolatileMetadata } from '../../core';
+import { IFilePackageMetadata, IFilePackageReader, IFileServiceConfig } from './file.models';
+import { fileEncryptionHelper } from './file-encryption-helper';
+import { ZipFileReader } from '../zip/zip-file-reader';
+import { ZipFileWriter } from '../zip/zip-file-writer';
+import { IStorageProvider } from '../storage/storage.models';
+import { LocalDirectoryStorageProvider } from '../storage/local-directory-storage-provider';
+import { DirectoryPackageReader } from '../directory/directory-package-reader';
+import { DirectoryPackageWriter } from '../directory/directory-package-writer';
+import { fileHelper } from './file-helper';
 
-export class FileService {
+/**
+ * Reads & writes zip files and other files using configured storage provider (current folder by default).
+ * Zip files of remote storages are downloaded to (and uploaded from) temporary files.
+ */
+export class FileService implements IStorageProvider {
+    private readonly storage: IStorageProvider;
 
     constructor(private config: IFileServiceConfig) {
+        this.storage = config.storage ?? new LocalDirectoryStorageProvider({ directory: '.' });
     }
 
     private readonly zipExtension: string = '.zip';
-
+    private readonly packageMetadataName: string = 'metadata.json';
 
     async loadFileAsync(fileNameWithoutExtension: string): Promise<Buffer> {
-        const filePath = this.getFilePath(fileNameWithoutExtension);
+        const filename = this.getZipFilename(fileNameWithoutExtension);
 
         if (this.config.enableLog) {
-            console.log(`Reading file '${filePath}'`);
+            console.log(`Reading file '${this.storage.getLocation(filename)}'`);
         }
-        const file = await promises.readFile(filePath);
+        const file = await this.storage.readFileAsync(filename);
         if (this.config.enableLog) {
             console.log(`Reading file completed`);
         }
@@ -24,16 +42,294 @@ export class FileService {
     }
 
     async writeFileAsync(fileNameWithoutExtension: string, content: any): Promise<void> {
-        const filePath = this.getFilePath(fileNameWithoutExtension);
+        const filename = this.getZipFilename(fileNameWithoutExtension);
 
-        console.log(`Writing file '${filePath}'`);
-        await promises.writeFile(filePath, content);
+        console.log(`Writing file '${this.storage.getLocation(filename)}'`);
+        await this.storage.saveFileAsync(filename, content);
         console.log(`File saved`);
     }
 
-    private getFilePath(fileNameWithoutExtension: string) {
-        const filenameWithExtension = fileNameWithoutExtension + this.zipExtension;
-        return`./${filenameWithExtension}`;
+    /**
+     * Opens zip file so that its files can be read one by one without loading entire zip file into memory.
+     * Encrypted zip file is decrypted to a temporary file which is removed when reader is closed.
+     */
+    async openZipFileReaderAsync(fileNameWithoutExtension: string): Promise<ZipFileReader> {
+        const filename = this.getZipFilename(fileNameWithoutExtension);
+        const localFilePath = this.storage.getLocalFilePath(filename);
+        const filePath = localFilePath ?? this.getTemporaryFilePath();
+
+        if (this.config.enableLog) {
+            console.log(`Opening file '${this.storage.getLocation(filename)}'`);
+        }
+
+        if (!localFilePath) {
+            await this.storage.downloadFileAsync(filename, filePath);
+        }
+
+        if (await fileEncryptionHelper.isEncryptedFileAsync(filePath)) {
+            try {
+                if (!this.config.encryption) {
+                    throw Error(
+                        `File '${this.storage.getLocation(
+                            filename
+                        )}' is encrypted. Please provide passphrase or encryption key.`
+                    );
+                }
+
+                const decryptedFilePath = this.getTemporaryFilePath();
+
+                if (this.config.enableLog) {
+                    console.log(`Decrypting file '${this.storage.getLocation(filename)}'`);
+                }
+
+                await fileEncryptionHelper.decryptFileAsync(filePath, decryptedFilePath, this.config.encryption);
+
+                return await this.openTemporaryZipFileReaderAsync(decryptedFilePath);
+            } finally {
+                if (!localFilePath) {
+                    await promises.unlink(filePath);
+                }
+            }
+        }
+
+        // downloaded zip file is removed once reader is closed
+        return localFilePath
+            ? await ZipFileReader.openAsync(filePath)
+            : await this.openTemporaryZipFileReaderAsync(filePath);
+    }
+
+    /**
+     * Creates zip file to which package files are written as they are added. Zip file of remote storage is
+     * uploaded when writer is closed. Volatile metadata of deterministic package are stored next to the zip file.
+     */
+    createZipFileWriter(fileNameWithoutExtension: string): ZipFileWriter {
+        const filename = this.getZipFilename(fileNameWithoutExtension);
+        const localFilePath = this.storage.getLocalFilePath(filename);
+
+        console.log(`Writing file '${this.storage.getLocation(filename)}'`);
+
+        const zipFileWriter = localFilePath
+            ? new ZipFileWriter(localFilePath, this.config.encryption)
+            : this.createTemporaryZipFileWriter(filename);
+
+        zipFileWriter.writeVolatileMetadataAsync = (volatileMetadata) =>
+            this.saveVolatileMetadataAsync(fileNameWithoutExtension, volatileMetadata);
+
+        return zipFileWriter;
+    }
+
+    /**
+     * Opens package stored in directory with given name (package with 'directory' layout) or in zip file.
+     * Volatile metadata of deterministic package are provided by reader when they are stored next to the package.
+     */
+    async openPackageReaderAsync(name: string): Promise<IFilePackageReader> {
+        const localDirectoryPath = this.storage.getLocalFilePath(name);
+        let packageReader: IFilePackageReader;
+
+        if (localDirectoryPath && (await this.isDirectoryAsync(localDirectoryPath))) {
+            if (this.config.enableLog) {
+                console.log(`Opening directory '${localDirectoryPath}'`);
+            }
+
+            packageReader = await DirectoryPackageReader.openAsync(localDirectoryPath);
+        } else {
+            packageReader = await this.openZipFileReaderAsync(name);
+        }
+
+        const packageMetadata = await this.readPackageMetadataAsync(name);
+
+        if (packageMetadata) {
+            packageReader.volatileMetadata = { timestamp: packageMetadata.timestamp };
+        }
+
+        return packageReader;
+    }
+
+    /**
+     * Stores volatile metadata of deterministic package next to the package
+     */
+    async saveVolatileMetadataAsync(name: string, volatileMetadata: IPackageVolatileMetadata): Promise<void> {
+        await this.storage.saveFileAsync(this.getVolatileMetadataFilename(name), JSON.stringify(volatileMetadata));
+    }
+
+    /**
+     * Stores metadata identifying the package (including volatile metadata of deterministic package) next to
+     * the package, so that backups can be rotated without downloading & decrypting them
+     */
+    async savePackageMetadataAsync(name: string, metadata: IPackageMetadata): Promise<void> {
+        const packageMetadata: IFilePackageMetadata = {
+            timestamp: metadata.timestamp,
+            projectId: metadata.projectId,
+            parent: metadata.incremental?.parent
+        };
+
+        await this.storage.saveFileAsync(this.getVolatileMetadataFilename(name), JSON.stringify(packageMetadata));
+    }
+
+    /**
+     * Reads metadata stored next to the package. Returns undefined when they are not stored.
+     */
+    async readPackageMetadataAsync(name: string): Promise<IFilePackageMetadata | undefined> {
+        const packageMetadataFilename = this.getVolatileMetadataFilename(name);
+
+        if (!(await this.storage.fileExistsAsync(packageMetadataFilename))) {
+            return undefined;
+        }
+
+        return JSON.parse((await this.storage.readFileAsync(packageMetadataFilename)).toString());
+    }
+
+    /**
+     * Lists names of packages stored in zip files & directories (directories without package metadata are skipped)
+     */
+    async listPackagesAsync(): Promise<string[]> {
+        const zipFilenames = (await this.storage.listFilesAsync()).filter((m) => m.endsWith(this.zipExtension));
+        const directories: string[] = [];
+
+        for (const directory of (await this.storage.listDirectoriesAsync?.()) ?? []) {
+            if (await this.storage.fileExistsAsync(`${directory}/${this.packageMetadataName}`)) {
+                directories.push(directory);
+            }
+        }
+
+        return [...zipFilenames.map((m) => m.substring(0, m.length - this.zipExtension.length)), ...directories];
+    }
+
+    /**
+     * Deletes package stored in directory or zip file together with metadata stored next to it. Hidden files
+     * & directories (e.g. '.git') of directory are left untouched.
+     */
+    async deletePackageAsync(name: string): Promise<void> {
+        const localDirectoryPath = this.storage.getLocalFilePath(name);
+        const packageMetadataFilename = this.getVolatileMetadataFilename(name);
+
+        if (localDirectoryPath && (await this.isDirectoryAsync(localDirectoryPath))) {
+            await fileHelper.removeDirectoryAsync(localDirectoryPath);
+        } else {
+            await this.storage.deleteFileAsync(this.getZipFilename(name));
+        }
+
+        if (await this.storage.fileExistsAsync(packageMetadataFilename)) {
+            await this.storage.deleteFileAsync(packageMetadataFilename);
+        }
+    }
+
+    getVolatileMetadataFilename(name: string): string {
+        return `${name}_metadata.json`;
+    }
+
+    /**
+     * Creates directory to which package with 'directory' layout is written. Such packages can be stored only
+     * in local storage and cannot be encrypted.
+     */
+    async createDirectoryPackageWriterAsync(name: string): Promise<DirectoryPackageWriter> {
+        const localDirectoryPath = this.storage.getLocalFilePath(name);
+
+        if (!localDirectoryPath) {
+            throw Error(`Package with directory layout can be stored only in local storage`);
+        }
+
+        if (this.config.encryption) {
+            throw Error(`Package with directory layout cannot be encrypted`);
+        }
+
+        const packageWriter = await DirectoryPackageWriter.openAsync(localDirectoryPath);
+
+        packageWriter.writeVolatileMetadataAsync = (volatileMetadata) =>
+            this.saveVolatileMetadataAsync(name, volatileMetadata);
+
+        console.log(`Writing directory '${localDirectoryPath}'`);
+
+        return packageWriter;
+    }
+
+    getLocation(filename: string): string {
+        return this.storage.getLocation(filename);
+    }
+
+    getLocalFilePath(filename: string): string | undefined {
+        return this.storage.getLocalFilePath(filename);
+    }
+
+    async listFilesAsync(): Promise<string[]> {
+        return await this.storage.listFilesAsync();
+    }
+
+    async listDirectoriesAsync(): Promise<string[]> {
+        return (await this.storage.listDirectoriesAsync?.()) ?? [];
+    }
+
+    async fileExistsAsync(filename: string): Promise<boolean> {
+        return await this.storage.fileExistsAsync(filename);
     }
 
+    async readFileAsync(filename: string): Promise<Buffer> {
+        return await this.storage.readFileAsync(filename);
+    }
+
+    async saveFileAsync(filename: string, content: string | Buffer): Promise<void> {
+        await this.storage.saveFileAsync(filename, content);
+    }
+
+    async deleteFileAsync(filename: string): Promise<void> {
+        await this.storage.deleteFileAsync(filename);
+    }
+
+    async downloadFileAsync(filename: string, localFilePath: string): Promise<void> {
+        await this.storage.downloadFileAsync(filename, localFilePath);
+    }
+
+    async uploadFileAsync(localFilePath: string, filename: string): Promise<void> {
+        await this.storage.uploadFileAsync(localFilePath, filename);
+    }
+
+    /**
+     * Temporary zip file is uploaded to storage once it is written
+     */
+    private createTemporaryZipFileWriter(filename: string): ZipFileWriter {
+        const temporaryFilePath = this.getTemporaryFilePath();
+
+        return new ZipFileWriter(temporaryFilePath, this.config.encryption, async () => {
+            try {
+                if (this.config.enableLog) {
+                    console.log(`Uploading file '${this.storage.getLocation(filename)}'`);
+                }
+
+                await this.storage.uploadFileAsync(temporaryFilePath, filename);
+            } finally {
+                await promises.unlink(temporaryFilePath);
+            }
+        });
+    }
+
+    /**
+     * Temporary zip file is removed when reader is closed or when zip file cannot be opened
+     */
+    private async openTemporaryZipFileReaderAsync(filePath: string): Promise<ZipFileReader> {
+        try {
+            return await ZipFileReader.openAsync(filePath, true);
+        } catch (error) {
+            await promises.unlink(filePath);
+            throw error;
+        }
+    }
+
+    private async isDirectoryAsync(path: string): Promise<boolean> {
+        try {
+            return (await promises.stat(path)).isDirectory();
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private getZipFilename(fileNameWithoutExtension: string): string {
+        return fileNameWithoutExtension + this.zipExtension;
+    }
+
+    private getTemporaryFilePath(): string {
+        return join(tmpdir(), `kbm-${randomBytes(8).toString('hex')}${this.zipExtension}`);
+    }
 }
@@ -1,3 +1,18 @@
 export * from './file/file.service';
 export * from './file/file.models';
-export * from './file/file-helper';
\ No newline at end of file
+export * from './file/file-helper';
+export * from './file/file-import-journal';
+export * from './file/file-retention.service';
+export * from './file/file-encryption-helper';
+export * from './file/file-encryption-stream';
+export * from './zip/zip-file-writer';
+export * from './zip/zip-file-reader';
+export * from './storage/storage.models';
+export * from './storage/local-directory-storage-provider';
+export * from './storage/s3-storage-provider';
+export * from './schedule/schedule.models';
+export * from './schedule/cron-helper';
+export * from './schedule/scheduler';
+export * from './directory/directory-package-writer';
+export * from './directory/directory-package-reader';
+export * from './crypto/node-crypto-provider';
@@ -0,0 +1,173 @@
+import { ICronSchedule } from './schedule.models';
+
+interface ICronField {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[];
+}
+
+export class CronHelper {
+    private readonly macros: { [macro: string]: string } = {
+        '@yearly': '0 0 1 1 *',
+        '@annually': '0 0 1 1 *',
+        '@monthly': '0 0 1 * *',
+        '@weekly': '0 0 * * 0',
+        '@daily': '0 0 * * *',
+        '@midnight': '0 0 * * *',
+        '@hourly': '0 * * * *'
+    };
+
+    private readonly fields: ICronField[] = [
+        { name: 'minute', min: 0, max: 59 },
+        { name: 'hour', min: 0, max: 23 },
+        { name: 'day of month', min: 1, max: 31 },
+        {
+            name: 'month',
+            min: 1,
+            max: 12,
+            names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+        },
+        // 7 is Sunday as well
+        { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+    ];
+
+    /**
+     * Only dates within this period are searched for next run so that expressions which never match
+     * (e.g. 30th February) do not block the process
+     */
+    private readonly maxSearchedYears: number = 5;
+
+    /**
+     * Parses cron expression with 5 fields (minute, hour, day of month, month & day of week). Fields support
+     * '*', lists, ranges, steps and names of months & days. Macros such as '@daily' are supported as well.
+     */
+    parse(expression: string): ICronSchedule {
+        const parts = (this.macros[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+
+        if (parts.length !== this.fields.length) {
+            throw Error(
+                `Invalid cron expression '${expression}'. Expected ${this.fields.length} fields (minute, hour, day of month, month & day of week).`
+            );
+        }
+
+        const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((m, index) =>
+            this.parseField(expression, m, this.fields[index])
+        );
+
+        if (daysOfWeek.delete(7)) {
+            daysOfWeek.add(0);
+        }
+
+        return {
+            expression,
+            minutes,
+            hours,
+            daysOfMonth,
+            months,
+            daysOfWeek,
+            isDayOfMonthRestricted: !parts[2].startsWith('*'),
+            isDayOfWeekRestricted: !parts[4].startsWith('*')
+        };
+    }
+
+    /**
+     * Gets the first date (in whole minutes & local time) after given date matching cron schedule
+     */
+    getNextDate(schedule: ICronSchedule, after: Date): Date {
+        const date = new Date(after.getTime());
+        const maxDate = new Date(after.getTime());
+
+        date.setSeconds(0, 0);
+        date.setMinutes(date.getMinutes() + 1);
+        maxDate.setFullYear(maxDate.getFullYear() + this.maxSearchedYears);
+
+        while (date < maxDate) {
+            if (!schedule.months.has(date.getMonth() + 1)) {
+                date.setMonth(date.getMonth() + 1, 1);
+                date.setHours(0, 0, 0, 0);
+                continue;
+            }
+
+            if (!this.isDayMatching(schedule, date)) {
+                date.setDate(date.getDate() + 1);
+                date.setHours(0, 0, 0, 0);
+                continue;
+            }
+
+            if (!schedule.hours.has(date.getHours())) {
+                date.setHours(date.getHours() + 1, 0, 0, 0);
+                continue;
+            }
+
+            if (!schedule.minutes.has(date.getMinutes())) {
+                date.setMinutes(date.getMinutes() + 1, 0, 0);
+                continue;
+            }
+
+            return date;
+        }
+
+        throw Error(`Cron expression '${schedule.expression}' does not match any date`);
+    }
+
+    private isDayMatching(schedule: ICronSchedule, date: Date): boolean {
+        const isDayOfMonthMatching = schedule.daysOfMonth.has(date.getDate());
+        const isDayOfWeekMatching = schedule.daysOfWeek.has(date.getDay());
+
+        if (schedule.isDayOfMonthRestricted && schedule.isDayOfWeekRestricted) {
+            return isDayOfMonthMatching || isDayOfWeekMatching;
+        }
+
+        return isDayOfMonthMatching && isDayOfWeekMatching;
+    }
+
+    private parseField(expression: string, value: string, field: ICronField): Set<number> {
+        const values = new Set<number>();
+
+        for (const item of value.toLowerCase().split(',')) {
+            const [range, stepValue] = item.split('/');
+            const step = stepValue !== undefined ? this.parseNumber(expression, stepValue, field) : 1;
+            let [from, to] = [field.min, field.max];
+
+            if (range !== '*') {
+                const [fromValue, toValue] = range.split('-');
+
+                from = this.parseNumber(expression, fromValue, field);
+                // single value with step (e.g. '5/15') is a range ending with maximum value
+                to =
+                    toValue !== undefined
+                        ? this.parseNumber(expression, toValue, field)
+                        : stepValue !== undefined
+                        ? field.max
+                        : from;
+            }
+
+            if (from < field.min || to > field.max || from > to || step < 1) {
+                throw Error(`Invalid ${field.name} '${item}' in cron expression '${expression}'`);
+            }
+
+            for (let i = from; i <= to; i += step) {
+                values.add(i);
+            }
+        }
+
+        return values;
+    }
+
+    private parseNumber(expression: string, value: string, field: ICronField): number {
+        const nameIndex = field.names?.indexOf(value) ?? -1;
+
+        if (nameIndex >= 0) {
+            return nameIndex + field.min;
+        }
+
+        if (!/^\d+$/.test(value)) {
+            throw Error(`Invalid ${field.name} '${value}' in cron expression '${expression}'`);
+        }
+
+        return Number.parseInt(value, 10);
+    }
+}
+
+export const cronHelper = new CronHelper();
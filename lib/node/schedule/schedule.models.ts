@@ -0,0 +1,39 @@
+/**
+ * Parsed cron expression. Sets contain all values matched by given field.
+ */
+export interface ICronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    /**
+     * Days of week where 0 is Sunday
+     */
+    daysOfWeek: Set<number>;
+    /**
+     * When both day of month & day of week are restricted, date matches when any of them matches (as in cron)
+     */
+    isDayOfMonthRestricted: boolean;
+    isDayOfWeekRestricted: boolean;
+}
+
+export interface IScheduledJob {
+    /**
+     * Unique name of job used in log messages
+     */
+    name: string;
+    /**
+     * Cron expression with 5 fields (minute, hour, day of month, month & day of week) evaluated in local time
+     */
+    cron: string;
+    runAsync: () => Promise<void>;
+}
+
+export interface ISchedulerConfig {
+    jobs: IScheduledJob[];
+    /**
+     * Maximum number of jobs running at the same time. Defaults to 1 so that jobs run one after another.
+     */
+    maxConcurrentRuns?: number;
+}
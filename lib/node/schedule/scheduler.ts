@@ -0,0 +1,141 @@
+import { cronHelper } from './cron-helper';
+import { ICronSchedule, IScheduledJob, ISchedulerConfig } from './schedule.models';
+
+/**
+ * Runs jobs on their cron schedules in a long-running process. Jobs exceeding allowed number of concurrent runs
+ * wait in a queue. Run of a job is skipped when previous run of the same job did not finish yet.
+ */
+export class Scheduler {
+    /**
+     * Maximum delay supported by setTimeout, longer delays are waited in multiple steps
+     */
+    private readonly maxTimeoutMs: number = 2147483647;
+    private readonly maxConcurrentRuns: number;
+    private readonly schedules = new Map<string, ICronSchedule>();
+    private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private readonly queue: IScheduledJob[] = [];
+    private readonly runs = new Map<string, Promise<void>>();
+    private isStopped: boolean = false;
+
+    constructor(private config: ISchedulerConfig) {
+        this.maxConcurrentRuns = Math.max(config.maxConcurrentRuns ?? 1, 1);
+
+        for (const job of config.jobs) {
+            if (this.schedules.has(job.name)) {
+                throw Error(`Job '${job.name}' is scheduled multiple times. Please use unique names.`);
+            }
+
+            this.schedules.set(job.name, cronHelper.parse(job.cron));
+        }
+    }
+
+    start(): void {
+        for (const job of this.config.jobs) {
+            this.scheduleNextRun(job, new Date());
+        }
+    }
+
+    /**
+     * Names of jobs which are currently running
+     */
+    getRunningJobNames(): string[] {
+        return [...this.runs.keys()];
+    }
+
+    /**
+     * Stops scheduling new runs & clears queued runs. Resolves once all running jobs finish.
+     */
+    async stopAsync(): Promise<void> {
+        this.isStopped = true;
+        this.queue.length = 0;
+
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+
+        await Promise.all(this.runs.values());
+    }
+
+    private scheduleNextRun(job: IScheduledJob, after: Date): void {
+        const nextRunDate = cronHelper.getNextDate(this.getSchedule(job), after);
+
+        console.log(`Next run of '${job.name}' is scheduled at '${nextRunDate.toISOString()}'`);
+        this.setTimer(job, nextRunDate);
+    }
+
+    private setTimer(job: IScheduledJob, runDate: Date): void {
+        const delayMs = runDate.getTime() - Date.now();
+
+        const previousTimer = this.timers.get(job.name);
+
+        if (previousTimer) {
+            clearTimeout(previousTimer);
+        }
+
+        this.timers.set(
+            job.name,
+            setTimeout(() => {
+                if (delayMs > this.maxTimeoutMs) {
+                    this.setTimer(job, runDate);
+                } else {
+                    this.enqueue(job, runDate);
+                }
+            }, Math.min(Math.max(delayMs, 0), this.maxTimeoutMs))
+        );
+    }
+
+    private enqueue(job: IScheduledJob, runDate: Date): void {
+        if (this.isStopped) {
+            return;
+        }
+
+        this.scheduleNextRun(job, runDate);
+
+        if (this.runs.has(job.name) || this.queue.includes(job)) {
+            console.warn(`WARNING: Run of '${job.name}' is skipped as its previous run did not finish yet`);
+            return;
+        }
+
+        this.queue.push(job);
+        this.processQueue();
+    }
+
+    private processQueue(): void {
+        while (!this.isStopped && this.runs.size < this.maxConcurrentRuns && this.queue.length) {
+            const job = this.queue.shift() as IScheduledJob;
+
+            this.runs.set(
+                job.name,
+                this.runJobAsync(job).then(() => {
+                    this.runs.delete(job.name);
+                    this.processQueue();
+                })
+            );
+        }
+    }
+
+    /**
+     * Errors of jobs are logged so that failed run does not stop the scheduler
+     */
+    private async runJobAsync(job: IScheduledJob): Promise<void> {
+        console.log(`Starting '${job.name}'`);
+
+        try {
+            await job.runAsync();
+            console.log(`Run of '${job.name}' completed`);
+        } catch (error) {
+            console.log(`Run of '${job.name}' failed: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private getSchedule(job: IScheduledJob): ICronSchedule {
+        const schedule = this.schedules.get(job.name);
+
+        if (!schedule) {
+            throw Error(`Job '${job.name}' is not scheduled`);
+        }
+
+        return schedule;
+    }
+}
@@ -0,0 +1,74 @@
+import { mkdirSync, promises } from 'fs';
+import { join, resolve } from 'path';
+
+import { ILocalDirectoryStorageConfig, IStorageProvider } from './storage.models';
+
+/**
+ * Stores files in local directory. Files are addressed using absolute paths so that result does not depend
+ * on current folder once provider is created. Directory is created when it does not exist.
+ */
+export class LocalDirectoryStorageProvider implements IStorageProvider {
+    private readonly directory: string;
+
+    constructor(config: ILocalDirectoryStorageConfig) {
+        this.directory = resolve(config.directory);
+
+        // directory is created before backup is exported so that backup does not fail once export is done
+        mkdirSync(this.directory, { recursive: true });
+    }
+
+    getLocation(filename: string): string {
+        return this.getFilePath(filename);
+    }
+
+    getLocalFilePath(filename: string): string | undefined {
+        return this.getFilePath(filename);
+    }
+
+    async listFilesAsync(): Promise<string[]> {
+        const entries = await promises.readdir(this.directory, { withFileTypes: true });
+
+        return entries.filter((m) => m.isFile()).map((m) => m.name);
+    }
+
+    async listDirectoriesAsync(): Promise<string[]> {
+        const entries = await promises.readdir(this.directory, { withFileTypes: true });
+
+        return entries.filter((m) => m.isDirectory()).map((m) => m.name);
+    }
+
+    async fileExistsAsync(filename: string): Promise<boolean> {
+        try {
+            return (await promises.stat(this.getFilePath(filename))).isFile();
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async readFileAsync(filename: string): Promise<Buffer> {
+        return await promises.readFile(this.getFilePath(filename));
+    }
+
+    async saveFileAsync(filename: string, content: string | Buffer): Promise<void> {
+        await promises.writeFile(this.getFilePath(filename), content);
+    }
+
+    async deleteFileAsync(filename: string): Promise<void> {
+        await promises.unlink(this.getFilePath(filename));
+    }
+
+    async downloadFileAsync(filename: string, localFilePath: string): Promise<void> {
+        await promises.copyFile(this.getFilePath(filename), localFilePath);
+    }
+
+    async uploadFileAsync(localFilePath: string, filename: string): Promise<void> {
+        await promises.copyFile(localFilePath, this.getFilePath(filename));
+    }
+
+    private getFilePath(filename: string): string {
+        return join(this.directory, filename);
+    }
+}
@@ -0,0 +1,289 @@
+import { createHash, createHmac } from 'crypto';
+import { createReadStream, createWriteStream, promises } from 'fs';
+import { ClientRequest, IncomingMessage, request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { pipeline, Readable } from 'stream';
+import { URL } from 'url';
+import { promisify } from 'util';
+
+import { IS3StorageConfig, IStorageProvider } from './storage.models';
+
+const pipelineAsync = promisify(pipeline);
+
+interface IS3Request {
+    method: 'GET' | 'HEAD' | 'PUT' | 'DELETE';
+    /**
+     * Object key. Empty for requests on bucket (e.g. listing objects).
+     */
+    key: string;
+    query?: { [name: string]: string };
+    body?: Buffer | Readable;
+    contentLength?: number;
+}
+
+/**
+ * Stores files in S3 bucket or in bucket of S3 compatible service (e.g. MinIO). Requests are signed using
+ * AWS Signature Version 4.
+ */
+export class S3StorageProvider implements IStorageProvider {
+    private readonly service: string = 's3';
+    private readonly unsignedPayload: string = 'UNSIGNED-PAYLOAD';
+    private readonly prefix: string;
+    private readonly forcePathStyle: boolean;
+
+    constructor(private config: IS3StorageConfig) {
+        this.prefix = config.prefix ?? '';
+        this.forcePathStyle = config.forcePathStyle ?? !!config.endpoint;
+    }
+
+    getLocation(filename: string): string {
+        return `s3://${this.config.bucket}/${this.getKey(filename)}`;
+    }
+
+    getLocalFilePath(filename: string): string | undefined {
+        return undefined;
+    }
+
+    async listFilesAsync(): Promise<string[]> {
+        const filenames: string[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const query: { [name: string]: string } = {
+                'list-type': '2',
+                prefix: this.prefix,
+                // objects in nested 'folders' are not listed
+                delimiter: '/'
+            };
+
+            if (continuationToken) {
+                query['continuation-token'] = continuationToken;
+            }
+
+            const response = await this.readResponseBodyAsync(await this.sendAsync({ method: 'GET', key: '', query }));
+            const content = response.toString();
+
+            filenames.push(...this.getXmlValues(content, 'Key').map((m) => m.substring(this.prefix.length)));
+            continuationToken =
+                this.getXmlValues(content, 'IsTruncated')[0] === 'true'
+                    ? this.getXmlValues(content, 'NextContinuationToken')[0]
+                    : undefined;
+        } while (continuationToken);
+
+        return filenames;
+    }
+
+    async fileExistsAsync(filename: string): Promise<boolean> {
+        const response = await this.sendAsync({ method: 'HEAD', key: this.getKey(filename) }, [404]);
+
+        response.resume();
+
+        return response.statusCode !== 404;
+    }
+
+    async readFileAsync(filename: string): Promise<Buffer> {
+        return await this.readResponseBodyAsync(await this.sendAsync({ method: 'GET', key: this.getKey(filename) }));
+    }
+
+    async saveFileAsync(filename: string, content: string | Buffer): Promise<void> {
+        const body = Buffer.from(content);
+
+        (
+            await this.sendAsync({ method: 'PUT', key: this.getKey(filename), body, contentLength: body.length })
+        ).resume();
+    }
+
+    async deleteFileAsync(filename: string): Promise<void> {
+        (await this.sendAsync({ method: 'DELETE', key: this.getKey(filename) })).resume();
+    }
+
+    async downloadFileAsync(filename: string, localFilePath: string): Promise<void> {
+        const response = await this.sendAsync({ method: 'GET', key: this.getKey(filename) });
+
+        await pipelineAsync(response, createWriteStream(localFilePath));
+    }
+
+    /**
+     * Uploads file in a single request so that file size is limited to 5 GB
+     */
+    async uploadFileAsync(localFilePath: string, filename: string): Promise<void> {
+        const size = (await promises.stat(localFilePath)).size;
+
+        (
+            await this.sendAsync({
+                method: 'PUT',
+                key: this.getKey(filename),
+                body: createReadStream(localFilePath),
+                contentLength: size
+            })
+        ).resume();
+    }
+
+    private getKey(filename: string): string {
+        return `${this.prefix}${filename}`;
+    }
+
+    /**
+     * Sends signed request. Fails when response has error status code unless the code is allowed.
+     */
+    private async sendAsync(s3Request: IS3Request, allowedStatusCodes: number[] = []): Promise<IncomingMessage> {
+        const url = this.getUrl(s3Request);
+        const headers = this.getSignedHeaders(s3Request, url);
+        const request = url.protocol === 'http:' ? httpRequest : httpsRequest;
+
+        const response = await new Promise<IncomingMessage>((resolve, reject) => {
+            const clientRequest: ClientRequest = request(url, { method: s3Request.method, headers }, resolve);
+
+            clientRequest.on('error', (error) => reject(error));
+
+            if (s3Request.body instanceof Readable) {
+                s3Request.body.on('error', (error) => reject(error));
+                s3Request.body.pipe(clientRequest);
+            } else {
+                clientRequest.end(s3Request.body);
+            }
+        });
+
+        const statusCode = response.statusCode ?? 0;
+
+        if ((statusCode < 200 || statusCode >= 300) && !allowedStatusCodes.includes(statusCode)) {
+            const content = s3Request.method === 'HEAD' ? '' : (await this.readResponseBodyAsync(response)).toString();
+            const code = this.getXmlValues(content, 'Code')[0] ?? response.statusMessage;
+            const message = this.getXmlValues(content, 'Message')[0] ?? '';
+
+            throw Error(
+                `S3 request '${s3Request.method} ${this.getLocation(
+                    s3Request.key.substring(this.prefix.length)
+                )}' failed with status '${statusCode}': ${code} ${message}`.trim()
+            );
+        }
+
+        return response;
+    }
+
+    /**
+     * Gets URL of request. Path of endpoint (e.g. S3 compatible service behind reverse proxy) is kept as prefix
+     * of path of the request.
+     */
+    private getUrl(s3Request: IS3Request): URL {
+        const endpoint = new URL(this.config.endpoint ?? `https://s3.${this.config.region}.amazonaws.com`);
+        const path = this.forcePathStyle ? `${this.config.bucket}/${s3Request.key}` : s3Request.key;
+        const url = new URL(
+            `${endpoint.protocol}//${this.forcePathStyle ? '' : `${this.config.bucket}.`}${endpoint.host}`
+        );
+
+        // path of endpoint is already encoded
+        url.pathname = `${endpoint.pathname.replace(/\/+$/, '')}/${path
+            .split('/')
+            .map((m) => this.encodeUriComponent(m))
+            .join('/')}`;
+        url.search = this.getCanonicalQuery(s3Request.query ?? {});
+
+        return url;
+    }
+
+    /**
+     * Gets headers of request including authorization header with AWS Signature Version 4
+     */
+    private getSignedHeaders(s3Request: IS3Request, url: URL): { [name: string]: string } {
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const date = amzDate.substring(0, 8);
+        const payloadHash =
+            s3Request.body instanceof Readable
+                ? this.unsignedPayload
+                : this.getSha256(s3Request.body ?? Buffer.alloc(0));
+        const headers: { [name: string]: string } = {
+            host: url.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate
+        };
+
+        if (this.config.credentials.sessionToken) {
+            headers['x-amz-security-token'] = this.config.credentials.sessionToken;
+        }
+
+        const signedHeaderNames = Object.keys(headers).sort();
+        const canonicalRequest = [
+            s3Request.method,
+            url.pathname,
+            this.getCanonicalQuery(s3Request.query ?? {}),
+            ...signedHeaderNames.map((m) => `${m}:${headers[m].trim()}`),
+            '',
+            signedHeaderNames.join(';'),
+            payloadHash
+        ].join('\n');
+        const scope = `${date}/${this.config.region}/${this.service}/aws4_request`;
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, this.getSha256(canonicalRequest)].join('\n');
+
+        const signingKey = [date, this.config.region, this.service, 'aws4_request'].reduce<Buffer>(
+            (key, value) => this.getHmac(key, value),
+            Buffer.from(`AWS4${this.config.credentials.secretAccessKey}`)
+        );
+        const signature = this.getHmac(signingKey, stringToSign).toString('hex');
+
+        return {
+            ...headers,
+            ...(s3Request.contentLength !== undefined ? { 'content-length': s3Request.contentLength.toString() } : {}),
+            authorization: `AWS4-HMAC-SHA256 Credential=${
+                this.config.credentials.accessKeyId
+            }/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`
+        };
+    }
+
+    private getCanonicalQuery(query: { [name: string]: string }): string {
+        return Object.keys(query)
+            .sort()
+            .map((m) => `${this.encodeUriComponent(m)}=${this.encodeUriComponent(query[m])}`)
+            .join('&');
+    }
+
+    /**
+     * Encodes value as required by AWS Signature Version 4 (RFC 3986)
+     */
+    private encodeUriComponent(value: string): string {
+        return encodeURIComponent(value).replace(/[!'()*]/g, (m) => `%${m.charCodeAt(0).toString(16).toUpperCase()}`);
+    }
+
+    private getSha256(data: string | Buffer): string {
+        return createHash('sha256').update(data).digest('hex');
+    }
+
+    private getHmac(key: Buffer, data: string): Buffer {
+        return createHmac('sha256', key).update(data).digest();
+    }
+
+    private async readResponseBodyAsync(response: IncomingMessage): Promise<Buffer> {
+        const chunks: Buffer[] = [];
+
+        return await new Promise<Buffer>((resolve, reject) => {
+            response.on('data', (chunk: Buffer) => chunks.push(chunk));
+            response.on('end', () => resolve(Buffer.concat(chunks)));
+            response.on('error', (error) => reject(error));
+        });
+    }
+
+    /**
+     * Gets values of all XML elements with given name. Responses of S3 are simple enough to not require XML parser.
+     */
+    private getXmlValues(xml: string, elementName: string): string[] {
+        const regex = new RegExp(`<${elementName}>([^<]*)</${elementName}>`, 'g');
+        const values: string[] = [];
+        let match = regex.exec(xml);
+
+        while (match) {
+            values.push(this.decodeXmlEntities(match[1]));
+            match = regex.exec(xml);
+        }
+
+        return values;
+    }
+
+    private decodeXmlEntities(value: string): string {
+        return value
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, `'`)
+            .replace(/&amp;/g, '&');
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * Stores files of backup packages & reports. Files are identified by filename (including extension) relative
+ * to location of storage.
+ */
+export interface IStorageProvider {
+    /**
+     * Describes location of given file (used in log messages)
+     */
+    getLocation(filename: string): string;
+    /**
+     * Gets path of given file on local disk. Returns undefined for remote storages whose files have to be
+     * downloaded & uploaded.
+     */
+    getLocalFilePath(filename: string): string | undefined;
+    /**
+     * Lists filenames of all files stored directly in location of storage
+     */
+    listFilesAsync(): Promise<string[]>;
+    /**
+     * Lists names of directories stored directly in location of storage. Implemented only by storages which
+     * can store packages with 'directory' layout.
+     */
+    listDirectoriesAsync?(): Promise<string[]>;
+    fileExistsAsync(filename: string): Promise<boolean>;
+    readFileAsync(filename: string): Promise<Buffer>;
+    saveFileAsync(filename: string, content: string | Buffer): Promise<void>;
+    deleteFileAsync(filename: string): Promise<void>;
+    /**
+     * Copies stored file to given local file
+     */
+    downloadFileAsync(filename: string, localFilePath: string): Promise<void>;
+    /**
+     * Stores content of given local file. Data are read as a stream so that large files do not need to be kept
+     * in memory.
+     */
+    uploadFileAsync(localFilePath: string, filename: string): Promise<void>;
+}
+
+export interface ILocalDirectoryStorageConfig {
+    /**
+     * Existing directory in which files are stored. Relative path is resolved against current folder.
+     */
+    directory: string;
+}
+
+export interface IS3StorageConfig {
+    bucket: string;
+    region: string;
+    /**
+     * Endpoint of S3 compatible service (e.g. 'http://localhost:9000' for MinIO). Path of endpoint is kept
+     * (e.g. 'https://example.com/minio' for service behind reverse proxy). Defaults to AWS S3 endpoint of given region.
+     */
+    endpoint?: string;
+    /**
+     * Prefix of object keys (e.g. 'backups/'). Files are stored in root of bucket by default.
+     */
+    prefix?: string;
+    /**
+     * Bucket is addressed in path of request URL instead of host name. Enabled by default when custom endpoint
+     * is set as S3 compatible services usually do not support virtual host addressing.
+     */
+    forcePathStyle?: boolean;
+    credentials: IS3Credentials;
+}
+
+export interface IS3Credentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    /**
+     * Required only for temporary credentials
+     */
+    sessionToken?: string;
+}
@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { unlinkSync } from 'fs';
+import { Readable } from 'stream';
+import { Entry, open, ZipFile } from 'yauzl';
+
+import { IPackageFileInfo, IPackageReader } from '../../zip';
+
+/**
+ * Reads package files directly from zip file on disk. Only list of files is loaded when zip file is opened,
+ * content of each file is read when requested.
+ */
+export class ZipFileReader implements IPackageReader {
+    private constructor(
+        private zipFile: ZipFile,
+        private entries: Map<string, Entry>,
+        private fileToDeleteOnClose?: string
+    ) {}
+
+    /**
+     * Opens zip file. When delete on close is enabled, zip file is removed once reader is closed
+     * (used for temporary files).
+     */
+    static async openAsync(filePath: string, deleteOnClose?: boolean): Promise<ZipFileReader> {
+        const zipFile = await new Promise<ZipFile>((resolve, reject) => {
+            open(filePath, { lazyEntries: true, autoClose: false }, (error, openedZipFile) => {
+                if (error || !openedZipFile) {
+                    reject(error ?? Error(`Could not open zip file '${filePath}'`));
+                    return;
+                }
+                resolve(openedZipFile);
+            });
+        });
+
+        const entries = new Map<string, Entry>();
+
+        try {
+            await new Promise<void>((resolve, reject) => {
+                zipFile.on('entry', (entry: Entry) => {
+                    entries.set(entry.fileName, entry);
+                    zipFile.readEntry();
+                });
+                zipFile.on('end', () => resolve());
+                zipFile.on('error', (error) => reject(error));
+
+                zipFile.readEntry();
+            });
+        } catch (error) {
+            zipFile.close();
+            throw error;
+        }
+
+        return new ZipFileReader(zipFile, entries, deleteOnClose ? filePath : undefined);
+    }
+
+    hasFile(path: string): boolean {
+        return this.entries.has(path);
+    }
+
+    getFilePaths(): string[] {
+        return [...this.entries.keys()].filter((m) => !m.endsWith('/'));
+    }
+
+    async getFileInfoAsync(path: string): Promise<IPackageFileInfo> {
+        const readStream = await this.openReadStreamAsync(path);
+        const hash = createHash('sha256');
+        let size: number = 0;
+
+        return await new Promise<IPackageFileInfo>((resolve, reject) => {
+            readStream.on('data', (chunk: Buffer) => {
+                hash.update(chunk);
+                size += chunk.length;
+            });
+            readStream.on('end', () => resolve({ path, size, sha256: hash.digest('hex') }));
+            readStream.on('error', (error) => reject(error));
+        });
+    }
+
+    async readTextFileAsync(path: string): Promise<string> {
+        return (await this.readBinaryFileAsync(path)).toString();
+    }
+
+    async readBinaryFileAsync(path: string): Promise<Buffer> {
+        const readStream = await this.openReadStreamAsync(path);
+        const chunks: Buffer[] = [];
+
+        return await new Promise<Buffer>((resolve, reject) => {
+            readStream.on('data', (chunk: Buffer) => chunks.push(chunk));
+            readStream.on('end', () => resolve(Buffer.concat(chunks)));
+            readStream.on('error', (error) => reject(error));
+        });
+    }
+
+    private async openReadStreamAsync(path: string): Promise<Readable> {
+        const entry = this.entries.get(path);
+
+        if (!entry) {
+            throw Error(`Invalid file '${path}'`);
+        }
+
+        return await new Promise<Readable>((resolve, reject) => {
+            this.zipFile.openReadStream(entry, (error, readStream) => {
+                if (error || !readStream) {
+                    reject(error ?? Error(`Could not read file '${path}'`));
+                    return;
+                }
+                resolve(readStream);
+            });
+        });
+    }
+
+    close(): void {
+        this.zipFile.close();
+
+        if (this.fileToDeleteOnClose) {
+            unlinkSync(this.fileToDeleteOnClose);
+            this.fileToDeleteOnClose = undefined;
+        }
+    }
+}
@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { createWriteStream, promises, WriteStream } from 'fs';
+import { Readable, Transform } from 'stream';
+import { ZipFile } from 'yazl';
+
+import { IEncryptionConfig, IPackageVolatileMetadata } from '../../core';
+import { BinaryDataResponseType, IPackageFileInfo, IPackageFileOptions, IPackageWriter } from '../../zip';
+import { fileEncryptionHelper } from '../file/file-encryption-helper';
+import { fileHelper } from '../file/file-helper';
+
+/**
+ * Writes package files directly into zip file as they are added. Binary files are downloaded as streams
+ * so that memory usage does not depend on number or size of assets.
+ */
+export class ZipFileWriter implements IPackageWriter {
+    public readonly binaryDataResponseType: BinaryDataResponseType = 'stream';
+    /**
+     * Set by file service so that volatile metadata are stored next to the zip file
+     */
+    public writeVolatileMetadataAsync?: (volatileMetadata: IPackageVolatileMetadata) => Promise<void>;
+
+    private readonly zipFile: ZipFile = new ZipFile();
+    private readonly outputStream: WriteStream;
+    private readonly zipFileWrittenPromise: Promise<void>;
+    private isClosed: boolean = false;
+    private isAborted: boolean = false;
+    private writeError: Error | undefined;
+
+    /**
+     * When encryption config is provided, zip file is encrypted as it is written. Given callback is called once
+     * zip file is written (e.g. to upload the file to remote storage).
+     */
+    constructor(
+        private filePath: string,
+        encryption?: IEncryptionConfig,
+        private onWrittenAsync?: () => Promise<void>
+    ) {
+        const outputStream = createWriteStream(filePath);
+        const encryptionStream = encryption ? fileEncryptionHelper.createEncryptionStream(encryption) : undefined;
+
+        this.outputStream = outputStream;
+
+        this.zipFileWrittenPromise = new Promise<void>((resolve, reject) => {
+            outputStream.on('close', () => resolve());
+            outputStream.on('error', (error) => reject(error));
+            encryptionStream?.on('error', (error) => reject(error));
+        });
+
+        // error (e.g. directory of zip file does not exist) is thrown once file is added or writer is closed
+        this.zipFileWrittenPromise.catch((error) => {
+            this.writeError = error;
+        });
+
+        if (encryptionStream) {
+            this.zipFile.outputStream.pipe(encryptionStream).pipe(outputStream);
+        } else {
+            this.zipFile.outputStream.pipe(outputStream);
+        }
+    }
+
+    /**
+     * Downloaded stream is stored in temporary file so that failed download can be retried
+     */
+    async bufferBinaryDataAsync(data: any): Promise<any> {
+        return data instanceof Readable ? await fileHelper.bufferStreamAsync(data) : data;
+    }
+
+    async addFileAsync(path: string, data: any, options: IPackageFileOptions): Promise<IPackageFileInfo> {
+        if (this.isAborted) {
+            throw Error(`Writing of zip file '${this.filePath}' was aborted`);
+        }
+        if (this.writeError) {
+            throw this.writeError;
+        }
+
+        // binary files are usually already compressed (images, videos...)
+        const compress: boolean = !options.binary;
+        const mtime: Date | undefined = options.date ? this.getLocalDate(options.date) : undefined;
+        const hash = createHash('sha256');
+
+        if (data instanceof Readable) {
+            let size: number = 0;
+
+            // hash is computed as the data flow to zip file so that backpressure of the stream is preserved
+            const hashStream = new Transform({
+                transform: (chunk: Buffer, encoding, callback) => {
+                    hash.update(chunk);
+                    size += chunk.length;
+                    callback(undefined, chunk);
+                }
+            });
+
+            // stream is consumed only when all previously added files are written
+            return await new Promise<IPackageFileInfo>((resolve, reject) => {
+                hashStream.on('end', () => resolve({ path, size, sha256: hash.digest('hex') }));
+                data.on('error', (error) => reject(error));
+                this.zipFileWrittenPromise.catch((error) => reject(error));
+
+                this.zipFile.addReadStream(data.pipe(hashStream), path, { compress, mtime });
+            });
+        }
+
+        const buffer = Buffer.from(data);
+
+        this.zipFile.addBuffer(buffer, path, { compress, mtime });
+
+        return {
+            path,
+            size: buffer.length,
+            sha256: hash.update(buffer).digest('hex')
+        };
+    }
+
+    /**
+     * Finishes zip file. Resolved once all files are written to disk (and zip file is processed by callback).
+     */
+    async closeAsync(): Promise<void> {
+        this.zipFile.end();
+
+        await this.zipFileWrittenPromise;
+
+        if (this.onWrittenAsync) {
+            await this.onWrittenAsync();
+        }
+
+        this.isClosed = true;
+    }
+
+    /**
+     * Stops writing & removes partially written zip file (or temporary file which was not processed by callback
+     * yet). Zip file of closed writer is kept.
+     */
+    async abortAsync(): Promise<void> {
+        if (this.isClosed || this.isAborted) {
+            return;
+        }
+
+        this.isAborted = true;
+        this.zipFile.outputStream.unpipe();
+        this.outputStream.destroy();
+
+        // file is created even when stream is destroyed before it is opened
+        await this.zipFileWrittenPromise.catch(() => {});
+
+        try {
+            await promises.unlink(this.filePath);
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Zip file stores dates in local time of the writer, so given date is shifted for its local time to match
+     * its UTC time. The same date is then stored regardless of time zone (as in zip files created by JSZip).
+     */
+    private getLocalDate(date: Date): Date {
+        return new Date(date.getTime() + date.getTimezoneOffset() * 60 * 1000);
+    }
+}
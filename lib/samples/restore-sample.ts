@@ -22,7 +22,10 @@ const run = async () => {
         apiKey: 'targetProjectId',
         enableLog: true,
         fixLanguages: true,
-        workflowIdForImportedItems: '00000000-0000-0000-0000-000000000000' // id that items are assigned
+        onUnmappedWorkflowStep: languageVariant => {
+            // called when workflow step of language variant does not exist in target project
+            console.log(`Unmapped workflow step: ${languageVariant.title} | ${languageVariant.workflowStep}`);
+        }
     });
 
     // read file
@@ -1,2 +1,4 @@
 export * from './zip.service';
 export * from './zip.models';
+export * from './jszip-package-writer';
+export * from './jszip-package-reader';
@@ -0,0 +1,47 @@
+import * as JSZip from 'jszip';
+
+import { hashHelper } from '../core';
+import { IPackageFileInfo, IPackageReader } from './zip.models';
+
+/**
+ * Reads package files from in-memory zip
+ */
+export class JSZipPackageReader implements IPackageReader {
+    constructor(private zip: JSZip, private binaryOutputType: 'nodebuffer' | 'blob') {}
+
+    hasFile(path: string): boolean {
+        return this.zip.files[path] !== undefined;
+    }
+
+    getFilePaths(): string[] {
+        return Object.keys(this.zip.files).filter((m) => !this.zip.files[m].dir);
+    }
+
+    async getFileInfoAsync(path: string): Promise<IPackageFileInfo> {
+        const bytes = await this.getFile(path).async('uint8array');
+
+        return {
+            path,
+            size: bytes.byteLength,
+            sha256: await hashHelper.getSha256Async(bytes)
+        };
+    }
+
+    async readTextFileAsync(path: string): Promise<string> {
+        return await this.getFile(path).async('text');
+    }
+
+    async readBinaryFileAsync(path: string): Promise<any> {
+        return await this.getFile(path).async(this.binaryOutputType);
+    }
+
+    private getFile(path: string): JSZip.JSZipObject {
+        const file = this.zip.files[path];
+
+        if (!file) {
+            throw Error(`Invalid file '${path}'`);
+        }
+
+        return file;
+    }
+}
@@ -0,0 +1,30 @@
+import * as JSZip from 'jszip';
+
+import { hashHelper } from '../core';
+import { BinaryDataResponseType, IPackageFileInfo, IPackageFileOptions, IPackageWriter } from './zip.models';
+
+/**
+ * Writes package files into in-memory zip
+ */
+export class JSZipPackageWriter implements IPackageWriter {
+    public readonly binaryDataResponseType: BinaryDataResponseType = 'arraybuffer';
+
+    constructor(private zip: JSZip) {}
+
+    async addFileAsync(path: string, data: any, options: IPackageFileOptions): Promise<IPackageFileInfo> {
+        const bytes = await hashHelper.getBytesAsync(data);
+
+        this.zip.file(path, bytes, {
+            binary: options.binary,
+            date: options.date,
+            // folder entries would be stamped with current date
+            createFolders: !options.date
+        });
+
+        return {
+            path,
+            size: bytes.byteLength,
+            sha256: await hashHelper.getSha256Async(bytes)
+        };
+    }
+}
@@ -1,7 +1,131 @@
+import { IEncryptionConfig, IFailedAssetDownload, IPackageVolatileMetadata, PackageLayout } from '../core';
+
 export type ZipContext = 'node.js' | 'browser';
 
 export interface IZipServiceConfig {
     enableLog: boolean;
     context: ZipContext
     delayBetweenAssetDownloadRequestsMs?: number
+    /**
+     * Maximum number of assets downloaded at the same time. Defaults to 1.
+     */
+    maxConcurrentAssetDownloads?: number;
+    /**
+     * Number of times failed asset download is retried. Defaults to 3.
+     */
+    assetDownloadRetryAttempts?: number;
+    /**
+     * Delay before first retry of failed asset download. Delay is doubled with each subsequent retry. Defaults to 1000.
+     */
+    assetDownloadRetryDelayMs?: number;
+    /**
+     * When enabled, assets that could not be downloaded are not included in zip file and are listed in package
+     * metadata. Otherwise creating zip fails when any of the assets cannot be downloaded.
+     */
+    skipFailedAssetDownloads?: boolean;
+    onFailedAssetDownload?: (failedAssetDownload: IFailedAssetDownload) => void;
+    /**
+     * When set, created zip file is encrypted. Encrypted zip files are detected & decrypted automatically
+     * during extraction.
+     */
+    encryption?: IEncryptionConfig;
+    /**
+     * When enabled, identical project content produces byte-identical packages. Objects of all collections are
+     * sorted by codename (or id), json is normalized, files are stamped with fixed date and volatile metadata
+     * (e.g. time of export) are not stored in package. Volatile metadata are stored separately by package writer
+     * (see 'writeVolatileMetadataAsync') and provided by package reader. Encrypted packages still differ as each
+     * encryption uses random salt.
+     */
+    deterministic?: boolean;
+}
+
+export type BinaryDataResponseType = 'arraybuffer' | 'stream';
+
+export interface IPackageFileOptions {
+    binary: boolean;
+    /**
+     * Modification date stored with file. Current date is used when not set.
+     */
+    date?: Date;
+}
+
+/**
+ * Writes files of backup package. Files may be written directly to output as they are added so that binary files
+ * of all assets do not need to be kept in memory.
+ */
+export interface IPackageWriter {
+    /**
+     * Determines how binary files of assets are downloaded before they are added to package
+     */
+    binaryDataResponseType: BinaryDataResponseType;
+    /**
+     * Layout of written package. Defaults to 'flat'.
+     */
+    layout?: PackageLayout;
+    /**
+     * Consumes downloaded binary data before they are added to package (e.g. stores stream in temporary file),
+     * so that download failing in the middle of the stream can be retried without partially written file.
+     */
+    bufferBinaryDataAsync?(data: any): Promise<any>;
+    /**
+     * Returned promise is resolved once the data are consumed by writer
+     */
+    addFileAsync(path: string, data: any, options: IPackageFileOptions): Promise<IPackageFileInfo>;
+    /**
+     * Stores volatile metadata of deterministic package separately from package (e.g. in file next to it). Writers
+     * without this method (e.g. writer of 'createZipAsync') do not store them, use 'getVolatileMetadata' instead.
+     */
+    writeVolatileMetadataAsync?(volatileMetadata: IPackageVolatileMetadata): Promise<void>;
+}
+
+/**
+ * Reads files of backup package. Binary files are read only when requested.
+ */
+export interface IPackageReader {
+    /**
+     * Volatile metadata of deterministic package stored separately from package. Merged into package metadata
+     * when package is read.
+     */
+    volatileMetadata?: IPackageVolatileMetadata;
+    hasFile(path: string): boolean;
+    getFilePaths(): string[];
+    getFileInfoAsync(path: string): Promise<IPackageFileInfo>;
+    readTextFileAsync(path: string): Promise<string>;
+    readBinaryFileAsync(path: string): Promise<any>;
+}
+
+export interface IPackageFileInfo {
+    path: string;
+    /**
+     * Size in Bytes
+     */
+    size: number;
+    /**
+     * Hex encoded SHA-256 hash of file content
+     */
+    sha256: string;
+}
+
+/**
+ * Lists all files of package (except the manifest itself) so that package can be verified
+ */
+export interface IPackageManifest {
+    files: IPackageFileInfo[];
+}
+
+export interface IPackageVerificationResult {
+    isValid: boolean;
+    /**
+     * Packages created by older versions do not contain manifest. Such packages are verified only by comparing
+     * binary files with asset sizes.
+     */
+    hasManifest: boolean;
+    missingFiles: string[];
+    extraFiles: string[];
+    corruptedFiles: IPackageCorruptedFile[];
+}
+
+export interface IPackageCorruptedFile {
+    path: string;
+    reason: string;
 }
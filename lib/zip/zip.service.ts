@@ -2,131 +2,810 @@ import { AssetContracts } from '@kentico/kontent-management';
 import { HttpService } from '@kentico/kontent-core';
 import * as JSZip from 'jszip';
 
+import {
+    encryptionHelper,
+    getFilenameWithoutExtension,
+    hashHelper,
+    IFailedAssetDownload,
+    IIncrementalPackageMetadata,
+    IPackageJsonFiles,
+    IPackageMetadata,
+    IPackageVolatileMetadata,
+    packageMigrationHelper,
+    PackageLayout,
+    processInParallelAsync
+} from '../core';
 import { IExportAllResult } from '../export';
 import { IBinaryFile, IImportSource } from '../import';
-import { IZipServiceConfig } from './zip.models';
+import { JSZipPackageReader } from './jszip-package-reader';
+import { JSZipPackageWriter } from './jszip-package-writer';
+import {
+    BinaryDataResponseType,
+    IPackageCorruptedFile,
+    IPackageFileInfo,
+    IPackageManifest,
+    IPackageReader,
+    IPackageVerificationResult,
+    IPackageWriter,
+    IZipServiceConfig
+} from './zip.models';
 
 export class ZipService {
     private readonly delayBetweenAssetRequestsMs: number;
+    private readonly maxConcurrentAssetDownloads: number;
+    private readonly assetDownloadRetryAttempts: number;
+    private readonly assetDownloadRetryDelayMs: number;
 
     private readonly contentTypesName: string = 'contentTypes.json';
     private readonly contentItemsName: string = 'contentItems.json';
     private readonly taxonomiesName: string = 'taxonomies.json';
     private readonly assetsName: string = 'assets.json';
     private readonly languageVariantsName: string = 'languageVariants.json';
-    private readonly contentTypeSnippetsName: string = 'contentTypesSnippets.json';
+    private readonly contentTypeSnippetsName: string = 'contentTypeSnippets.json';
     private readonly metadataName: string = 'metadata.json';
     private readonly languages: string = 'languages.json';
     private readonly filesName: string = 'files';
     private readonly assetFoldersName: string = 'assetFolders.json';
     private readonly workflowStepsName: string = 'workflowSteps.json';
+    private readonly webhooksName: string = 'webhooks.json';
+    private readonly collectionsName: string = 'collections.json';
     private readonly validationName: string = 'validation.json';
+    private readonly manifestName: string = 'manifest.json';
+
+    /**
+     * Date of files in deterministic packages (the earliest date supported by zip files)
+     */
+    private readonly deterministicFileDate: Date = new Date(Date.UTC(1980, 0, 1));
 
     private readonly httpService: HttpService = new HttpService();
 
     constructor(private config: IZipServiceConfig) {
         this.delayBetweenAssetRequestsMs = config?.delayBetweenAssetDownloadRequestsMs ?? 150;
+        this.maxConcurrentAssetDownloads = config?.maxConcurrentAssetDownloads ?? 1;
+        this.assetDownloadRetryAttempts = config?.assetDownloadRetryAttempts ?? 3;
+        this.assetDownloadRetryDelayMs = config?.assetDownloadRetryDelayMs ?? 1000;
     }
 
-    public async extractZipAsync(zipFile: any): Promise<IImportSource> {
-        if (this.config.enableLog) {
-            console.log(`Unzipping file`);
+    /**
+     * Extracts package from given zip file. When incremental zip files are provided, they are applied on top of
+     * the base package in given order and resulting import source represents state of the last package.
+     */
+    public async extractZipAsync(zipFile: any, incrementalZipFiles?: any[]): Promise<IImportSource> {
+        const incrementalPackageReaders: IPackageReader[] = [];
+
+        for (const incrementalZipFile of incrementalZipFiles ?? []) {
+            incrementalPackageReaders.push(await this.createJSZipPackageReaderAsync(incrementalZipFile));
         }
 
-        const unzippedFile = await JSZip.loadAsync(zipFile);
+        return await this.readPackageAsync(
+            await this.createJSZipPackageReaderAsync(zipFile),
+            incrementalPackageReaders
+        );
+    }
 
-        if (this.config.enableLog) {
-            console.log(`Parsing zip contents`);
+    /**
+     * Reads package using given reader. Binary files of assets are read only when they are imported.
+     * When incremental package readers are provided, incremental packages are applied on top of the base package.
+     */
+    public async readPackageAsync(
+        packageReader: IPackageReader,
+        incrementalPackageReaders?: IPackageReader[]
+    ): Promise<IImportSource> {
+        const importSource = await this.readSinglePackageAsync(packageReader);
+
+        if (importSource.metadata.incremental) {
+            throw Error(`Base package cannot be an incremental package. Please provide full backup as a base package.`);
         }
-        const assets = await this.readAndParseJsonFile(unzippedFile, this.assetsName);
-        const result: IImportSource = {
-            importData: {
-                assets,
-                contentTypes: await this.readAndParseJsonFile(unzippedFile, this.contentTypesName),
-                languageVariants: await this.readAndParseJsonFile(unzippedFile, this.languageVariantsName),
-                languages: await this.readAndParseJsonFile(unzippedFile, this.languages),
-                contentItems: await this.readAndParseJsonFile(unzippedFile, this.contentItemsName),
-                contentTypeSnippets: await this.readAndParseJsonFile(unzippedFile, this.contentTypeSnippetsName),
-                taxonomies: await this.readAndParseJsonFile(unzippedFile, this.taxonomiesName),
-                workflowSteps: await this.readAndParseJsonFile(unzippedFile, this.workflowStepsName)
-            },
-            assetFolders: await this.readAndParseJsonFile(unzippedFile, this.assetFoldersName),
-            binaryFiles: await this.extractBinaryFilesAsync(unzippedFile, assets),
-            validation: await this.readAndParseJsonFile(unzippedFile, this.validationName),
-            metadata: await this.readAndParseJsonFile(unzippedFile, this.metadataName)
-        };
 
-        if (this.config.enableLog) {
-            console.log(`Pasing zip completed`);
+        let previousMetadata: IPackageMetadata = importSource.metadata;
+
+        for (const incrementalPackageReader of incrementalPackageReaders ?? []) {
+            const incrementalSource = await this.readSinglePackageAsync(incrementalPackageReader);
+            const incrementalMetadata = incrementalSource.metadata.incremental;
+
+            if (!incrementalMetadata) {
+                throw Error(
+                    `Package created at '${incrementalSource.metadata.timestamp}' is not an incremental package`
+                );
+            }
+
+            if (
+                incrementalMetadata.parent.projectId !== previousMetadata.projectId ||
+                new Date(incrementalMetadata.parent.timestamp).getTime() !==
+                    new Date(previousMetadata.timestamp).getTime()
+            ) {
+                throw Error(
+                    `Incremental package created at '${incrementalSource.metadata.timestamp}' is not based on package created at '${previousMetadata.timestamp}'. Please provide packages in the order they were created.`
+                );
+            }
+
+            if (this.config.enableLog) {
+                console.log(`Applying incremental package created at '${incrementalSource.metadata.timestamp}'`);
+            }
+
+            this.applyIncrementalSource(importSource, incrementalSource, incrementalMetadata);
+            previousMetadata = incrementalSource.metadata;
         }
 
-        return result;
+        return importSource;
     }
 
     public async createZipAsync(exportData: IExportAllResult): Promise<any> {
         const zip = new JSZip();
 
+        await this.writePackageAsync(exportData, new JSZipPackageWriter(zip));
+
+        if (this.config.enableLog) {
+            console.log(`Creating zip file`);
+        }
+
+        if (this.config.encryption) {
+            const encryptedContent = await encryptionHelper.encryptAsync(
+                await zip.generateAsync({ type: 'uint8array' }),
+                this.config.encryption
+            );
+
+            if (this.config.enableLog) {
+                console.log(`Zip file prepared & encrypted`);
+            }
+
+            return this.config.context === 'browser' ? new Blob([encryptedContent]) : Buffer.from(encryptedContent);
+        }
+
+        const content = await zip.generateAsync({ type: this.getZipOutputType() });
+
+        if (this.config.enableLog) {
+            console.log(`Zip file prepared`);
+        }
+
+        return content;
+    }
+
+    /**
+     * Writes package using given writer. Binary files of assets are added to writer as they are downloaded.
+     * Layout of package is given by writer.
+     */
+    public async writePackageAsync(exportData: IExportAllResult, packageWriter: IPackageWriter): Promise<void> {
+        const layout: PackageLayout = packageWriter.layout ?? 'flat';
+        const deterministic: boolean = this.config.deterministic ?? false;
+
+        if (deterministic) {
+            exportData = this.getSortedExportData(exportData);
+        }
+
         if (this.config.enableLog) {
             console.log(`Parsing json`);
         }
 
-        zip.file(this.contentTypesName, JSON.stringify(exportData.data.contentTypes));
-        zip.file(this.validationName, JSON.stringify(exportData.validation));
-        zip.file(this.contentItemsName, JSON.stringify(exportData.data.contentItems));
-        zip.file(this.taxonomiesName, JSON.stringify(exportData.data.taxonomies));
-        zip.file(this.assetsName, JSON.stringify(exportData.data.assets));
-        zip.file(this.languageVariantsName, JSON.stringify(exportData.data.languageVariants));
-        zip.file(this.metadataName, JSON.stringify(exportData.metadata));
-        zip.file(this.languages, JSON.stringify(exportData.data.languages));
-        zip.file(this.contentTypeSnippetsName, JSON.stringify(exportData.data.contentTypeSnippets));
-        zip.file(this.assetFoldersName, JSON.stringify(exportData.data.assetFolders));
-        zip.file(this.workflowStepsName, JSON.stringify(exportData.data.workflowSteps));
+        const manifest: IPackageManifest = {
+            files: []
+        };
 
-        const assetsFolder = zip.folder(this.filesName);
+        const jsonFiles: [string, any][] = [
+            [this.contentTypesName, exportData.data.contentTypes],
+            [this.validationName, exportData.validation],
+            [this.contentItemsName, exportData.data.contentItems],
+            [this.taxonomiesName, exportData.data.taxonomies],
+            [this.assetsName, exportData.data.assets],
+            [this.languageVariantsName, exportData.data.languageVariants],
+            [this.languages, exportData.data.languages],
+            [this.contentTypeSnippetsName, exportData.data.contentTypeSnippets],
+            [this.assetFoldersName, exportData.data.assetFolders],
+            [this.workflowStepsName, exportData.data.workflowSteps],
+            [this.webhooksName, exportData.data.webhooks],
+            [this.collectionsName, exportData.data.collections]
+        ];
+
+        for (const [filename, data] of jsonFiles) {
+            if (layout === 'directory' && this.getDirectoryJsonFilenames().includes(filename)) {
+                for (const [path, item] of this.getDirectoryJsonFiles(filename, data, exportData)) {
+                    manifest.files.push(await this.addJsonFileAsync(packageWriter, path, item, layout));
+                }
+                continue;
+            }
 
-        if (!assetsFolder) {
-            throw Error(`Could not create folder '${this.filesName}'`);
+            manifest.files.push(await this.addJsonFileAsync(packageWriter, filename, data, layout));
         }
 
         if (this.config.enableLog) {
             console.log(`Adding assets to zip`);
         }
 
-        for (const asset of exportData.data.assets) {
-            const assetIdShortFolderName = asset.id.substr(0, 3);
-            const assetIdShortFolder = assetsFolder.folder(assetIdShortFolderName);
+        const failedAssetDownloads: IFailedAssetDownload[] = [];
+        let lastAddition: Promise<void> = Promise.resolve();
 
-            if (!assetIdShortFolder) {
-                throw Error(`Could not create folder '${this.filesName}'`);
-            }
+        await processInParallelAsync(exportData.data.assets, this.maxConcurrentAssetDownloads, async (asset) => {
+            // deterministic packages contain binary files in order of assets regardless of which download finishes first
+            const previousAddition = lastAddition;
+            let completeAddition: () => void = () => {};
+            const addition = new Promise<void>((resolve) => (completeAddition = resolve));
+            let binaryData: any;
+
+            lastAddition = previousAddition.then(() => addition);
 
-            const assetIdFolderName = asset.id;
-            const assetIdFolder = assetIdShortFolder.folder(assetIdFolderName);
+            try {
+                binaryData = await this.downloadBinaryDataWithRetryAsync(asset, packageWriter);
+            } catch (error) {
+                const failedAssetDownload: IFailedAssetDownload = {
+                    assetId: asset.id,
+                    filename: asset.file_name,
+                    url: asset.url,
+                    error: error?.message ?? `${error}`
+                };
 
-            if (!assetIdFolder) {
-                throw Error(`Could not create folder '${this.filesName}'`);
+                failedAssetDownloads.push(failedAssetDownload);
+
+                if (this.config.onFailedAssetDownload) {
+                    this.config.onFailedAssetDownload(failedAssetDownload);
+                }
             }
 
-            const assetFilename = asset.file_name;
-            assetIdFolder.file(assetFilename, await this.getBinaryDataFromUrlAsync(asset.url, this.config.enableLog), {
-                binary: true
-            });
+            try {
+                if (binaryData) {
+                    if (deterministic) {
+                        await previousAddition;
+                    }
+
+                    // errors while writing downloaded data cannot be retried as the file may be partially written,
+                    // streamed data are thus buffered by writer while downloading
+                    const fileInfo = await packageWriter.addFileAsync(
+                        this.getFullAssetPath(asset.id, asset.file_name),
+                        binaryData,
+                        {
+                            binary: true,
+                            date: this.getFileDate()
+                        }
+                    );
+
+                    if (fileInfo.size !== asset.size) {
+                        console.warn(
+                            `WARNING: Size of downloaded asset '${asset.file_name}' (${asset.id}) is '${fileInfo.size}' Bytes, but asset size is '${asset.size}' Bytes`
+                        );
+                    }
+
+                    manifest.files.push(fileInfo);
+                }
+            } finally {
+                completeAddition();
+            }
 
             // create artificial delay between requests as to prevent errors on network
             await this.sleepAsync(this.delayBetweenAssetRequestsMs);
+        });
+
+        if (failedAssetDownloads.length) {
+            if (!this.config.skipFailedAssetDownloads) {
+                throw Error(
+                    `Could not download '${failedAssetDownloads.length}' assets: ${failedAssetDownloads
+                        .map((m) => `'${m.filename}' (${m.assetId})`)
+                        .join(', ')}`
+                );
+            }
+
+            console.warn(
+                `WARNING: '${failedAssetDownloads.length}' assets could not be downloaded and are not included in zip file. Failed assets are listed in '${this.metadataName}'.`
+            );
+        }
+
+        if (deterministic) {
+            failedAssetDownloads.sort((a, b) => this.compareKeys(a.assetId, b.assetId));
+        }
+
+        const metadata: IPackageMetadata = {
+            ...exportData.metadata,
+            formatVersion: packageMigrationHelper.currentFormatVersion,
+            layout: layout === 'directory' ? layout : undefined,
+            failedAssetDownloads: failedAssetDownloads.length ? failedAssetDownloads : undefined
+        };
+        manifest.files.push(
+            await this.addJsonFileAsync(
+                packageWriter,
+                this.metadataName,
+                deterministic ? this.getStableMetadata(metadata) : metadata,
+                layout
+            )
+        );
+
+        // manifest is written last so that it lists all files of package
+        manifest.files.sort((a, b) => this.compareKeys(a.path, b.path));
+        await this.addJsonFileAsync(packageWriter, this.manifestName, manifest, layout);
+
+        if (deterministic && packageWriter.writeVolatileMetadataAsync) {
+            await packageWriter.writeVolatileMetadataAsync(this.getVolatileMetadata(exportData));
+        }
+    }
+
+    /**
+     * Gets metadata which are not stored in deterministic packages. These are stored separately by package writer
+     * and provided by package reader, otherwise time of export of read package is unknown.
+     */
+    public getVolatileMetadata(exportData: IExportAllResult): IPackageVolatileMetadata {
+        return {
+            timestamp: exportData.metadata.timestamp
+        };
+    }
+
+    /**
+     * Checks that all files of package are present & not corrupted without importing the package.
+     * Files are compared with manifest. Binary files of assets not listed in manifest (packages created by older
+     * versions) are compared with asset sizes.
+     */
+    public async verifyPackageAsync(packageReader: IPackageReader): Promise<IPackageVerificationResult> {
+        const hasManifest: boolean = packageReader.hasFile(this.manifestName);
+        const missingFiles: string[] = [];
+        const corruptedFiles: IPackageCorruptedFile[] = [];
+        const expectedFiles = new Map<string, IPackageFileInfo | undefined>();
+
+        if (hasManifest) {
+            const manifest: IPackageManifest = await this.readAndParseJsonFile(packageReader, this.manifestName);
+
+            for (const file of manifest.files) {
+                expectedFiles.set(file.path, file);
+            }
+        } else {
+            for (const filename of await this.getExpectedJsonFilenamesAsync(packageReader)) {
+                expectedFiles.set(filename, undefined);
+            }
+        }
+
+        for (const [path, expectedFile] of expectedFiles) {
+            if (!packageReader.hasFile(path)) {
+                missingFiles.push(path);
+                continue;
+            }
+
+            if (!expectedFile) {
+                continue;
+            }
+
+            const corruptedFile = await this.getCorruptedFileAsync(packageReader, path, (fileInfo) => {
+                if (fileInfo.size !== expectedFile.size || fileInfo.sha256 !== expectedFile.sha256) {
+                    return `File does not match manifest. Expected size '${expectedFile.size}' and hash '${expectedFile.sha256}', but file has size '${fileInfo.size}' and hash '${fileInfo.sha256}'`;
+                }
+                return undefined;
+            });
+
+            if (corruptedFile) {
+                corruptedFiles.push(corruptedFile);
+            }
+        }
+
+        const corruptedPaths = new Set<string>(corruptedFiles.map((m) => m.path));
+        const canReadAssets =
+            packageReader.hasFile(this.assetsName) &&
+            packageReader.hasFile(this.metadataName) &&
+            !corruptedPaths.has(this.assetsName) &&
+            !corruptedPaths.has(this.metadataName);
+
+        if (canReadAssets) {
+            const assets: AssetContracts.IAssetModelContract[] = await this.readAndParseJsonFile(
+                packageReader,
+                this.assetsName
+            );
+            const metadata: IPackageMetadata = await this.readAndParseJsonFile(packageReader, this.metadataName);
+            const failedAssetIds = new Set<string>((metadata.failedAssetDownloads ?? []).map((m) => m.assetId));
+
+            for (const asset of assets) {
+                const assetPath = this.getFullAssetPath(asset.id, asset.file_name);
+
+                // manifest stores size of downloaded file which may differ from asset size (warning is logged
+                // when package is written), so file listed in manifest is already verified
+                if (failedAssetIds.has(asset.id) || corruptedPaths.has(assetPath) || expectedFiles.get(assetPath)) {
+                    continue;
+                }
+
+                if (!expectedFiles.has(assetPath)) {
+                    expectedFiles.set(assetPath, undefined);
+                }
+
+                if (!packageReader.hasFile(assetPath)) {
+                    if (!missingFiles.includes(assetPath)) {
+                        missingFiles.push(assetPath);
+                    }
+                    continue;
+                }
+
+                const corruptedFile = await this.getCorruptedFileAsync(packageReader, assetPath, (fileInfo) => {
+                    if (fileInfo.size !== asset.size) {
+                        return `File size '${fileInfo.size}' does not match asset size '${asset.size}'`;
+                    }
+                    return undefined;
+                });
+
+                if (corruptedFile) {
+                    corruptedFiles.push(corruptedFile);
+                }
+            }
+        }
+
+        const extraFiles = packageReader.getFilePaths().filter((m) => m !== this.manifestName && !expectedFiles.has(m));
+
+        return {
+            isValid: !missingFiles.length && !extraFiles.length && !corruptedFiles.length,
+            hasManifest,
+            missingFiles,
+            extraFiles,
+            corruptedFiles
+        };
+    }
+
+    /**
+     * Reads only metadata of package. Returns undefined when package does not contain metadata.
+     */
+    public async readPackageMetadataAsync(packageReader: IPackageReader): Promise<IPackageMetadata | undefined> {
+        if (!packageReader.hasFile(this.metadataName)) {
+            return undefined;
+        }
+
+        return {
+            ...(await this.readAndParseJsonFile(packageReader, this.metadataName)),
+            ...packageReader.volatileMetadata
+        };
+    }
+
+    private async createJSZipPackageReaderAsync(zipFile: any): Promise<IPackageReader> {
+        if (typeof zipFile !== 'string') {
+            const zipFileBytes = await hashHelper.getBytesAsync(zipFile);
+
+            if (encryptionHelper.isEncrypted(zipFileBytes)) {
+                if (!this.config.encryption) {
+                    throw Error(`Zip file is encrypted. Please provide passphrase or encryption key.`);
+                }
+
+                if (this.config.enableLog) {
+                    console.log(`Decrypting file`);
+                }
+
+                zipFile = await encryptionHelper.decryptAsync(zipFileBytes, this.config.encryption);
+            }
         }
 
         if (this.config.enableLog) {
-            console.log(`Creating zip file`);
+            console.log(`Unzipping file`);
         }
 
-        const content = await zip.generateAsync({ type: this.getZipOutputType() });
+        return new JSZipPackageReader(await JSZip.loadAsync(zipFile), this.getZipOutputType());
+    }
+
+    private async addJsonFileAsync(
+        packageWriter: IPackageWriter,
+        filename: string,
+        data: any,
+        layout: PackageLayout
+    ): Promise<IPackageFileInfo> {
+        const json: string =
+            layout === 'directory'
+                ? this.getNormalizedJson(data)
+                : JSON.stringify(this.config.deterministic ? this.sortObjectKeys(data) : data);
+
+        return await packageWriter.addFileAsync(filename, json, { binary: false, date: this.getFileDate() });
+    }
+
+    private getFileDate(): Date | undefined {
+        return this.config.deterministic ? this.deterministicFileDate : undefined;
+    }
+
+    /**
+     * Objects of all collections are sorted by codename (or id when objects do not have codename) so that package
+     * does not depend on order in which objects are returned by API. Nested arrays (e.g. elements of content types)
+     * are ordered meaningfully and are preserved.
+     */
+    private getSortedExportData(exportData: IExportAllResult): IExportAllResult {
+        const data = exportData.data;
+        const getObjectKey = (m: { id?: string; codename?: string }) => m.codename ?? m.id ?? '';
+
+        return {
+            ...exportData,
+            data: {
+                workflowSteps: this.sortByKey(data.workflowSteps, getObjectKey),
+                taxonomies: this.sortByKey(data.taxonomies, getObjectKey),
+                contentTypeSnippets: this.sortByKey(data.contentTypeSnippets, getObjectKey),
+                contentTypes: this.sortByKey(data.contentTypes, getObjectKey),
+                contentItems: this.sortByKey(data.contentItems, getObjectKey),
+                languageVariants: this.sortByKey(data.languageVariants, (m) =>
+                    this.getLanguageVariantKey(m.item.id, m.language.id)
+                ),
+                languages: this.sortByKey(data.languages, getObjectKey),
+                assets: this.sortByKey(data.assets, (m) => m.id),
+                assetFolders: this.sortByKey(data.assetFolders, (m) => m.id),
+                webhooks: this.sortByKey(data.webhooks, (m) => m.id),
+                collections: this.sortByKey(data.collections, getObjectKey)
+            },
+            validation: {
+                ...exportData.validation,
+                variant_issues: this.sortByKey(exportData.validation.variant_issues, (m) =>
+                    this.getLanguageVariantKey(m.item.id, m.language.id)
+                ),
+                type_issues: this.sortByKey(exportData.validation.type_issues, (m) => m.type.id)
+            }
+        };
+    }
+
+    /**
+     * Sorting is stable & does not depend on locale
+     */
+    private sortByKey<T>(items: T[], getKey: (item: T) => string): T[] {
+        return [...items].sort((a, b) => this.compareKeys(getKey(a), getKey(b)));
+    }
+
+    private compareKeys(a: string, b: string): number {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    /**
+     * Gets metadata without volatile metadata which would make deterministic packages differ
+     */
+    private getStableMetadata(metadata: IPackageMetadata): Partial<IPackageMetadata> {
+        return {
+            ...metadata,
+            timestamp: undefined
+        };
+    }
+
+    /**
+     * Gets pretty-printed json with sorted object keys so that files of unchanged objects stay the same
+     * and changed objects produce readable diffs
+     */
+    private getNormalizedJson(data: any): string {
+        return `${JSON.stringify(this.sortObjectKeys(data), undefined, 4)}\n`;
+    }
+
+    private sortObjectKeys(data: any): any {
+        if (Array.isArray(data)) {
+            return data.map((m) => this.sortObjectKeys(m));
+        }
+
+        if (data && typeof data === 'object' && !(data instanceof Date)) {
+            const sortedData: any = {};
+
+            for (const key of Object.keys(data).sort()) {
+                sortedData[key] = this.sortObjectKeys(data[key]);
+            }
+
+            return sortedData;
+        }
+
+        return data;
+    }
+
+    /**
+     * Json files which are split into file per object in packages with 'directory' layout
+     */
+    private getDirectoryJsonFilenames(): string[] {
+        return [
+            this.contentTypesName,
+            this.contentTypeSnippetsName,
+            this.taxonomiesName,
+            this.contentItemsName,
+            this.languageVariantsName
+        ];
+    }
+
+    /**
+     * Gets paths & objects of json files stored in directory named by json file. Objects are identified by codename
+     * (e.g. "contentItems/home.json") and language variants by codenames of their content item & language
+     * (e.g. "languageVariants/home/en-US.json").
+     */
+    private getDirectoryJsonFiles(filename: string, items: any[], exportData: IExportAllResult): [string, any][] {
+        const directory: string = getFilenameWithoutExtension(filename);
+
+        if (filename === this.languageVariantsName) {
+            const itemCodenames = new Map<string, string>(exportData.data.contentItems.map((m) => [m.id, m.codename]));
+            const languageCodenames = new Map<string, string>(exportData.data.languages.map((m) => [m.id, m.codename]));
+
+            return items.map((m) => [
+                `${directory}/${itemCodenames.get(m.item.id) ?? m.item.id}/${
+                    languageCodenames.get(m.language.id) ?? m.language.id
+                }.json`,
+                m
+            ]);
+        }
+
+        return items.map((m) => [`${directory}/${m.codename ?? m.id}.json`, m]);
+    }
+
+    private async readDirectoryJsonFilesAsync(packageReader: IPackageReader, filename: string): Promise<any[]> {
+        const directory: string = getFilenameWithoutExtension(filename);
+        const paths = packageReader
+            .getFilePaths()
+            .filter((m) => m.startsWith(`${directory}/`) && m.endsWith('.json'))
+            .sort();
+        const items: any[] = [];
+
+        for (const path of paths) {
+            items.push(await this.readAndParseJsonFile(packageReader, path));
+        }
+
+        return items;
+    }
+
+    /**
+     * Files that cannot be read (e.g. due to invalid compressed data) are considered corrupted as well
+     */
+    private async getCorruptedFileAsync(
+        packageReader: IPackageReader,
+        path: string,
+        getCorruptionReason: (fileInfo: IPackageFileInfo) => string | undefined
+    ): Promise<IPackageCorruptedFile | undefined> {
+        let reason: string | undefined;
+
+        try {
+            reason = getCorruptionReason(await packageReader.getFileInfoAsync(path));
+        } catch (error) {
+            reason = `File could not be read: ${error?.message ?? error}`;
+        }
+
+        return reason ? { path, reason } : undefined;
+    }
+
+    private getJsonFilenames(): string[] {
+        return [
+            this.contentTypesName,
+            this.validationName,
+            this.contentItemsName,
+            this.taxonomiesName,
+            this.assetsName,
+            this.languageVariantsName,
+            this.languages,
+            this.contentTypeSnippetsName,
+            this.assetFoldersName,
+            this.workflowStepsName,
+            this.webhooksName,
+            this.collectionsName,
+            this.metadataName
+        ];
+    }
+
+    /**
+     * Files of packages created by older versions differ, so only files present in all format versions
+     * are required in such packages and other json files in root of package are not considered extra
+     */
+    private async getExpectedJsonFilenamesAsync(packageReader: IPackageReader): Promise<string[]> {
+        if (packageReader.hasFile(this.metadataName)) {
+            const metadata: IPackageMetadata = await this.readAndParseJsonFile(packageReader, this.metadataName);
 
+            if (metadata.layout === 'directory') {
+                return this.getJsonFilenames().filter((m) => !this.getDirectoryJsonFilenames().includes(m));
+            }
+
+            if (packageMigrationHelper.getFormatVersion(metadata) === packageMigrationHelper.currentFormatVersion) {
+                return this.getJsonFilenames();
+            }
+        }
+
+        const rootJsonFilenames = packageReader.getFilePaths().filter((m) => !m.includes('/') && m.endsWith('.json'));
+
+        return [
+            ...new Set<string>([
+                this.contentTypesName,
+                this.contentItemsName,
+                this.taxonomiesName,
+                this.assetsName,
+                this.languageVariantsName,
+                this.metadataName,
+                ...rootJsonFilenames
+            ])
+        ];
+    }
+
+    private async readSinglePackageAsync(packageReader: IPackageReader): Promise<IImportSource> {
         if (this.config.enableLog) {
-            console.log(`Zip file prepared`);
+            console.log(`Parsing zip contents`);
         }
+        // packages created by older versions are migrated to current format before they are processed
+        const jsonFiles = packageMigrationHelper.migrate(
+            await this.readJsonFilesAsync(packageReader),
+            this.config.enableLog
+        );
+        const assets = this.getJsonFile(jsonFiles, this.assetsName);
+        const metadata: IPackageMetadata = {
+            ...this.getJsonFile(jsonFiles, this.metadataName),
+            ...packageReader.volatileMetadata
+        };
+        const result: IImportSource = {
+            importData: {
+                assets,
+                contentTypes: this.getJsonFile(jsonFiles, this.contentTypesName),
+                languageVariants: this.getJsonFile(jsonFiles, this.languageVariantsName),
+                languages: this.getJsonFile(jsonFiles, this.languages),
+                contentItems: this.getJsonFile(jsonFiles, this.contentItemsName),
+                contentTypeSnippets: this.getJsonFile(jsonFiles, this.contentTypeSnippetsName),
+                taxonomies: this.getJsonFile(jsonFiles, this.taxonomiesName),
+                workflowSteps: this.getJsonFile(jsonFiles, this.workflowStepsName),
+                webhooks: this.getJsonFile(jsonFiles, this.webhooksName),
+                collections: this.getJsonFile(jsonFiles, this.collectionsName)
+            },
+            assetFolders: this.getJsonFile(jsonFiles, this.assetFoldersName),
+            binaryFiles: await this.extractBinaryFilesAsync(packageReader, assets, metadata),
+            validation: this.getJsonFile(jsonFiles, this.validationName),
+            metadata
+        };
 
-        return content;
+        if (this.config.enableLog) {
+            console.log(`Pasing zip completed`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Incremental package contains complete content model (types, taxonomies, languages...), but only changed
+     * content items, language variants & assets. These are merged into source by id and deleted objects are removed.
+     */
+    private applyIncrementalSource(
+        source: IImportSource,
+        incrementalSource: IImportSource,
+        incrementalMetadata: IIncrementalPackageMetadata
+    ): void {
+        const deleted = incrementalMetadata.deleted;
+        const deletedContentItemIds = new Set<string>(deleted.contentItemIds);
+        const deletedAssetIds = new Set<string>(deleted.assetIds);
+        const deletedVariantKeys = new Set<string>(
+            deleted.languageVariants.map((m) => this.getLanguageVariantKey(m.itemId, m.languageId))
+        );
+
+        source.importData.taxonomies = incrementalSource.importData.taxonomies;
+        source.importData.contentTypeSnippets = incrementalSource.importData.contentTypeSnippets;
+        source.importData.contentTypes = incrementalSource.importData.contentTypes;
+        source.importData.languages = incrementalSource.importData.languages;
+        source.importData.workflowSteps = incrementalSource.importData.workflowSteps;
+        source.importData.webhooks = incrementalSource.importData.webhooks;
+        source.importData.collections = incrementalSource.importData.collections;
+        source.assetFolders = incrementalSource.assetFolders;
+        source.validation = incrementalSource.validation;
+
+        source.importData.contentItems = this.mergeById(
+            source.importData.contentItems.filter((m) => !deletedContentItemIds.has(m.id)),
+            incrementalSource.importData.contentItems,
+            (m) => m.id
+        );
+        source.importData.languageVariants = this.mergeById(
+            source.importData.languageVariants.filter(
+                (m) => !deletedVariantKeys.has(this.getLanguageVariantKey(m.item.id, m.language.id))
+            ),
+            incrementalSource.importData.languageVariants,
+            (m) => this.getLanguageVariantKey(m.item.id, m.language.id)
+        );
+        source.importData.assets = this.mergeById(
+            source.importData.assets.filter((m) => !deletedAssetIds.has(m.id)),
+            incrementalSource.importData.assets,
+            (m) => m.id
+        );
+        source.binaryFiles = this.mergeById(
+            source.binaryFiles.filter((m) => !deletedAssetIds.has(m.asset.id)),
+            incrementalSource.binaryFiles,
+            (m) => m.asset.id
+        );
+
+        const incrementalAssetIds = new Set<string>(incrementalSource.importData.assets.map((m) => m.id));
+        const failedAssetDownloads = [
+            ...(source.metadata.failedAssetDownloads ?? []).filter(
+                (m) => !deletedAssetIds.has(m.assetId) && !incrementalAssetIds.has(m.assetId)
+            ),
+            ...(incrementalSource.metadata.failedAssetDownloads ?? [])
+        ];
+
+        source.metadata = {
+            ...incrementalSource.metadata,
+            incremental: undefined,
+            failedAssetDownloads: failedAssetDownloads.length ? failedAssetDownloads : undefined,
+            dataOverview: {
+                ...incrementalSource.metadata.dataOverview,
+                assetsCount: source.importData.assets.length,
+                contentItemsCount: source.importData.contentItems.length,
+                languageVariantsCount: source.importData.languageVariants.length
+            }
+        };
+    }
+
+    private mergeById<T>(items: T[], newItems: T[], getId: (item: T) => string): T[] {
+        const newItemIds = new Set<string>(newItems.map((m) => getId(m)));
+
+        return [...items.filter((m) => !newItemIds.has(getId(m))), ...newItems];
+    }
+
+    private getLanguageVariantKey(itemId: string | undefined, languageId: string | undefined): string {
+        return `${itemId}:${languageId}`;
     }
 
     private sleepAsync(ms: number): Promise<any> {
@@ -134,20 +813,28 @@ export class ZipService {
     }
 
     private async extractBinaryFilesAsync(
-        zip: JSZip,
-        assets: AssetContracts.IAssetModelContract[]
+        packageReader: IPackageReader,
+        assets: AssetContracts.IAssetModelContract[],
+        metadata: IPackageMetadata
     ): Promise<IBinaryFile[]> {
         const binaryFiles: IBinaryFile[] = [];
-
-        const files = zip.files;
+        const failedAssetIds = new Set<string>((metadata.failedAssetDownloads ?? []).map((m) => m.assetId));
 
         for (const asset of assets) {
-            const assetFile = files[this.getFullAssetPath(asset.id, asset.file_name)];
+            if (failedAssetIds.has(asset.id)) {
+                // binary file of this asset could not be downloaded during export
+                continue;
+            }
+
+            const assetPath = this.getFullAssetPath(asset.id, asset.file_name);
+
+            if (!packageReader.hasFile(assetPath)) {
+                throw Error(`Invalid file '${assetPath}'`);
+            }
 
-            const binaryData = await assetFile.async(this.getZipOutputType());
             binaryFiles.push({
                 asset,
-                binaryData
+                getBinaryDataAsync: async () => await packageReader.readBinaryFileAsync(assetPath)
             });
         }
 
@@ -174,20 +861,97 @@ export class ZipService {
         return `${this.filesName}/${assetId.substr(0, 3)}/${assetId}/${filename}`;
     }
 
-    private async readAndParseJsonFile(fileContents: any, filename: string): Promise<any> {
-        const files = fileContents.files;
-        const file = files[filename];
+    /**
+     * Reads all json files in root of package. Names of files differ between package format versions.
+     * Objects stored in directories of packages with 'directory' layout are read as if they were stored
+     * in a single json file.
+     */
+    private async readJsonFilesAsync(packageReader: IPackageReader): Promise<IPackageJsonFiles> {
+        const jsonFiles: IPackageJsonFiles = {};
+        const filenames = packageReader
+            .getFilePaths()
+            .filter((m) => !m.includes('/') && m.endsWith('.json') && m !== this.manifestName);
+
+        for (const filename of filenames) {
+            jsonFiles[filename] = await this.readAndParseJsonFile(packageReader, filename);
+        }
+
+        const metadata: IPackageMetadata | undefined = jsonFiles[this.metadataName];
+
+        if (metadata?.layout === 'directory') {
+            for (const filename of this.getDirectoryJsonFilenames()) {
+                jsonFiles[filename] = await this.readDirectoryJsonFilesAsync(packageReader, filename);
+            }
+        }
+
+        return jsonFiles;
+    }
+
+    private getJsonFile(jsonFiles: IPackageJsonFiles, filename: string): any {
+        const jsonFile = jsonFiles[filename];
 
-        if (!file) {
+        if (!jsonFile) {
             throw Error(`Invalid file '${filename}'`);
         }
 
-        const text = await file.async('text');
+        return jsonFile;
+    }
+
+    private async readAndParseJsonFile(packageReader: IPackageReader, filename: string): Promise<any> {
+        if (!packageReader.hasFile(filename)) {
+            throw Error(`Invalid file '${filename}'`);
+        }
+
+        const text = await packageReader.readTextFileAsync(filename);
 
         return JSON.parse(text);
     }
 
-    private async getBinaryDataFromUrlAsync(url: string, enableLog: boolean): Promise<any> {
+    /**
+     * Retries failed download with exponential backoff. Data are buffered by package writer as part of the download
+     * so that streams failing after response was received are retried as well.
+     */
+    private async downloadBinaryDataWithRetryAsync(
+        asset: AssetContracts.IAssetModelContract,
+        packageWriter: IPackageWriter
+    ): Promise<any> {
+        let attempt: number = 0;
+
+        while (true) {
+            try {
+                const binaryData = await this.getBinaryDataFromUrlAsync(
+                    asset.url,
+                    packageWriter.binaryDataResponseType,
+                    this.config.enableLog
+                );
+
+                return packageWriter.bufferBinaryDataAsync
+                    ? await packageWriter.bufferBinaryDataAsync(binaryData)
+                    : binaryData;
+            } catch (error) {
+                if (attempt >= this.assetDownloadRetryAttempts) {
+                    throw error;
+                }
+
+                const retryDelayMs: number = this.assetDownloadRetryDelayMs * Math.pow(2, attempt);
+                attempt++;
+
+                if (this.config.enableLog) {
+                    console.log(
+                        `Download of asset '${asset.file_name}' failed. Retrying in '${retryDelayMs}'ms (attempt '${attempt}' of '${this.assetDownloadRetryAttempts}')`
+                    );
+                }
+
+                await this.sleepAsync(retryDelayMs);
+            }
+        }
+    }
+
+    private async getBinaryDataFromUrlAsync(
+        url: string,
+        responseType: BinaryDataResponseType,
+        enableLog: boolean
+    ): Promise<any> {
         // temp fix for Kontent Repository not validating url
         url = url.replace('#', '%23');
 
@@ -201,7 +965,7 @@ export class ZipService {
                     url
                 },
                 {
-                    responseType: 'arraybuffer'
+                    responseType
                 }
             )
         ).data;
@@ -0,0 +1,123 @@
+import { strict as assert } from 'assert';
+
+import { cryptoHelper, encryptionHelper, ICryptoProvider, WebCryptoProvider } from '../../lib/core';
+import { nodeCryptoProvider } from '../../lib/node/crypto/node-crypto-provider';
+
+describe('EncryptionHelper', () => {
+    const data = new TextEncoder().encode('{"contentItems":[]}');
+    const key = new Uint8Array(32).fill(7);
+    const webCryptoProvider = new WebCryptoProvider();
+    const isWebCryptoAvailable: boolean = typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+
+    const useProvider = (provider: ICryptoProvider) => {
+        cryptoHelper.setProvider(provider);
+    };
+
+    afterEach(() => {
+        useProvider(nodeCryptoProvider);
+    });
+
+    it('decrypts data encrypted with passphrase', async () => {
+        const encryptedData = await encryptionHelper.encryptAsync(data, { passphrase: 'secret' });
+
+        assert.equal(encryptionHelper.isEncrypted(encryptedData), true);
+        assert.equal(encryptionHelper.isEncrypted(data), false);
+        assert.deepEqual(
+            new Uint8Array(await encryptionHelper.decryptAsync(encryptedData, { passphrase: 'secret' })),
+            data
+        );
+    });
+
+    it('decrypts data encrypted with key', async () => {
+        const encryptedData = await encryptionHelper.encryptAsync(data, { key });
+
+        assert.deepEqual(new Uint8Array(await encryptionHelper.decryptAsync(encryptedData, { key })), data);
+    });
+
+    it('uses new salt & initialization vector for each encryption', async () => {
+        const first = await encryptionHelper.encryptAsync(data, { key });
+        const second = await encryptionHelper.encryptAsync(data, { key });
+
+        assert.notDeepEqual(first, second);
+    });
+
+    it('fails to decrypt data with wrong passphrase or key', async () => {
+        const encryptedData = await encryptionHelper.encryptAsync(data, { passphrase: 'secret' });
+
+        await assert.rejects(
+            encryptionHelper.decryptAsync(encryptedData, { passphrase: 'wrong' }),
+            /File could not be decrypted/
+        );
+        await assert.rejects(
+            encryptionHelper.decryptAsync(await encryptionHelper.encryptAsync(data, { key }), {
+                key: new Uint8Array(32)
+            }),
+            /File could not be decrypted/
+        );
+    });
+
+    it('fails to decrypt tampered data', async () => {
+        const encryptedData = await encryptionHelper.encryptAsync(data, { key });
+
+        const index = encryptedData.length - 20;
+
+        encryptedData[index] = 255 - encryptedData[index];
+
+        await assert.rejects(encryptionHelper.decryptAsync(encryptedData, { key }), /File could not be decrypted/);
+    });
+
+    it('requires kind of secret the data were encrypted with', async () => {
+        await assert.rejects(
+            encryptionHelper.decryptAsync(await encryptionHelper.encryptAsync(data, { key }), { passphrase: 'x' }),
+            /Please provide encryption key/
+        );
+        await assert.rejects(
+            encryptionHelper.decryptAsync(await encryptionHelper.encryptAsync(data, { passphrase: 'x' }), { key }),
+            /Please provide passphrase/
+        );
+        await assert.rejects(
+            encryptionHelper.encryptAsync(data, { key: new Uint8Array(16) }),
+            /Key must have '32' Bytes/
+        );
+    });
+
+    it('decrypts data encrypted using Web Crypto API with node.js crypto provider and vice versa', async function () {
+        if (!isWebCryptoAvailable) {
+            this.skip();
+        }
+
+        for (const [encryptionProvider, decryptionProvider] of [
+            [webCryptoProvider, nodeCryptoProvider],
+            [nodeCryptoProvider, webCryptoProvider]
+        ]) {
+            useProvider(encryptionProvider);
+            const encryptedData = await encryptionHelper.encryptAsync(data, { passphrase: 'secret' });
+
+            useProvider(decryptionProvider);
+            assert.deepEqual(
+                new Uint8Array(await encryptionHelper.decryptAsync(encryptedData, { passphrase: 'secret' })),
+                data
+            );
+            await assert.rejects(
+                encryptionHelper.decryptAsync(encryptedData, { passphrase: 'wrong' }),
+                /File could not be decrypted/
+            );
+        }
+    });
+
+    it('fails for unknown key derivation function', async () => {
+        const encryptedData = await encryptionHelper.encryptAsync(data, { key });
+        const headerLength = encryptionHelper.getHeaderLength(encryptedData);
+        const header = new TextDecoder()
+            .decode(encryptedData.subarray(encryptionHelper.headerPrefixLength, headerLength))
+            .replace('"none"', '"nope"');
+        const modifiedData = new Uint8Array(encryptedData);
+
+        modifiedData.set(new TextEncoder().encode(header), encryptionHelper.headerPrefixLength);
+
+        await assert.rejects(
+            encryptionHelper.decryptAsync(modifiedData, { key }),
+            /Unsupported key derivation function 'nope'/
+        );
+    });
+});
@@ -0,0 +1,57 @@
+import { strict as assert } from 'assert';
+
+import { packageMigrationHelper } from '../../lib/core';
+
+describe('PackageMigrationHelper', () => {
+    it('migrates package created before format version was introduced', () => {
+        const jsonFiles = packageMigrationHelper.migrate(
+            {
+                'metadata.json': { version: '1.0.0', projectId: 'p', timestamp: new Date(2020, 0, 1) },
+                'contentTypes.json': [{ codename: 'article' }],
+                'contentTypesSnippets.json': [{ codename: 'seo' }],
+                'contentItems.json': [],
+                'taxonomies.json': [],
+                'assets.json': [],
+                'languageVariants.json': []
+            },
+            false
+        );
+
+        assert.equal(jsonFiles['contentTypesSnippets.json'], undefined);
+        assert.deepEqual(jsonFiles['contentTypeSnippets.json'], [{ codename: 'seo' }]);
+
+        for (const filename of ['languages.json', 'assetFolders.json', 'workflowSteps.json', 'webhooks.json']) {
+            assert.deepEqual(jsonFiles[filename], []);
+        }
+        assert.deepEqual(jsonFiles['collections.json'], []);
+
+        const metadata = jsonFiles['metadata.json'];
+
+        assert.equal(metadata.formatVersion, packageMigrationHelper.currentFormatVersion);
+        assert.equal(metadata.isInconsistentExport, false);
+        assert.equal(metadata.dataOverview.contentTypesCount, 1);
+        assert.equal(metadata.dataOverview.contentTypeSnippetsCount, 1);
+        assert.equal(metadata.dataOverview.webhooksCount, 0);
+        assert.equal(metadata.dataOverview.collectionsCount, 0);
+    });
+
+    it('keeps files of package in current format version', () => {
+        const jsonFiles = {
+            'metadata.json': { formatVersion: packageMigrationHelper.currentFormatVersion },
+            'collections.json': [{ codename: 'default' }]
+        };
+
+        assert.deepEqual(packageMigrationHelper.migrate(jsonFiles, false), jsonFiles);
+    });
+
+    it('fails for packages created by newer version', () => {
+        assert.throws(
+            () => packageMigrationHelper.migrate({ 'metadata.json': { formatVersion: 100 } }, false),
+            /Please use newer version of this library/
+        );
+    });
+
+    it('fails for packages without metadata', () => {
+        assert.throws(() => packageMigrationHelper.migrate({}, false), /Invalid file 'metadata.json'/);
+    });
+});
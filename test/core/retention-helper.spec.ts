@@ -0,0 +1,86 @@
+import { strict as assert } from 'assert';
+
+import { IRetentionPackage, IRetentionResult, retentionHelper } from '../../lib/core';
+
+const getFilenames = (result: IRetentionResult) => ({
+    keep: result.keep.map((m) => m.filename),
+    delete: result.delete.map((m) => m.filename)
+});
+
+describe('RetentionHelper', () => {
+    const packages: IRetentionPackage[] = [
+        { filename: 'monday-morning', timestamp: new Date(2021, 5, 14, 8) },
+        { filename: 'monday-evening', timestamp: new Date(2021, 5, 14, 20) },
+        { filename: 'tuesday', timestamp: new Date(2021, 5, 15, 8) },
+        { filename: 'previous-sunday', timestamp: new Date(2021, 5, 13, 8) },
+        { filename: 'previous-month', timestamp: new Date(2021, 4, 20, 8) }
+    ];
+
+    it('has rules only when any count is set', () => {
+        assert.equal(retentionHelper.hasRules({}), false);
+        assert.equal(retentionHelper.hasRules({ keepLast: 0 }), false);
+        assert.equal(retentionHelper.hasRules({ keepWeekly: 1 }), true);
+    });
+
+    it('keeps the most recent packages', () => {
+        assert.deepEqual(getFilenames(retentionHelper.apply(packages, { keepLast: 2 })), {
+            keep: ['tuesday', 'monday-evening'],
+            delete: ['monday-morning', 'previous-sunday', 'previous-month']
+        });
+    });
+
+    it('keeps the latest package of each day, week & month', () => {
+        assert.deepEqual(getFilenames(retentionHelper.apply(packages, { keepDaily: 2 })).keep, [
+            'tuesday',
+            'monday-evening'
+        ]);
+        // ISO weeks start on Monday
+        assert.deepEqual(getFilenames(retentionHelper.apply(packages, { keepWeekly: 2 })).keep, [
+            'tuesday',
+            'previous-sunday'
+        ]);
+        assert.deepEqual(getFilenames(retentionHelper.apply(packages, { keepMonthly: 5 })).keep, [
+            'tuesday',
+            'previous-month'
+        ]);
+    });
+
+    it('counts only periods which contain a package', () => {
+        const oldPackages: IRetentionPackage[] = [
+            { filename: 'january', timestamp: new Date(2020, 0, 1) },
+            { filename: 'march', timestamp: new Date(2020, 2, 1) }
+        ];
+
+        assert.deepEqual(getFilenames(retentionHelper.apply(oldPackages, { keepDaily: 2 })).delete, []);
+    });
+
+    it('always keeps packages with given filenames', () => {
+        assert.deepEqual(getFilenames(retentionHelper.apply(packages, { keepLast: 1 }, ['previous-month'])).keep, [
+            'tuesday',
+            'previous-month'
+        ]);
+    });
+
+    it('keeps parents of kept incremental packages', () => {
+        const incrementalPackages: IRetentionPackage[] = [
+            { filename: 'full', timestamp: new Date(2021, 5, 1) },
+            {
+                filename: 'incremental-1',
+                timestamp: new Date(2021, 5, 2),
+                parent: { projectId: 'p', timestamp: new Date(2021, 5, 1), filename: 'full' }
+            },
+            {
+                // parent was renamed, so it is found by timestamp
+                filename: 'incremental-2',
+                timestamp: new Date(2021, 5, 3),
+                parent: { projectId: 'p', timestamp: new Date(2021, 5, 2), filename: 'renamed' }
+            },
+            { filename: 'unrelated', timestamp: new Date(2021, 4, 1) }
+        ];
+
+        assert.deepEqual(getFilenames(retentionHelper.apply(incrementalPackages, { keepLast: 1 })), {
+            keep: ['incremental-2', 'incremental-1', 'full'],
+            delete: ['unrelated']
+        });
+    });
+});
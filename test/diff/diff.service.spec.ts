@@ -0,0 +1,101 @@
+import { strict as assert } from 'assert';
+
+import { DiffService } from '../../lib/diff';
+import { createContentItem, createExportData, createLanguage, createLanguageVariant } from '../helpers/export-data';
+
+describe('DiffService', () => {
+    const diffService = new DiffService({ enableLog: false });
+
+    it('reports no changes for identical data', async () => {
+        const result = await diffService.compareAsync(
+            { name: 'source', data: createExportData() },
+            { name: 'target', data: createExportData() }
+        );
+
+        assert.deepEqual(result.items, []);
+        assert.deepEqual(result.summary, []);
+    });
+
+    it('compares objects of different projects by codenames', async () => {
+        // ids of objects differ between backup & project created by restore (e.g. when checking drift)
+        const target = createExportData({
+            contentItems: [createContentItem({ id: 'other-item', codename: 'home' })],
+            languages: [createLanguage({ id: 'other-language', codename: 'default' })],
+            languageVariants: [
+                createLanguageVariant({ item: { id: 'other-item' }, language: { id: 'other-language' } })
+            ]
+        });
+
+        const result = await diffService.compareAsync(
+            { name: 'source', data: createExportData() },
+            { name: 'target', data: target }
+        );
+
+        assert.deepEqual(result.items, []);
+    });
+
+    it('reports added, removed & changed objects', async () => {
+        const source = createExportData();
+        const target = createExportData({
+            contentItems: [
+                createContentItem({ id: 'item-home', codename: 'home', name: 'Homepage' }),
+                createContentItem({ id: 'item-about', codename: 'about' })
+            ],
+            languageVariants: [
+                createLanguageVariant({
+                    workflow_step: { id: 'ws-published' },
+                    elements: [{ element: { id: 'element-title' }, value: 'Hello' }]
+                })
+            ],
+            assets: []
+        });
+
+        const result = await diffService.compareAsync(
+            { name: 'source', data: source },
+            { name: 'target', data: target }
+        );
+
+        assert.deepEqual(
+            result.items.map((m) => [m.type, m.key, m.change, m.properties.map((p) => `${p.property}:${p.change}`)]),
+            [
+                ['contentItem', 'home', 'changed', ['name:changed']],
+                ['contentItem', 'about', 'added', []],
+                [
+                    'languageVariant',
+                    'home:default',
+                    'changed',
+                    ['workflow_step:changed', 'lifecycle:changed', 'elements.title:changed']
+                ],
+                ['asset', 'asset-logo', 'removed', []]
+            ]
+        );
+        assert.deepEqual(result.summary, [
+            { type: 'contentItem', added: 1, removed: 0, changed: 1 },
+            { type: 'languageVariant', added: 0, removed: 0, changed: 1 },
+            { type: 'asset', added: 0, removed: 1, changed: 0 }
+        ]);
+    });
+
+    it('compares binary files of assets by hash when binary files are provided', async () => {
+        const data = createExportData();
+        const getBinaryFile = (content: string) => ({
+            asset: data.assets[0],
+            getBinaryDataAsync: async () => Buffer.from(content)
+        });
+
+        const result = await diffService.compareAsync(
+            { name: 'source', data, binaryFiles: [getBinaryFile('logo')] },
+            { name: 'target', data, binaryFiles: [getBinaryFile('LOGO')] }
+        );
+
+        assert.deepEqual(result.items, [
+            {
+                type: 'asset',
+                key: 'asset-logo',
+                title: 'logo.png',
+                change: 'changed',
+                properties: [{ property: 'binaryFile', change: 'changed' }]
+            }
+        ]);
+    });
+});
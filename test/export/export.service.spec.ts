@@ -0,0 +1,31 @@
+import { strict as assert } from 'assert';
+
+import { ExportService, IIncrementalExportBase } from '../../lib/export';
+import { createExportAllResult } from '../helpers/export-data';
+
+describe('ExportService', () => {
+    describe('incremental export', () => {
+        // deterministic packages do not store time of export
+        const createBase = (timestamp?: Date): IIncrementalExportBase => {
+            const base = createExportAllResult();
+
+            return {
+                filename: 'base',
+                metadata: { ...base.metadata, timestamp: timestamp as Date },
+                contentItems: base.data.contentItems,
+                languageVariants: base.data.languageVariants,
+                assets: base.data.assets
+            };
+        };
+
+        it('fails before any data are fetched when time of export of base package is unknown', async () => {
+            const exportService = new ExportService({
+                apiKey: 'key',
+                projectId: 'project',
+                incrementalBase: createBase()
+            });
+
+            await assert.rejects(exportService.exportAllAsync(), /Time of export of base package is unknown/);
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import { strict as assert } from 'assert';
+
+import { IIncrementalExportBase, incrementalExportHelper } from '../../lib/export';
+import { createContentItem, createExportAllResult, createExportData } from '../helpers/export-data';
+
+describe('IncrementalExportHelper', () => {
+    const exportedTypes = { contentItems: true, languageVariants: true, assets: true };
+    const createBase = (timestamp?: Date | string): IIncrementalExportBase => {
+        const base = createExportAllResult();
+
+        return {
+            filename: 'base',
+            metadata: { ...base.metadata, timestamp: timestamp as Date },
+            contentItems: base.data.contentItems,
+            languageVariants: base.data.languageVariants,
+            assets: base.data.assets
+        };
+    };
+    const applyIncrementalBase = (base: IIncrementalExportBase) => {
+        const data = createExportData({
+            contentItems: [
+                createContentItem({ id: 'item-home', codename: 'home', last_modified: new Date(2021, 0, 1) }),
+                createContentItem({ id: 'item-about', codename: 'about', last_modified: new Date(2021, 0, 3) })
+            ]
+        });
+        const incremental = incrementalExportHelper.applyIncrementalBase(data, base, exportedTypes);
+
+        return { data, incremental };
+    };
+
+    it('keeps only objects changed since base package was created', () => {
+        const { data, incremental } = applyIncrementalBase(createBase(new Date(2021, 0, 2)));
+
+        assert.deepEqual(
+            data.contentItems.map((m) => m.id),
+            ['item-about']
+        );
+        assert.deepEqual(incremental.parent, {
+            projectId: 'project',
+            timestamp: new Date(2021, 0, 2),
+            filename: 'base'
+        });
+    });
+
+    it('fails when time of export of base package is unknown', () => {
+        assert.throws(() => applyIncrementalBase(createBase()), /Time of export of base package is unknown/);
+        assert.throws(() => applyIncrementalBase(createBase('yesterday')), /Invalid time of export 'yesterday'/);
+    });
+});
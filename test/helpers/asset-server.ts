@@ -0,0 +1,27 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface IAssetServer {
+    getUrl(filename: string): string;
+    closeAsync(): Promise<void>;
+}
+
+/**
+ * Serves binary files of assets on local port so that assets are downloaded over HTTP as from Kontent.
+ * Given handler writes response for each request.
+ */
+export const startAssetServerAsync = async (
+    handleRequest: (request: IncomingMessage, response: ServerResponse) => void
+): Promise<IAssetServer> => {
+    const server: Server = createServer(handleRequest);
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+
+    const port: number = (server.address() as AddressInfo).port;
+
+    return {
+        getUrl: (filename) => `http://127.0.0.1:${port}/${filename}`,
+        closeAsync: () =>
+            new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+    };
+};
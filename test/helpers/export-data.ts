@@ -0,0 +1,177 @@
+import {
+    AssetContracts,
+    ContentItemContracts,
+    ContentTypeContracts,
+    ContentTypeSnippetContracts,
+    ElementContracts,
+    LanguageContracts,
+    SharedContracts
+} from '@kentico/kontent-management';
+
+import { ILanguageVariantWithLifecycleContract } from '../../lib/core';
+import { IExportAllResult, IExportData } from '../../lib/export';
+
+const lastModified: string = '2021-01-01T00:00:00.000Z';
+
+/**
+ * Element of content type or snippet limiting content types of linked items. Such elements are not described
+ * by Management API contracts.
+ */
+interface ILinkedItemsElementContract extends ElementContracts.IContentTypeElementContract {
+    allowed_content_types: SharedContracts.IReferenceObjectContract[];
+}
+
+interface ISnippetElementContract extends ElementContracts.IContentTypeElementContract {
+    snippet: SharedContracts.IReferenceObjectContract;
+}
+
+export const createTextElement = (id: string, codename: string): ElementContracts.IContentTypeElementContract => {
+    return { id, codename, name: codename, type: 'text' };
+};
+
+export const createLinkedItemsElement = (
+    id: string,
+    codename: string,
+    allowedContentTypes: SharedContracts.IReferenceObjectContract[]
+): ElementContracts.IContentTypeElementContract => {
+    const element: ILinkedItemsElementContract = {
+        id,
+        codename,
+        name: codename,
+        type: 'modular_content',
+        allowed_content_types: allowedContentTypes
+    };
+
+    return element;
+};
+
+export const createSnippetElement = (id: string, snippetId: string): ElementContracts.IContentTypeElementContract => {
+    const element: ISnippetElementContract = { id, name: '', type: 'snippet', snippet: { id: snippetId } };
+
+    return element;
+};
+
+export const createContentType = (
+    data: Pick<ContentTypeContracts.IContentTypeContract, 'id' | 'codename'> &
+        Partial<ContentTypeContracts.IContentTypeContract>
+): ContentTypeContracts.IContentTypeContract => {
+    return { name: data.codename, last_modified: lastModified, elements: [], ...data };
+};
+
+export const createContentTypeSnippet = (
+    data: Pick<ContentTypeSnippetContracts.IContentTypeSnippetContract, 'id' | 'codename'> &
+        Partial<ContentTypeSnippetContracts.IContentTypeSnippetContract>
+): ContentTypeSnippetContracts.IContentTypeSnippetContract => {
+    return { name: data.codename, last_modified: lastModified, elements: [], ...data };
+};
+
+export const createContentItem = (
+    data: Pick<ContentItemContracts.IContentItemModelContract, 'id' | 'codename'> &
+        Partial<ContentItemContracts.IContentItemModelContract>
+): ContentItemContracts.IContentItemModelContract => {
+    return {
+        name: data.codename,
+        type: { id: 'type-article' },
+        collection: { id: 'collection-default' },
+        last_modified: new Date(lastModified),
+        ...data
+    };
+};
+
+/**
+ * Creates variant of 'home' content item in default language with title 'Welcome'
+ */
+export const createLanguageVariant = (
+    data?: Partial<ILanguageVariantWithLifecycleContract>
+): ILanguageVariantWithLifecycleContract => {
+    return {
+        item: { id: 'item-home' },
+        language: { id: 'language-default' },
+        workflow_step: { id: 'ws-draft' },
+        elements: [{ element: { id: 'element-title' }, value: 'Welcome' }],
+        last_modified: lastModified,
+        ...data
+    };
+};
+
+export const createLanguage = (
+    data: Pick<LanguageContracts.ILanguageModelContract, 'id' | 'codename'> &
+        Partial<LanguageContracts.ILanguageModelContract>
+): LanguageContracts.ILanguageModelContract => {
+    return { name: data.codename, is_active: true, is_default: true, ...data };
+};
+
+export const createAsset = (
+    data: Pick<AssetContracts.IAssetModelContract, 'id' | 'file_name'> & Partial<AssetContracts.IAssetModelContract>
+): AssetContracts.IAssetModelContract => {
+    return {
+        title: data.file_name,
+        image_width: null,
+        image_height: null,
+        size: 4,
+        type: 'image/png',
+        file_reference: { id: `file-${data.id}`, type: 'internal' },
+        descriptions: [],
+        external_id: '',
+        last_modified: lastModified,
+        url: `https://assets/${data.file_name}`,
+        ...data
+    };
+};
+
+/**
+ * Creates small project with one content type, content item, language variant & asset
+ */
+export const createExportData = (data?: Partial<IExportData>): IExportData => {
+    return {
+        workflowSteps: [
+            { id: 'ws-draft', name: 'Draft', codename: 'draft', transitions_to: [] },
+            { id: 'ws-published', name: 'Published', codename: 'published', transitions_to: [] }
+        ],
+        taxonomies: [],
+        contentTypeSnippets: [],
+        contentTypes: [
+            createContentType({
+                id: 'type-article',
+                codename: 'article',
+                elements: [createTextElement('element-title', 'title')]
+            })
+        ],
+        contentItems: [createContentItem({ id: 'item-home', codename: 'home' })],
+        languageVariants: [createLanguageVariant()],
+        languages: [createLanguage({ id: 'language-default', codename: 'default' })],
+        assets: [createAsset({ id: 'asset-logo', file_name: 'logo.png' })],
+        assetFolders: [],
+        webhooks: [],
+        collections: [],
+        ...data
+    };
+};
+
+export const createExportAllResult = (data?: Partial<IExportData>, timestamp: Date = new Date()): IExportAllResult => {
+    const exportData = createExportData(data);
+
+    return {
+        metadata: {
+            version: '1.0.0',
+            projectId: 'project',
+            timestamp,
+            isInconsistentExport: false,
+            dataOverview: {
+                taxonomiesCount: exportData.taxonomies.length,
+                contentTypeSnippetsCount: exportData.contentTypeSnippets.length,
+                contentTypesCount: exportData.contentTypes.length,
+                contentItemsCount: exportData.contentItems.length,
+                languageVariantsCount: exportData.languageVariants.length,
+                languagesCount: exportData.languages.length,
+                assetsCount: exportData.assets.length,
+                assetFoldersCount: exportData.assetFolders.length,
+                workflowStepsCount: exportData.workflowSteps.length,
+                webhooksCount: exportData.webhooks.length,
+                collectionsCount: exportData.collections.length
+            }
+        },
+        data: exportData,
+        validation: { project: { id: 'project', name: 'Project' }, variant_issues: [], type_issues: [] }
+    };
+};
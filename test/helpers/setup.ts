@@ -0,0 +1,5 @@
+import { cryptoHelper } from '../../lib/core';
+import { nodeCryptoProvider } from '../../lib/node/crypto/node-crypto-provider';
+
+// as in CLI, so that tests run in versions of node.js without global Web Crypto API
+cryptoHelper.setProvider(nodeCryptoProvider);
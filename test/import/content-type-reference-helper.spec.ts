@@ -0,0 +1,66 @@
+import { strict as assert } from 'assert';
+
+import { contentTypeReferenceHelper } from '../../lib/import';
+import { createContentType, createLinkedItemsElement } from '../helpers/export-data';
+
+describe('ContentTypeReferenceHelper', () => {
+    const originalWarn = console.warn;
+    const article = createContentType({
+        id: 'type-article',
+        codename: 'article',
+        elements: [
+            createLinkedItemsElement('element-author', 'author', [
+                { external_id: 'type-author' },
+                { external_id: 'type-excluded' }
+            ]),
+            createLinkedItemsElement('element-related', 'related', [{ external_id: 'type-article' }])
+        ]
+    });
+    const existingContentTypes = [
+        createContentType({
+            id: 'target-article',
+            codename: 'article',
+            external_id: 'type-article',
+            elements: [
+                createLinkedItemsElement('target-author', 'author', []),
+                createLinkedItemsElement('target-related', 'related', [{ id: 'target-news' }])
+            ]
+        }),
+        createContentType({ id: 'target-author-type', codename: 'author', external_id: 'type-author' })
+    ];
+
+    beforeEach(() => {
+        console.warn = () => {};
+    });
+
+    afterEach(() => {
+        console.warn = originalWarn;
+    });
+
+    it('creates elements without allowed content types', () => {
+        assert.deepEqual(
+            article.elements
+                .map((m) => contentTypeReferenceHelper.getElementWithoutContentTypeReferences(m))
+                .map((m) => contentTypeReferenceHelper.hasContentTypeReferences(m)),
+            [false, false]
+        );
+    });
+
+    it('sets allowed content types of elements once content types are imported', () => {
+        assert.deepEqual(
+            contentTypeReferenceHelper.getContentTypeReferenceOperations(
+                article,
+                existingContentTypes[0],
+                existingContentTypes,
+                [{ originalId: 'type-author', importId: 'target-author-type' }]
+            ),
+            [
+                {
+                    op: 'replace',
+                    path: '/elements/id:target-author/allowed_content_types',
+                    value: [{ id: 'target-author-type' }]
+                }
+            ]
+        );
+    });
+});
@@ -0,0 +1,140 @@
+import { strict as assert } from 'assert';
+
+import { importDependencyHelper, IImportSource } from '../../lib/import';
+import {
+    createContentItem,
+    createContentType,
+    createContentTypeSnippet,
+    createExportAllResult,
+    createLanguageVariant,
+    createLinkedItemsElement,
+    createSnippetElement
+} from '../helpers/export-data';
+
+describe('ImportDependencyHelper', () => {
+    const createImportSource = (): IImportSource => {
+        const { metadata, data, validation } = createExportAllResult({
+            contentTypeSnippets: [
+                createContentTypeSnippet({
+                    id: 'snippet-seo',
+                    codename: 'seo',
+                    elements: [createLinkedItemsElement('element-related', 'seo__related', [{ id: 'type-article' }])]
+                })
+            ],
+            contentTypes: [
+                createContentType({
+                    id: 'type-article',
+                    codename: 'article',
+                    elements: [
+                        createLinkedItemsElement('element-author', 'author', [{ id: 'type-author' }]),
+                        createSnippetElement('element-seo', 'snippet-seo')
+                    ]
+                }),
+                createContentType({
+                    id: 'type-author',
+                    codename: 'author',
+                    elements: [createLinkedItemsElement('element-articles', 'articles', [{ id: 'type-article' }])]
+                })
+            ],
+            contentItems: [
+                createContentItem({ id: 'item-home', codename: 'home' }),
+                createContentItem({ id: 'item-about', codename: 'about' })
+            ],
+            // content items link each other in rich text
+            languageVariants: [
+                createLanguageVariant({
+                    item: { id: 'item-home' },
+                    elements: [{ element: { id: 'element-body' }, value: '<p><a data-item-id="item-about"></a></p>' }]
+                }),
+                createLanguageVariant({
+                    item: { id: 'item-about' },
+                    elements: [{ element: { id: 'element-body' }, value: '<p><a data-item-id="item-home"></a></p>' }]
+                })
+            ],
+            assets: []
+        });
+
+        return { importData: data, metadata, validation, assetFolders: [], binaryFiles: [] };
+    };
+
+    it('orders content types after snippets they contain', () => {
+        const preparedItems = importDependencyHelper.getPreparedImportItems(createImportSource());
+
+        assert.deepEqual(
+            importDependencyHelper.getOrderedImportItems(preparedItems).map((m) => `${m.type}:${m.codename}`),
+            [
+                'contentTypeSnippet:seo',
+                'contentType:author',
+                'contentType:article',
+                'contentItem:home',
+                'contentItem:about',
+                'languageVariant:home:default',
+                'languageVariant:about:default'
+            ]
+        );
+    });
+
+    it('includes objects referencing each other in a cycle in selection', () => {
+        const preparedItems = importDependencyHelper.getPreparedImportItems(createImportSource());
+
+        assert.deepEqual([...importDependencyHelper.getDependencyClosure(preparedItems, ['contentItem:home'])].sort(), [
+            'contentItem:about',
+            'contentItem:home',
+            'contentType:article',
+            'contentTypeSnippet:seo',
+            'languageVariant:about:default',
+            'languageVariant:home:default'
+        ]);
+    });
+
+    describe('objects of the same type', () => {
+        const createSnippetsSource = (dependencies: [string, string][]): IImportSource => {
+            const { metadata, data, validation } = createExportAllResult({
+                contentTypeSnippets: ['a', 'b', 'c'].map((codename) =>
+                    createContentTypeSnippet({
+                        id: `snippet-${codename}`,
+                        codename,
+                        elements: dependencies
+                            .filter((m) => m[0] === codename)
+                            .map((m) => createSnippetElement(`element-${m[0]}-${m[1]}`, `snippet-${m[1]}`))
+                    })
+                ),
+                contentTypes: [],
+                contentItems: [],
+                languageVariants: [],
+                assets: []
+            });
+
+            return { importData: data, metadata, validation, assetFolders: [], binaryFiles: [] };
+        };
+
+        it('orders objects after objects they depend on', () => {
+            const preparedItems = importDependencyHelper.getPreparedImportItems(
+                createSnippetsSource([
+                    ['a', 'b'],
+                    ['b', 'c']
+                ])
+            );
+
+            assert.deepEqual(
+                importDependencyHelper.getOrderedImportItems(preparedItems).map((m) => m.codename),
+                ['c', 'b', 'a']
+            );
+        });
+
+        it('fails when objects depend on each other in a cycle', () => {
+            const preparedItems = importDependencyHelper.getPreparedImportItems(
+                createSnippetsSource([
+                    ['a', 'b'],
+                    ['b', 'c'],
+                    ['c', 'b']
+                ])
+            );
+
+            assert.throws(
+                () => importDependencyHelper.getOrderedImportItems(preparedItems),
+                /in a cycle .*: contentTypeSnippet:b -> contentTypeSnippet:c -> contentTypeSnippet:b$/
+            );
+        });
+    });
+});
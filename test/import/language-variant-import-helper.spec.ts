@@ -0,0 +1,106 @@
+import { strict as assert } from 'assert';
+
+import { workflowStepHelper } from '../../lib/core';
+import { languageVariantImportHelper } from '../../lib/import';
+import { createExportData, createLanguageVariant } from '../helpers/export-data';
+
+describe('LanguageVariantImportHelper', () => {
+    const { workflowSteps } = createExportData();
+    const languageVariant = createLanguageVariant();
+
+    describe('isLanguageVariantChanged', () => {
+        const existingLanguageVariant = createLanguageVariant({
+            // properties of elements are returned in different order
+            elements: [{ value: 'Welcome', element: { id: 'element-title' } }]
+        });
+
+        it('does not update language variant with same elements in the same workflow step', () => {
+            assert.equal(
+                languageVariantImportHelper.isLanguageVariantChanged(
+                    languageVariant,
+                    existingLanguageVariant,
+                    'ws-draft'
+                ),
+                false
+            );
+        });
+
+        it('updates language variant with different elements or workflow step', () => {
+            const changedLanguageVariant = createLanguageVariant({
+                elements: [{ element: { id: 'element-title' }, value: 'Hello' }]
+            });
+
+            assert.equal(
+                languageVariantImportHelper.isLanguageVariantChanged(
+                    changedLanguageVariant,
+                    existingLanguageVariant,
+                    'ws-draft'
+                ),
+                true
+            );
+            assert.equal(
+                languageVariantImportHelper.isLanguageVariantChanged(
+                    languageVariant,
+                    existingLanguageVariant,
+                    'ws-published'
+                ),
+                true
+            );
+            assert.equal(
+                languageVariantImportHelper.isLanguageVariantChanged(
+                    languageVariant,
+                    existingLanguageVariant,
+                    undefined
+                ),
+                true
+            );
+        });
+    });
+
+    describe('getTargetWorkflowStepId', () => {
+        const workflowStepsMapping = workflowStepHelper.getWorkflowStepsMapping(workflowSteps, [
+            { id: 'target-draft', name: 'Draft', codename: 'draft', transitions_to: [] }
+        ]);
+
+        it('gets workflow step language variant is moved to in target project', () => {
+            assert.equal(
+                languageVariantImportHelper.getTargetWorkflowStepId(
+                    languageVariant,
+                    workflowSteps,
+                    workflowStepsMapping
+                ),
+                'target-draft'
+            );
+            assert.equal(
+                languageVariantImportHelper.getTargetWorkflowStepId(
+                    createLanguageVariant({ workflow_step: { id: 'ws-published' } }),
+                    workflowSteps,
+                    workflowStepsMapping
+                ),
+                undefined
+            );
+            assert.equal(
+                languageVariantImportHelper.getTargetWorkflowStepId(
+                    createLanguageVariant({
+                        lifecycle: { state: 'scheduledPublish', publishTime: '2030-01-01T00:00:00Z' }
+                    }),
+                    workflowSteps,
+                    workflowStepsMapping
+                ),
+                undefined
+            );
+        });
+
+        it('gets workflow step given in import config', () => {
+            assert.equal(
+                languageVariantImportHelper.getTargetWorkflowStepId(
+                    languageVariant,
+                    workflowSteps,
+                    workflowStepsMapping,
+                    'target-review'
+                ),
+                'target-review'
+            );
+        });
+    });
+});
@@ -0,0 +1,91 @@
+import { strict as assert } from 'assert';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { DirectoryPackageWriter } from '../../../lib/node/directory/directory-package-writer';
+import { ZipService } from '../../../lib/zip';
+import { startAssetServerAsync } from '../../helpers/asset-server';
+import { createAsset, createExportAllResult } from '../../helpers/export-data';
+
+describe('DirectoryPackageWriter', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = join(await promises.mkdtemp(join(tmpdir(), 'kbm-package-')), 'backup');
+    });
+
+    afterEach(async () => {
+        await promises.rm(join(directory, '..'), { recursive: true, force: true });
+    });
+
+    it('retries download of binary file failing in the middle of the stream', async () => {
+        const zipService = new ZipService({
+            enableLog: false,
+            context: 'node.js',
+            delayBetweenAssetDownloadRequestsMs: 0,
+            assetDownloadRetryDelayMs: 0
+        });
+        let attempt: number = 0;
+        const assetServer = await startAssetServerAsync((request, response) => {
+            attempt++;
+            response.writeHead(200, { 'Content-Length': 4 });
+            response.write('lo');
+
+            if (attempt === 1) {
+                // connection is reset in the middle of the stream
+                setTimeout(() => response.destroy(), 10);
+                return;
+            }
+
+            response.end('go');
+        });
+        const packageWriter = await DirectoryPackageWriter.openAsync(directory);
+
+        try {
+            await zipService.writePackageAsync(
+                createExportAllResult({
+                    assets: [
+                        createAsset({ id: 'asset-logo', file_name: 'logo.png', url: assetServer.getUrl('logo.png') })
+                    ]
+                }),
+                packageWriter
+            );
+            await packageWriter.closeAsync();
+        } finally {
+            await assetServer.closeAsync();
+        }
+
+        assert.equal(attempt, 2);
+        assert.equal(
+            (await promises.readFile(join(directory, 'files', 'ass', 'asset-logo', 'logo.png'))).toString(),
+            'logo'
+        );
+        assert.equal(
+            JSON.parse((await promises.readFile(join(directory, 'metadata.json'))).toString()).failedAssetDownloads,
+            undefined
+        );
+    });
+
+    it('removes partially written package when aborted', async () => {
+        const packageWriter = await DirectoryPackageWriter.openAsync(directory);
+
+        await packageWriter.addFileAsync('metadata.json', '{}', { binary: false });
+        await packageWriter.addFileAsync('items/home.json', '{}', { binary: false });
+        await packageWriter.abortAsync();
+
+        assert.deepEqual(await promises.readdir(join(directory, '..')), []);
+        await assert.rejects(packageWriter.addFileAsync('manifest.json', '{}', { binary: false }), /was aborted/);
+    });
+
+    it('keeps hidden files of directory when aborted', async () => {
+        await promises.mkdir(join(directory, '.git'), { recursive: true });
+
+        const packageWriter = await DirectoryPackageWriter.openAsync(directory);
+
+        await packageWriter.addFileAsync('metadata.json', '{}', { binary: false });
+        await packageWriter.abortAsync();
+
+        assert.deepEqual(await promises.readdir(directory), ['.git']);
+    });
+});
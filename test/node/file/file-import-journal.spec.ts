@@ -0,0 +1,42 @@
+import { strict as assert } from 'assert';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FileImportJournal } from '../../../lib/node/file/file-import-journal';
+
+describe('FileImportJournal', () => {
+    const originalWarn = console.warn;
+    let directory: string;
+
+    beforeEach(async () => {
+        console.warn = () => {};
+        directory = await promises.mkdtemp(join(tmpdir(), 'kbm-journal-'));
+    });
+
+    afterEach(async () => {
+        console.warn = originalWarn;
+        await promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('stores entries in file given by absolute path', async () => {
+        const filePath = join(directory, 'backup_journal.jsonl');
+        const journal = new FileImportJournal({ filename: filePath });
+
+        assert.deepEqual(await journal.loadAsync(), []);
+
+        await journal.appendAsync({ kind: 'step', step: 'languages' });
+        await journal.appendAsync({ kind: 'step', step: 'assets' });
+        // entry written when the process was terminated
+        await promises.appendFile(filePath, '{"kind":"st');
+
+        assert.deepEqual(await new FileImportJournal({ filename: filePath }).loadAsync(), [
+            { kind: 'step', step: 'languages' },
+            { kind: 'step', step: 'assets' }
+        ]);
+
+        await journal.clearAsync();
+
+        assert.deepEqual(await journal.loadAsync(), []);
+    });
+});
@@ -0,0 +1,76 @@
+import { strict as assert } from 'assert';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FileRetentionService } from '../../../lib/node/file/file-retention.service';
+import { FileService } from '../../../lib/node/file/file.service';
+import { LocalDirectoryStorageProvider } from '../../../lib/node/storage/local-directory-storage-provider';
+import { ZipService } from '../../../lib/zip';
+
+describe('FileRetentionService', () => {
+    const originalLog = console.log;
+    let directory: string;
+
+    const savePackageMetadataAsync = async (name: string, projectId: string, day: number) => {
+        await promises.writeFile(
+            join(directory, `${name}_metadata.json`),
+            JSON.stringify({ projectId, timestamp: new Date(2021, 0, day) })
+        );
+    };
+
+    beforeEach(async () => {
+        console.log = () => {};
+        directory = await promises.mkdtemp(join(tmpdir(), 'kbm-retention-'));
+    });
+
+    afterEach(async () => {
+        console.log = originalLog;
+        await promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('deletes zip files & directories using metadata stored next to them', async () => {
+        const fileService = new FileService({
+            enableLog: false,
+            storage: new LocalDirectoryStorageProvider({ directory })
+        });
+        const retentionService = new FileRetentionService(
+            { enableLog: false, projectId: 'project', policy: { keepLast: 1 } },
+            fileService,
+            new ZipService({ enableLog: false, context: 'node.js' })
+        );
+
+        // zip files are not opened when their metadata are stored next to them
+        await promises.writeFile(join(directory, 'latest.zip'), 'not opened');
+        await savePackageMetadataAsync('latest', 'project', 4);
+        await promises.writeFile(join(directory, 'older.zip'), 'not opened');
+        await savePackageMetadataAsync('older', 'project', 3);
+        await promises.writeFile(join(directory, 'other.zip'), 'not opened');
+        await savePackageMetadataAsync('other', 'other-project', 1);
+
+        await promises.mkdir(join(directory, 'directory', 'items'), { recursive: true });
+        await promises.writeFile(join(directory, 'directory', 'metadata.json'), '{}');
+        await promises.writeFile(join(directory, 'directory', 'items', 'home.json'), '{}');
+        await savePackageMetadataAsync('directory', 'project', 2);
+
+        // package created before metadata were stored next to packages
+        await promises.mkdir(join(directory, 'legacy'));
+        await promises.writeFile(
+            join(directory, 'legacy', 'metadata.json'),
+            JSON.stringify({ projectId: 'project', timestamp: new Date(2021, 0, 1) })
+        );
+
+        await promises.mkdir(join(directory, 'unrelated'));
+
+        const result = await retentionService.applyAsync('latest');
+
+        assert.deepEqual(result.delete.map((m) => m.filename).sort(), ['directory', 'legacy', 'older']);
+        assert.deepEqual((await promises.readdir(directory)).sort(), [
+            'latest.zip',
+            'latest_metadata.json',
+            'other.zip',
+            'other_metadata.json',
+            'unrelated'
+        ]);
+    });
+});
@@ -0,0 +1,97 @@
+import { strict as assert } from 'assert';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { encryptionHelper } from '../../../lib/core';
+import { FileService } from '../../../lib/node/file/file.service';
+import { LocalDirectoryStorageProvider } from '../../../lib/node/storage/local-directory-storage-provider';
+import { ZipService } from '../../../lib/zip';
+import { createExportAllResult } from '../../helpers/export-data';
+
+/**
+ * Local directory pretending to be remote storage so that its files are downloaded to temporary files
+ */
+class RemoteStorageProvider extends LocalDirectoryStorageProvider {
+    getLocalFilePath(filename: string): string | undefined {
+        return undefined;
+    }
+}
+
+describe('FileService', () => {
+    const key = new Uint8Array(32).fill(7);
+    let directory: string;
+    let temporaryFilenames: string[];
+
+    const createFileService = (): FileService => {
+        return new FileService({
+            enableLog: false,
+            encryption: { key },
+            storage: new RemoteStorageProvider({ directory })
+        });
+    };
+
+    /**
+     * Temporary files of file service are stored in temporary folder of the system
+     */
+    const getTemporaryFilenamesAsync = async (): Promise<string[]> => {
+        return (await promises.readdir(tmpdir())).filter((m) => /^kbm-[0-9a-f]{16}\.zip$/.test(m));
+    };
+
+    beforeEach(async () => {
+        directory = await promises.mkdtemp(join(tmpdir(), 'kbm-storage-'));
+        temporaryFilenames = await getTemporaryFilenamesAsync();
+    });
+
+    afterEach(async () => {
+        await promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('removes downloaded file when it is not a valid zip file', async () => {
+        await promises.writeFile(join(directory, 'backup.zip'), 'not a zip file');
+
+        await assert.rejects(createFileService().openZipFileReaderAsync('backup'));
+        assert.deepEqual(await getTemporaryFilenamesAsync(), temporaryFilenames);
+    });
+
+    it('removes decrypted file when it is not a valid zip file', async () => {
+        await promises.writeFile(
+            join(directory, 'backup.zip'),
+            await encryptionHelper.encryptAsync(Buffer.from('not a zip file'), { key })
+        );
+
+        await assert.rejects(createFileService().openZipFileReaderAsync('backup'));
+        assert.deepEqual(await getTemporaryFilenamesAsync(), temporaryFilenames);
+    });
+
+    it('stores volatile metadata of deterministic package next to the package', async () => {
+        const fileService = createFileService();
+        const zipService = new ZipService({ enableLog: false, context: 'node.js', deterministic: true });
+        const originalLog = console.log;
+
+        console.log = () => {};
+
+        try {
+            const packageWriter = fileService.createZipFileWriter('backup');
+
+            await zipService.writePackageAsync(
+                createExportAllResult({ assets: [] }, new Date(2021, 0, 1)),
+                packageWriter
+            );
+            await packageWriter.closeAsync();
+        } finally {
+            console.log = originalLog;
+        }
+
+        const packageReader = await fileService.openPackageReaderAsync('backup');
+
+        try {
+            const { metadata } = await zipService.readPackageAsync(packageReader);
+
+            // dates are read from json as strings
+            assert.equal(new Date(metadata.timestamp).getTime(), new Date(2021, 0, 1).getTime());
+        } finally {
+            packageReader.close();
+        }
+    });
+});
@@ -0,0 +1,80 @@
+import { strict as assert } from 'assert';
+
+import { cronHelper } from '../../../lib/node/schedule/cron-helper';
+
+describe('CronHelper', () => {
+    describe('parse', () => {
+        it('parses lists, ranges & steps', () => {
+            const schedule = cronHelper.parse('0,30 8-10 */10 1-3 *');
+
+            assert.deepEqual([...schedule.minutes], [0, 30]);
+            assert.deepEqual([...schedule.hours], [8, 9, 10]);
+            assert.deepEqual([...schedule.daysOfMonth], [1, 11, 21, 31]);
+            assert.deepEqual([...schedule.months], [1, 2, 3]);
+            assert.equal(schedule.daysOfWeek.size, 7);
+            // as in cron, fields starting with '*' are not considered restricted
+            assert.equal(schedule.isDayOfMonthRestricted, false);
+            assert.equal(schedule.isDayOfWeekRestricted, false);
+            assert.equal(cronHelper.parse('0 0 1-5 * mon').isDayOfMonthRestricted, true);
+        });
+
+        it('parses names of months & days and treats 7 as Sunday', () => {
+            const schedule = cronHelper.parse('0 0 * jan,dec sat-7');
+
+            assert.deepEqual([...schedule.months], [1, 12]);
+            assert.deepEqual([...schedule.daysOfWeek].sort(), [0, 6]);
+        });
+
+        it('parses single value with step as range ending with maximum value', () => {
+            assert.deepEqual([...cronHelper.parse('5/20 * * * *').minutes], [5, 25, 45]);
+        });
+
+        it('parses macros', () => {
+            const schedule = cronHelper.parse('@weekly');
+
+            assert.deepEqual([...schedule.minutes], [0]);
+            assert.deepEqual([...schedule.hours], [0]);
+            assert.deepEqual([...schedule.daysOfWeek], [0]);
+        });
+
+        it('fails for invalid expressions', () => {
+            assert.throws(() => cronHelper.parse('* * * *'), /Expected 5 fields/);
+            assert.throws(() => cronHelper.parse('60 * * * *'), /Invalid minute '60'/);
+            assert.throws(() => cronHelper.parse('* * * * mon-sun'), /Invalid day of week/);
+            assert.throws(() => cronHelper.parse('*/0 * * * *'), /Invalid minute/);
+            assert.throws(() => cronHelper.parse('x * * * *'), /Invalid minute 'x'/);
+        });
+    });
+
+    describe('getNextDate', () => {
+        it('gets the next matching minute after given date', () => {
+            const nextDate = cronHelper.getNextDate(
+                cronHelper.parse('*/15 * * * *'),
+                new Date(2021, 5, 15, 10, 15, 30)
+            );
+
+            assert.deepEqual(nextDate, new Date(2021, 5, 15, 10, 30));
+        });
+
+        it('moves to the next day, month & year', () => {
+            const schedule = cronHelper.parse('30 2 1 * *');
+
+            assert.deepEqual(cronHelper.getNextDate(schedule, new Date(2021, 11, 1, 3)), new Date(2022, 0, 1, 2, 30));
+        });
+
+        it('matches day of month or day of week when both are restricted', () => {
+            // 1st of July 2021 is Thursday, 5th of July is Monday
+            const schedule = cronHelper.parse('0 0 5 * thu');
+
+            assert.deepEqual(cronHelper.getNextDate(schedule, new Date(2021, 5, 30)), new Date(2021, 6, 1));
+            assert.deepEqual(cronHelper.getNextDate(schedule, new Date(2021, 6, 1)), new Date(2021, 6, 5));
+        });
+
+        it('fails for expressions which never match', () => {
+            assert.throws(
+                () => cronHelper.getNextDate(cronHelper.parse('0 0 30 2 *'), new Date(2021, 0, 1)),
+                /does not match any date/
+            );
+        });
+    });
+});
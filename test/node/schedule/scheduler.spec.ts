@@ -0,0 +1,178 @@
+import { install, InstalledClock } from '@sinonjs/fake-timers';
+import { strict as assert } from 'assert';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { IScheduledJob } from '../../../lib/node/schedule/schedule.models';
+import { Scheduler } from '../../../lib/node/schedule/scheduler';
+import { ZipFileWriter } from '../../../lib/node/zip/zip-file-writer';
+
+interface IControlledJob extends IScheduledJob {
+    runs: number;
+    finish: () => void;
+}
+
+const createJob = (name: string): IControlledJob => {
+    const job: IControlledJob = {
+        name,
+        cron: '* * * * *',
+        runs: 0,
+        finish: () => {},
+        runAsync: () => {
+            job.runs++;
+            return new Promise<void>((resolve) => (job.finish = resolve));
+        }
+    };
+
+    return job;
+};
+
+const flushAsync = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Scheduler', () => {
+    const originalLog = console.log;
+    const originalWarn = console.warn;
+    let warnings: string[];
+    let clock: InstalledClock;
+
+    beforeEach(() => {
+        warnings = [];
+        console.log = () => {};
+        console.warn = (message: string) => warnings.push(message);
+        // time is controlled by tests so that they do not depend on current time
+        clock = install({ now: new Date(2021, 0, 1), toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    });
+
+    afterEach(() => {
+        console.log = originalLog;
+        console.warn = originalWarn;
+        clock.uninstall();
+    });
+
+    // jobs run every minute
+    const triggerRuns = () => clock.tick(60 * 1000);
+
+    it('fails when job names are not unique', () => {
+        assert.throws(
+            () => new Scheduler({ jobs: [createJob('backup'), createJob('backup')] }),
+            /scheduled multiple times/
+        );
+    });
+
+    it('fails for invalid cron expressions', () => {
+        assert.throws(() => new Scheduler({ jobs: [{ ...createJob('backup'), cron: '* *' }] }), /Invalid cron/);
+    });
+
+    it('queues runs exceeding maximum number of concurrent runs', async () => {
+        const first = createJob('first');
+        const second = createJob('second');
+        const scheduler = new Scheduler({ jobs: [first, second], maxConcurrentRuns: 1 });
+
+        scheduler.start();
+        triggerRuns();
+
+        assert.deepEqual(scheduler.getRunningJobNames(), ['first']);
+        assert.equal(second.runs, 0);
+
+        first.finish();
+        await flushAsync();
+
+        assert.deepEqual(scheduler.getRunningJobNames(), ['second']);
+        assert.equal(second.runs, 1);
+
+        second.finish();
+        await scheduler.stopAsync();
+    });
+
+    it('skips run when previous run of the same job did not finish', async () => {
+        const job = createJob('backup');
+        const scheduler = new Scheduler({ jobs: [job] });
+
+        scheduler.start();
+        triggerRuns();
+        triggerRuns();
+
+        assert.equal(job.runs, 1);
+        assert.equal(warnings.length, 1);
+        assert.match(warnings[0], /Run of 'backup' is skipped/);
+
+        job.finish();
+        await scheduler.stopAsync();
+    });
+
+    it('keeps running after job fails', async () => {
+        const job = createJob('backup');
+        const scheduler = new Scheduler({ jobs: [job] });
+
+        job.runAsync = async () => {
+            job.runs++;
+            throw Error('Failed');
+        };
+
+        scheduler.start();
+        triggerRuns();
+        await flushAsync();
+        triggerRuns();
+        await flushAsync();
+
+        assert.equal(job.runs, 2);
+        assert.deepEqual(scheduler.getRunningJobNames(), []);
+        await scheduler.stopAsync();
+    });
+
+    it('keeps running after package writer of job fails', async () => {
+        const job = createJob('backup');
+        const scheduler = new Scheduler({ jobs: [job] });
+        const logs: string[] = [];
+        let runPromise: Promise<void> = Promise.resolve();
+
+        console.log = (message: string) => logs.push(message);
+        job.runAsync = () => {
+            job.runs++;
+            runPromise = (async () => {
+                // directory of zip file does not exist
+                const zipFileWriter = new ZipFileWriter(join(tmpdir(), 'kbm-missing', `${job.runs}`, 'backup.zip'));
+
+                await zipFileWriter.addFileAsync('metadata.json', '{}', { binary: false });
+                await zipFileWriter.closeAsync();
+            })();
+
+            return runPromise;
+        };
+
+        scheduler.start();
+        triggerRuns();
+        await runPromise.catch(() => {});
+        await flushAsync();
+        triggerRuns();
+        await runPromise.catch(() => {});
+        await flushAsync();
+
+        assert.equal(job.runs, 2);
+        assert.equal(logs.filter((m) => /Run of 'backup' failed: ENOENT/.test(m)).length, 2);
+        assert.deepEqual(scheduler.getRunningJobNames(), []);
+        await scheduler.stopAsync();
+    });
+
+    it('waits for running jobs & does not start queued runs once stopped', async () => {
+        const first = createJob('first');
+        const second = createJob('second');
+        const scheduler = new Scheduler({ jobs: [first, second] });
+        let isStopped = false;
+
+        scheduler.start();
+        triggerRuns();
+
+        const stopPromise = scheduler.stopAsync().then(() => (isStopped = true));
+
+        await flushAsync();
+        assert.equal(isStopped, false);
+
+        first.finish();
+        await stopPromise;
+
+        assert.equal(second.runs, 0);
+        triggerRuns();
+        assert.equal(second.runs, 0);
+    });
+});
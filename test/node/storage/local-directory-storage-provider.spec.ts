@@ -0,0 +1,26 @@
+import { strict as assert } from 'assert';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { LocalDirectoryStorageProvider } from '../../../lib/node/storage/local-directory-storage-provider';
+
+describe('LocalDirectoryStorageProvider', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await promises.mkdtemp(join(tmpdir(), 'kbm-storage-'));
+    });
+
+    afterEach(async () => {
+        await promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('creates missing directory', async () => {
+        const storage = new LocalDirectoryStorageProvider({ directory: join(directory, 'backups', 'daily') });
+
+        await storage.saveFileAsync('backup_metadata.json', '{}');
+
+        assert.deepEqual(await storage.listFilesAsync(), ['backup_metadata.json']);
+    });
+});
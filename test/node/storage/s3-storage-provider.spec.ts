@@ -0,0 +1,167 @@
+import { strict as assert } from 'assert';
+import { createHash, createHmac } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+
+import { S3StorageProvider } from '../../../lib/node/storage/s3-storage-provider';
+
+const credentials = { accessKeyId: 'access-key', secretAccessKey: 'secret-key' };
+const region = 'us-east-1';
+
+const getHmac = (key: Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+const encode = (value: string): string =>
+    encodeURIComponent(value).replace(/[!'()*]/g, (m) => `%${m.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Computes AWS Signature Version 4 of received request the way S3 does
+ */
+const getExpectedSignature = (request: IncomingMessage, body: Buffer): string | undefined => {
+    const authorization = request.headers.authorization ?? '';
+    const match = /^AWS4-HMAC-SHA256 Credential=[^/]+\/([^/]+)\/[^,]+, SignedHeaders=([^,]+), Signature=/.exec(
+        authorization
+    );
+
+    if (!match) {
+        return undefined;
+    }
+
+    const [, date, signedHeaders] = match;
+    const url = new URL(request.url ?? '', 'http://localhost');
+    const payloadHash = request.headers['x-amz-content-sha256'] as string;
+    const query = [...url.searchParams.entries()]
+        .map(([name, value]) => `${encode(name)}=${encode(value)}`)
+        .sort()
+        .join('&');
+    const canonicalRequest = [
+        request.method,
+        url.pathname,
+        query,
+        ...signedHeaders.split(';').map((m) => `${m}:${request.headers[m]}`),
+        '',
+        signedHeaders,
+        payloadHash
+    ].join('\n');
+    const scope = `${date}/${region}/s3/aws4_request`;
+    const stringToSign = [
+        'AWS4-HMAC-SHA256',
+        request.headers['x-amz-date'],
+        scope,
+        createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+    const signingKey = [date, region, 's3', 'aws4_request'].reduce<Buffer>(
+        (key, value) => getHmac(key, value),
+        Buffer.from(`AWS4${credentials.secretAccessKey}`)
+    );
+
+    if (payloadHash !== 'UNSIGNED-PAYLOAD' && payloadHash !== createHash('sha256').update(body).digest('hex')) {
+        return undefined;
+    }
+
+    return getHmac(signingKey, stringToSign).toString('hex');
+};
+
+describe('S3StorageProvider', () => {
+    const objects = new Map<string, Buffer>();
+    const requests: string[] = [];
+    let server: Server;
+    let endpoint: string;
+
+    /**
+     * Stand-in of S3 compatible service (e.g. MinIO) available under '/minio' path of reverse proxy
+     */
+    const handleRequest = (request: IncomingMessage, body: Buffer, response: ServerResponse) => {
+        const url = new URL(request.url ?? '', 'http://localhost');
+        const signature = /Signature=([0-9a-f]+)$/.exec(request.headers.authorization ?? '')?.[1];
+
+        requests.push(`${request.method} ${request.url}`);
+
+        if (!signature || signature !== getExpectedSignature(request, body)) {
+            response.writeHead(403).end('<Error><Code>SignatureDoesNotMatch</Code></Error>');
+            return;
+        }
+
+        if (!url.pathname.startsWith('/minio/backups/')) {
+            response.writeHead(404).end('<Error><Code>NoSuchBucket</Code></Error>');
+            return;
+        }
+
+        const key = decodeURIComponent(url.pathname.substring('/minio/backups/'.length));
+
+        if (request.method === 'GET' && !key) {
+            const keys = [...objects.keys()].filter((m) => m.startsWith(url.searchParams.get('prefix') ?? ''));
+
+            response
+                .writeHead(200)
+                .end(`<ListBucketResult>${keys.map((m) => `<Key>${m}</Key>`).join('')}</ListBucketResult>`);
+        } else if (request.method === 'PUT') {
+            objects.set(key, body);
+            response.writeHead(200).end();
+        } else if (request.method === 'DELETE') {
+            objects.delete(key);
+            response.writeHead(204).end();
+        } else if (!objects.has(key)) {
+            response
+                .writeHead(404)
+                .end(request.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code></Error>');
+        } else {
+            response.writeHead(200).end(request.method === 'HEAD' ? undefined : objects.get(key));
+        }
+    };
+
+    const createProvider = (secretAccessKey: string = credentials.secretAccessKey) =>
+        new S3StorageProvider({
+            bucket: 'backups',
+            region,
+            endpoint,
+            prefix: 'daily/',
+            credentials: { ...credentials, secretAccessKey }
+        });
+
+    before(async () => {
+        server = createServer((request, response) => {
+            const chunks: Buffer[] = [];
+
+            request.on('data', (chunk: Buffer) => chunks.push(chunk));
+            request.on('end', () => handleRequest(request, Buffer.concat(chunks), response));
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/minio/`;
+    });
+
+    after(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        objects.clear();
+        requests.length = 0;
+    });
+
+    it('sends signed requests to endpoint with path', async () => {
+        const provider = createProvider();
+
+        await provider.saveFileAsync('backup (1).zip', 'content');
+
+        assert.equal(await provider.fileExistsAsync('backup (1).zip'), true);
+        assert.equal(await provider.fileExistsAsync('missing.zip'), false);
+        assert.equal((await provider.readFileAsync('backup (1).zip')).toString(), 'content');
+        assert.deepEqual(await provider.listFilesAsync(), ['backup (1).zip']);
+
+        await provider.deleteFileAsync('backup (1).zip');
+
+        assert.deepEqual(await provider.listFilesAsync(), []);
+        assert.deepEqual(requests.slice(0, 2), [
+            'PUT /minio/backups/daily/backup%20%281%29.zip',
+            'HEAD /minio/backups/daily/backup%20%281%29.zip'
+        ]);
+    });
+
+    it('fails when signature does not match', async () => {
+        await assert.rejects(
+            createProvider('wrong-secret').readFileAsync('backup.zip'),
+            /failed with status '403': SignatureDoesNotMatch/
+        );
+    });
+});
@@ -0,0 +1,57 @@
+import { strict as assert } from 'assert';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { ZipFileReader } from '../../../lib/node/zip/zip-file-reader';
+import { ZipFileWriter } from '../../../lib/node/zip/zip-file-writer';
+
+describe('ZipFileWriter', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await promises.mkdtemp(join(tmpdir(), 'kbm-zip-'));
+    });
+
+    afterEach(async () => {
+        await promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('removes partially written zip file when aborted', async () => {
+        let isWritten: boolean = false;
+        const zipFileWriter = new ZipFileWriter(join(directory, 'backup.zip'), undefined, async () => {
+            isWritten = true;
+        });
+
+        await zipFileWriter.addFileAsync('metadata.json', '{}', { binary: false });
+        await zipFileWriter.abortAsync();
+
+        assert.deepEqual(await promises.readdir(directory), []);
+        assert.equal(isWritten, false);
+        await assert.rejects(zipFileWriter.addFileAsync('manifest.json', '{}', { binary: false }), /was aborted/);
+    });
+
+    it('keeps zip file of closed writer', async () => {
+        const zipFileWriter = new ZipFileWriter(join(directory, 'backup.zip'));
+
+        await zipFileWriter.addFileAsync('metadata.json', '{}', { binary: false });
+        await zipFileWriter.closeAsync();
+        await zipFileWriter.abortAsync();
+
+        const zipFileReader = await ZipFileReader.openAsync(join(directory, 'backup.zip'));
+
+        assert.deepEqual(zipFileReader.getFilePaths(), ['metadata.json']);
+        zipFileReader.close();
+    });
+
+    it('fails to add files & close writer when zip file cannot be written', async () => {
+        const zipFileWriter = new ZipFileWriter(join(directory, 'missing', 'backup.zip'));
+
+        // error is emitted before writer is used
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        await assert.rejects(zipFileWriter.addFileAsync('metadata.json', '{}', { binary: false }), /ENOENT/);
+        await assert.rejects(zipFileWriter.closeAsync(), /ENOENT/);
+        await zipFileWriter.abortAsync();
+    });
+});
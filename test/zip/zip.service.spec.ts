@@ -0,0 +1,154 @@
+import { ContentItemContracts } from '@kentico/kontent-management';
+import { strict as assert } from 'assert';
+import * as JSZip from 'jszip';
+
+import { IExportAllResult } from '../../lib/export';
+import { IPackageReader, IZipServiceConfig, JSZipPackageReader, ZipService } from '../../lib/zip';
+import { IAssetServer, startAssetServerAsync } from '../helpers/asset-server';
+import { createAsset, createContentItem, createExportAllResult } from '../helpers/export-data';
+
+const createZipService = (config?: Partial<IZipServiceConfig>): ZipService => {
+    return new ZipService({
+        enableLog: false,
+        context: 'node.js',
+        delayBetweenAssetDownloadRequestsMs: 0,
+        ...config
+    });
+};
+
+describe('ZipService', () => {
+    let assetServer: IAssetServer;
+
+    before(async () => {
+        // content of binary file is its name & downloads finish in random order
+        assetServer = await startAssetServerAsync((request, response) => {
+            setTimeout(() => response.end((request.url ?? '').substr(1)), Math.random() * 20);
+        });
+    });
+
+    after(async () => {
+        await assetServer.closeAsync();
+    });
+
+    const createExportData = (reversed: boolean, timestamp: Date): IExportAllResult => {
+        const reverse = <T>(items: T[]) => (reversed ? [...items].reverse() : items);
+
+        return createExportAllResult(
+            {
+                contentItems: reverse([
+                    createContentItem({ id: 'item-home', codename: 'home' }),
+                    createContentItem({ id: 'item-about', codename: 'about' })
+                ]),
+                assets: reverse(
+                    ['a', 'b', 'c', 'd'].map((m) =>
+                        createAsset({
+                            id: `asset-${m}`,
+                            file_name: `${m}.png`,
+                            size: 5,
+                            url: assetServer.getUrl(`${m}.png`)
+                        })
+                    )
+                )
+            },
+            timestamp
+        );
+    };
+
+    describe('deterministic mode', () => {
+        it('creates byte-identical zip files from identical project content', async () => {
+            const zipService = createZipService({ deterministic: true, maxConcurrentAssetDownloads: 3 });
+
+            const first: Buffer = await zipService.createZipAsync(createExportData(false, new Date(2021, 0, 1)));
+            const second: Buffer = await zipService.createZipAsync(createExportData(true, new Date(2021, 0, 2)));
+
+            assert.equal(Buffer.compare(first, second), 0);
+        });
+
+        it('creates different zip files when deterministic mode is disabled', async () => {
+            const zipService = createZipService();
+
+            const first: Buffer = await zipService.createZipAsync(createExportData(false, new Date(2021, 0, 1)));
+            const second: Buffer = await zipService.createZipAsync(createExportData(true, new Date(2021, 0, 2)));
+
+            assert.notEqual(Buffer.compare(first, second), 0);
+        });
+
+        it('stores sorted objects & fixed dates and leaves out volatile metadata', async () => {
+            const zipService = createZipService({ deterministic: true });
+            const exportData = createExportData(true, new Date(2021, 0, 1));
+            const zip = await JSZip.loadAsync(await zipService.createZipAsync(exportData));
+            const metadata = JSON.parse(await zip.file('metadata.json')!.async('string'));
+            const contentItems = JSON.parse(await zip.file('contentItems.json')!.async('string'));
+
+            assert.equal(metadata.timestamp, undefined);
+            assert.deepEqual(
+                contentItems.map((m: ContentItemContracts.IContentItemModelContract) => m.codename),
+                ['about', 'home']
+            );
+            assert.deepEqual(Object.keys(contentItems[0]), [
+                'codename',
+                'collection',
+                'id',
+                'last_modified',
+                'name',
+                'type'
+            ]);
+
+            zip.forEach((path, file) => assert.equal(file.date.getTime(), Date.UTC(1980, 0, 1)));
+            assert.deepEqual(zipService.getVolatileMetadata(exportData), { timestamp: new Date(2021, 0, 1) });
+        });
+
+        it('reads volatile metadata provided by package reader', async () => {
+            const zipService = createZipService({ deterministic: true });
+            const zip = await JSZip.loadAsync(
+                await zipService.createZipAsync(createExportData(false, new Date(2021, 0, 1)))
+            );
+            const packageReader: IPackageReader = new JSZipPackageReader(zip, 'nodebuffer');
+
+            assert.equal((await zipService.readPackageAsync(packageReader)).metadata.timestamp, undefined);
+
+            packageReader.volatileMetadata = { timestamp: new Date(2021, 0, 1) };
+
+            const importSource = await zipService.readPackageAsync(packageReader);
+
+            assert.deepEqual(importSource.metadata.timestamp, new Date(2021, 0, 1));
+            assert.equal(importSource.binaryFiles.length, 4);
+            assert.deepEqual((await zipService.verifyPackageAsync(packageReader)).isValid, true);
+        });
+    });
+
+    describe('verification', () => {
+        const originalWarn = console.warn;
+
+        beforeEach(() => {
+            console.warn = () => {};
+        });
+
+        afterEach(() => {
+            console.warn = originalWarn;
+        });
+
+        it('accepts binary file whose downloaded size does not match asset size', async () => {
+            const zipService = createZipService();
+            const exportData = createExportAllResult({
+                assets: [
+                    createAsset({
+                        id: 'asset-logo',
+                        file_name: 'logo.png',
+                        size: 100,
+                        url: assetServer.getUrl('logo.png')
+                    })
+                ]
+            });
+            const zip = await JSZip.loadAsync(await zipService.createZipAsync(exportData));
+
+            assert.deepEqual(await zipService.verifyPackageAsync(new JSZipPackageReader(zip, 'nodebuffer')), {
+                isValid: true,
+                hasManifest: true,
+                missingFiles: [],
+                extraFiles: [],
+                corruptedFiles: []
+            });
+        });
+    });
+});